@@ -14,11 +14,42 @@ import * as uri from 'uri-js'
 import urlParse from 'url-parse'
 
 import * as utxoUtils from '../utxobased/engine/utils'
-import { CurrencyFormatKeys } from '../utxobased/engine/utils'
-import { EngineCurrencyInfo, EngineCurrencyType, NetworkEnum } from './types'
+import {
+  CurrencyFormatKeys,
+  DescriptorKeys,
+  ExtendedKeyInfo
+} from '../utxobased/engine/utils'
+import { convertExtendedKey } from '../utxobased/keymanager/keymanager'
+import {
+  combineSlip39,
+  isSlip39Mnemonic,
+  splitSlip39,
+  SplitSlip39Args
+} from '../utxobased/keymanager/slip39Utils/slip39'
+import {
+  CurrencyFormat,
+  EngineCurrencyInfo,
+  EngineCurrencyType,
+  NetworkEnum
+} from './types'
 import * as pluginUtils from './utils'
 import { getFormatsForNetwork } from './utils'
 
+export interface UtxoCurrencyTools extends EdgeCurrencyTools {
+  derivePublicKey: (
+    walletInfo: EdgeWalletInfo,
+    opts?: JsonObject
+  ) => Promise<JsonObject>
+  convertExtendedKey: (xkey: string, format: CurrencyFormat) => Promise<string>
+  getDescriptors: (walletInfo: EdgeWalletInfo) => Promise<string[]>
+  identifyExtendedKey: (xkey: string) => Promise<ExtendedKeyInfo>
+  parseDescriptor: (descriptor: string) => Promise<DescriptorKeys>
+  splitSlip39Backup: (
+    walletInfo: EdgeWalletInfo,
+    opts: Omit<SplitSlip39Args, 'masterSecret' | 'random'>
+  ) => Promise<string[][]>
+}
+
 /**
  * The core currency plugin.
  * Provides information about the currency,
@@ -27,45 +58,239 @@ import { getFormatsForNetwork } from './utils'
 export function makeCurrencyTools(
   io: EdgeIo,
   currencyInfo: EngineCurrencyInfo
-): EdgeCurrencyTools {
-  const fns: EdgeCurrencyTools = {
+): UtxoCurrencyTools {
+  const getAccountOption = (opts: JsonObject): number => {
+    if (!utxoUtils.isValidAccount(opts.account)) {
+      throw new Error('Invalid account index')
+    }
+    return opts.account
+  }
+
+  const makeMnemonicKeys = (
+    mnemonic: string,
+    opts?: JsonObject
+  ): JsonObject => {
+    const mnemonicKey = pluginUtils.getMnemonicKey({
+      coin: currencyInfo.network
+    })
+    const keys: JsonObject = {
+      [mnemonicKey]: mnemonic
+    }
+
+    switch (currencyInfo.currencyType) {
+      case EngineCurrencyType.UTXO: {
+        const multisig = opts?.multisig
+        const utxoKeys: JsonObject = {
+          ...keys,
+          format:
+            opts?.format ??
+            (multisig != null ? 'bip48' : currencyInfo.formats?.[0]) ??
+            'bip44',
+          coinType: opts?.coinType ?? currencyInfo.coinType ?? 0
+        }
+        if (opts?.account != null) {
+          utxoKeys.account = getAccountOption(opts)
+        }
+        if (opts?.electrumSeed === true) utxoKeys.electrumSeed = true
+        if (opts?.slip39Seed === true) utxoKeys.slip39Seed = true
+        // seeds of other wallets may use paths of their own
+        if (opts?.derivationPath != null) {
+          if (!utxoUtils.isValidDerivationPath(opts.derivationPath)) {
+            throw new Error('Invalid derivation path')
+          }
+          utxoKeys.derivationPath = opts.derivationPath
+        }
+        // an empty passphrase derives the same keys as none at all
+        if (typeof opts?.passphrase === 'string' && opts.passphrase !== '') {
+          utxoKeys.passphrase = opts.passphrase
+        }
+        if (opts?.birthdayHeight != null) {
+          if (!utxoUtils.isValidBlockHeight(opts.birthdayHeight)) {
+            throw new Error('Invalid birthday height')
+          }
+          utxoKeys.silentPaymentBirthday = opts.birthdayHeight
+        }
+        if (utxoKeys.format === 'bip48' && multisig == null) {
+          throw new Error('Multisig wallets need the keys of every cosigner')
+        }
+        if (multisig != null) {
+          utxoKeys.multisig = utxoUtils.addOwnMultisigXpub({
+            keys: { ...utxoKeys, multisig },
+            coin: currencyInfo.network,
+            network: currencyInfo.networkType ?? NetworkEnum.Mainnet
+          })
+        }
+        return utxoKeys
+      }
+    }
+  }
+
+  const fns: UtxoCurrencyTools = {
     async createPrivateKey(
       walletType: string,
       opts?: JsonObject
     ): Promise<JsonObject> {
-      const mnemonicKey = pluginUtils.getMnemonicKey({
-        coin: currencyInfo.network
-      })
-      const mnemonic = bip39.entropyToMnemonic(Buffer.from(io.random(32)))
-      const keys: JsonObject = {
-        [mnemonicKey]: mnemonic
+      // slip39 wallets keep their master secret, to split it into shares later
+      if (opts?.slip39 === true) {
+        const masterSecret = Buffer.from(io.random(32)).toString('base64')
+        return makeMnemonicKeys(masterSecret, {
+          ...opts,
+          passphrase: undefined,
+          slip39Seed: true
+        })
       }
+      const mnemonic = bip39.entropyToMnemonic(Buffer.from(io.random(32)))
+      return makeMnemonicKeys(mnemonic, opts)
+    },
 
+    // Imports a wallet from a bip39 or electrum mnemonic, the shares of a
+    // slip39 backup one per line, or a watch-only wallet from an extended
+    // public key or an output descriptor. Options may pick the format, coin
+    // type, account and derivation path of the key, the passphrase of a
+    // mnemonic or backup and the block height the wallet was made at.
+    // Electrum seeds pick their own format.
+    async importPrivateKey(
+      key: string,
+      importOpts?: JsonObject
+    ): Promise<JsonObject> {
+      // restored wallets scan for silent payments from their birthday, or
+      // else from the first block that may pay them
+      const opts: JsonObject | undefined =
+        currencyInfo.silentPayments === true
+          ? {
+              ...importOpts,
+              birthdayHeight:
+                importOpts?.birthdayHeight ??
+                currencyInfo.silentPaymentsHeight ??
+                0
+            }
+          : importOpts
+      const mnemonic = key.trim().split(/\s+/).join(' ')
+      if (bip39.validateMnemonic(mnemonic)) {
+        return makeMnemonicKeys(mnemonic, opts)
+      }
+      const shares = key.trim().split(/\s*\n\s*/)
+      if (shares.every(isSlip39Mnemonic)) {
+        const masterSecret = combineSlip39({
+          mnemonics: shares,
+          passphrase: opts?.passphrase
+        })
+        // the passphrase decrypts the master secret, which the keys hold
+        return makeMnemonicKeys(masterSecret.toString('base64'), {
+          ...opts,
+          passphrase: undefined,
+          slip39Seed: true
+        })
+      }
+      const electrumFormat = utxoUtils.getElectrumSeedFormat(mnemonic)
+      if (electrumFormat != null) {
+        if (currencyInfo.formats?.includes(electrumFormat) === false) {
+          throw new Error(`Electrum ${electrumFormat} seeds are not supported`)
+        }
+        return makeMnemonicKeys(mnemonic, {
+          ...opts,
+          format: electrumFormat,
+          electrumSeed: true
+        })
+      }
       switch (currencyInfo.currencyType) {
         case EngineCurrencyType.UTXO:
-          return {
-            ...keys,
-            format: opts?.format ?? currencyInfo.formats?.[0] ?? 'bip44',
-            coinType: opts?.coinType ?? currencyInfo.coinType ?? 0
-          }
+          return utxoUtils.makeWatchOnlyKeys({
+            key: key.trim(),
+            coin: currencyInfo.network,
+            network: currencyInfo.networkType ?? NetworkEnum.Mainnet,
+            format: opts?.format,
+            coinType: opts?.coinType ?? currencyInfo.coinType
+          })
       }
     },
 
-    async derivePublicKey(walletInfo: EdgeWalletInfo): Promise<JsonObject> {
+    // Options may move a wallet to another account of its seed
+    async derivePublicKey(
+      walletInfo: EdgeWalletInfo,
+      opts?: JsonObject
+    ): Promise<JsonObject> {
       let key = 'publicKey'
       let publicKey: CurrencyFormatKeys
+      const keys: JsonObject = { ...walletInfo.keys }
       switch (currencyInfo.currencyType) {
-        case EngineCurrencyType.UTXO:
-          key = utxoUtils.getXpubKey({ coin: currencyInfo.network })
-          // TODO: which xpub should be saved? the root path (m) or hardened path with the wallet format path (m/{purpose}'/{coinType}'/{account}')?
-          publicKey = utxoUtils.deriveXpubsFromKeys({
-            keys: walletInfo.keys,
+        case EngineCurrencyType.UTXO: {
+          const args = {
+            keys,
             coin: currencyInfo.network,
             network: currencyInfo.networkType ?? NetworkEnum.Mainnet
-          })
+          }
+          if (opts?.account != null) {
+            // the xpubs of watch-only wallets fix their account
+            if (utxoUtils.isWatchOnly(args)) {
+              throw new Error('Watch-only wallets cannot change account')
+            }
+            keys.account = getAccountOption(opts)
+          }
+          key = utxoUtils.getXpubKey(args)
+          // TODO: which xpub should be saved? the root path (m) or hardened path with the wallet format path (m/{purpose}'/{coinType}'/{account}')?
+          publicKey = utxoUtils.isWatchOnly(args)
+            ? utxoUtils.getXpubs(args)
+            : utxoUtils.deriveXpubsFromKeys(args)
+        }
       }
-      walletInfo.keys[key] = publicKey
-      return walletInfo.keys
+      return { ...keys, [key]: publicKey }
+    },
+
+    async getDescriptors(walletInfo: EdgeWalletInfo): Promise<string[]> {
+      return utxoUtils.getWalletDescriptors({
+        keys: walletInfo.keys,
+        coin: currencyInfo.network,
+        network: currencyInfo.networkType ?? NetworkEnum.Mainnet
+      })
+    },
+
+    // Reads the version bytes of an extended key of the coin, such as a
+    // pasted xpub, ypub or zpub, and the format and script type they imply
+    async identifyExtendedKey(xkey: string): Promise<ExtendedKeyInfo> {
+      return utxoUtils.getExtendedKeyInfo({
+        xkey,
+        coin: currencyInfo.network,
+        network: currencyInfo.networkType ?? NetworkEnum.Mainnet
+      })
+    },
+
+    // Re-encodes an extended key of any version with the prefix of the format
+    async convertExtendedKey(
+      xkey: string,
+      format: CurrencyFormat
+    ): Promise<string> {
+      return convertExtendedKey({
+        xkey,
+        coin: currencyInfo.network,
+        network: currencyInfo.networkType ?? NetworkEnum.Mainnet,
+        newType: utxoUtils.currencyFormatToPurposeType(format)
+      })
+    },
+
+    // Splits the seed of a wallet into the groups of mnemonic shares of a
+    // slip39 backup, for example 2 of the groups [1 of 1, 2 of 3, 3 of 5]
+    async splitSlip39Backup(
+      walletInfo: EdgeWalletInfo,
+      opts: Omit<SplitSlip39Args, 'masterSecret' | 'random'>
+    ): Promise<string[][]> {
+      return splitSlip39({
+        ...opts,
+        masterSecret: utxoUtils.getWalletMasterSecret({
+          keys: walletInfo.keys,
+          coin: currencyInfo.network,
+          network: currencyInfo.networkType ?? NetworkEnum.Mainnet
+        }),
+        random: length => Buffer.from(io.random(length))
+      })
+    },
+
+    async parseDescriptor(descriptor: string): Promise<DescriptorKeys> {
+      return utxoUtils.parseDescriptor({
+        descriptor,
+        coin: currencyInfo.network,
+        network: currencyInfo.networkType ?? NetworkEnum.Mainnet
+      })
     },
 
     async parseUri(uri: string): Promise<EdgeParsedUri> {
@@ -10,17 +10,27 @@ import { IUTXO } from '../utxobased/db/types'
 import { EngineEmitter } from './makeEngineEmitter'
 import { PluginState } from './pluginState'
 
-// this enumerates the network types of single coins. Can be expanded to add regtest, signet, stagenet etc.
+// this enumerates the network types of single coins. Can be expanded to add stagenet etc.
 export enum NetworkEnum {
   Mainnet = 'mainnet',
-  Testnet = 'testnet'
+  Testnet = 'testnet',
+  Regtest = 'regtest',
+  Signet = 'signet'
 }
 
-export type CurrencyFormat = 'bip32' | 'bip44' | 'bip49' | 'bip84'
+export type CurrencyFormat =
+  | 'bip32'
+  | 'bip44'
+  | 'bip47'
+  | 'bip48'
+  | 'bip49'
+  | 'bip84'
+  | 'bip86'
+  | 'bip352'
 
 export interface AddressPath {
   format: CurrencyFormat
-  changeIndex: number
+  changeIndex: number // bip47 paths pick the payment code instead
   addressIndex: number
 }
 
@@ -43,6 +53,10 @@ export interface EngineCurrencyInfo extends EdgeCurrencyInfo {
   network: string // The offical network in lower case - Needs to match the Bitcoin Lib Network Type
   networkType?: NetworkEnum
   uriPrefix?: string
+  paymentCodes?: boolean // watches the addresses of bip47 payment codes
+  silentPayments?: boolean // scans new blocks for bip352 silent payments
+  silentPaymentsHeight?: number // the taproot activation, where restored wallets start scanning
+  replayProtection?: boolean // watches the replay protected addresses of the chain split
   gapLimit: number
   defaultFee: number
   feeUpdateInterval: number
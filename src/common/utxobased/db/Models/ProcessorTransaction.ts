@@ -38,7 +38,8 @@ export const toEdgeTransaction = async (
     if (address?.path != null) {
       const { address: addrStr } = walletTools.scriptPubkeyToAddress({
         scriptPubkey,
-        format: address.path.format
+        format: address.path.format,
+        changeIndex: address.path.changeIndex
       })
       ourReceiveAddresses.push(addrStr)
     }
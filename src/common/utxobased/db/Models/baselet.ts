@@ -1,7 +1,13 @@
 import { BaseType } from 'baselet'
 
 import { AddressPath } from '../../../plugin/types'
-import { BaseletConfig, IAddress, IProcessorTransaction, IUTXO } from '../types'
+import {
+  BaseletConfig,
+  IAddress,
+  IProcessorTransaction,
+  IUTXO,
+  IUTXOTags
+} from '../types'
 
 export const RANGE_ID_KEY = 'idKey'
 export const RANGE_KEY = 'rangeKey'
@@ -121,3 +127,10 @@ export const spentUtxoByIdConfig: BaseletConfig<BaseType.HashBase> = {
   type: BaseType.HashBase,
   bucketSize: 6
 }
+
+export type UtxoTagsById = IUTXOTags | undefined
+export const utxoTagsByIdConfig: BaseletConfig<BaseType.HashBase> = {
+  dbName: 'utxoTagsById',
+  type: BaseType.HashBase,
+  bucketSize: 6
+}
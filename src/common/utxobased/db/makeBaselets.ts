@@ -25,7 +25,8 @@ import {
   usedFlagByScriptPubkeyConfig,
   utxoByIdConfig,
   utxoIdsByScriptPubkeyConfig,
-  utxoIdsBySizeConfig
+  utxoIdsBySizeConfig,
+  utxoTagsByIdConfig
 } from './Models/baselet'
 import { Baselet, BaseletConfig } from './types'
 
@@ -202,3 +203,9 @@ export const makeBaselets = async (
     }
   }
 }
+
+// the choices of the user are kept apart from the tables, which are cleared
+// when the wallet resyncs
+export const makeUtxoTagsBaselet = async (
+  config: MakeBaseletsConfig
+): Promise<HashBase> => await createOrOpen(config.disklet, utxoTagsByIdConfig)
@@ -8,6 +8,7 @@ import { AddressPath } from '../../plugin/types'
 import {
   AddressTables,
   makeBaselets,
+  makeUtxoTagsBaselet,
   TransactionTables,
   UTXOTables
 } from './makeBaselets'
@@ -22,11 +23,13 @@ import {
   TxById,
   TxsByDate,
   TxsByScriptPubkey,
-  UtxoById
+  UtxoById,
+  UtxoTagsById
 } from './Models/baselet'
-import { IAddress, IProcessorTransaction, IUTXO } from './types'
+import { IAddress, IProcessorTransaction, IUTXO, IUTXOTags } from './types'
 
 const BASELET_DIR = 'tables'
+const UTXO_TAGS_DIR = 'utxoTags'
 
 interface ProcessorConfig {
   disklet: Disklet
@@ -53,6 +56,11 @@ interface RemoveTxIdByBlockHeightArgs {
   txid: string
 }
 
+interface UpdateUtxoTagsArgs {
+  id: string
+  data: Partial<IUTXOTags>
+}
+
 interface UpdateTransactionArgs {
   txid: string
   data: Pick<IProcessorTransaction, 'blockHeight'>
@@ -125,6 +133,10 @@ export interface Processor {
 
   updateUtxo: (utxo: IUTXO) => Promise<void>
 
+  fetchUtxoTags: (ids: string[]) => Promise<UtxoTagsById[]>
+
+  updateUtxoTags: (args: UpdateUtxoTagsArgs) => Promise<void>
+
   saveUsedAddress: (scriptPubkey: string) => Promise<void>
 
   getUsedAddress: (scriptPubkey: string) => Promise<boolean>
@@ -142,6 +154,9 @@ export async function makeProcessor(
 
   const disklet = navigateDisklet(config.disklet, BASELET_DIR)
   let baselets = await makeBaselets({ disklet })
+  const utxoTagsById = await makeUtxoTagsBaselet({
+    disklet: navigateDisklet(config.disklet, UTXO_TAGS_DIR)
+  })
 
   const mutex = makeMutex()
 
@@ -494,6 +509,29 @@ export async function makeProcessor(
       return await baselets.utxo(
         async tables => await updateUtxo({ tables, utxo })
       )
+    },
+
+    async fetchUtxoTags(ids: string[]): Promise<UtxoTagsById[]> {
+      // Short circuit querying database
+      if (ids.length === 0) return []
+      return await utxoTagsById.query('', ids)
+    },
+
+    async updateUtxoTags(args: UpdateUtxoTagsArgs): Promise<void> {
+      const { id, data } = args
+      const [tags]: UtxoTagsById[] = await utxoTagsById.query('', [id])
+      const { label, ...rest }: IUTXOTags = {
+        frozen: false,
+        ...tags,
+        ...data
+      }
+      const updated: IUTXOTags = label != null ? { ...rest, label } : rest
+      // Only keep the tags of utxos the user made a choice about
+      if (!updated.frozen && label == null) {
+        await utxoTagsById.delete('', [id])
+      } else {
+        await utxoTagsById.insert('', id, updated)
+      }
     }
   }
 
@@ -609,6 +647,14 @@ export async function makeProcessor(
     Parameters<typeof processor.updateUtxo>[0],
     Await<ReturnType<typeof processor.updateUtxo>>
   >(processor.updateUtxo)
+  processor.fetchUtxoTags = await mutexDecorator<
+    Parameters<typeof processor.fetchUtxoTags>[0],
+    Await<ReturnType<typeof processor.fetchUtxoTags>>
+  >(processor.fetchUtxoTags)
+  processor.updateUtxoTags = await mutexDecorator<
+    Parameters<typeof processor.updateUtxoTags>[0],
+    Await<ReturnType<typeof processor.updateUtxoTags>>
+  >(processor.updateUtxoTags)
   processor.getUsedAddress = await mutexDecorator<
     Parameters<typeof processor.getUsedAddress>[0],
     Await<ReturnType<typeof processor.getUsedAddress>>
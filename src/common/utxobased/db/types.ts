@@ -24,11 +24,19 @@ export interface IUTXO {
   scriptPubkey: string
   script: string
   redeemScript?: string
+  witnessScript?: string
   scriptType: ScriptTypeEnum
+  silentPaymentTweak?: string // added to the bip352 spend key to sign the input
   blockHeight: number
   spent: boolean
 }
 
+// the coin control choices of the user for a utxo
+export interface IUTXOTags {
+  frozen: boolean // left out of every spend until it is unfrozen
+  label?: string
+}
+
 export interface IProcessorTransaction {
   txid: string
   hex: string
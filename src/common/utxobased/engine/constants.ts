@@ -1,3 +1,5 @@
+import { derivationLevelScriptHash } from '../keymanager/keymanager'
+
 export const BLOCKBOOK_TXS_PER_PAGE = 10
 
 export const CACHE_THROTTLE = 0.05
@@ -5,3 +7,22 @@ export const CACHE_THROTTLE = 0.05
 export const MAX_CONNECTIONS = 2
 
 export const NEW_CONNECTIONS = 8
+
+// bip47 paths keep the notification address of the wallet's payment code on
+// this branch, the receive addresses of every sender follow on the next ones
+export const PAYMENT_CODE_NOTIFICATION_BRANCH = 0
+
+// the dust notification transactions pay to the notification address
+export const PAYMENT_CODE_NOTIFICATION_AMOUNT = '546'
+
+// silent payment outputs take the size of a taproot output until the inputs
+// that determine their script pubkey are picked
+export const SILENT_PAYMENT_PLACEHOLDER_SCRIPT = `5120${'00'.repeat(32)}`
+
+// the branch of legacy paths holding the replay protected p2sh addresses
+// that split coins after a chain fork
+export const REPLAY_PROTECTION_BRANCH = derivationLevelScriptHash()
+
+// the reasons the nodes behind blockbook reject transactions for good, such
+// as spent or missing inputs, a fee below the relay fee or dust outputs
+export const BROADCAST_REJECTION = /missingorspent|missing-inputs|mempool-conflict|insufficient fee|min relay fee|mempool min fee|dust|bad-txns|script-verify-flag-failed/i
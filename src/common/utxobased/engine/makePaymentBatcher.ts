@@ -0,0 +1,358 @@
+import * as bs from 'biggystring'
+import { Disklet } from 'disklet'
+import { EdgeLog, EdgeMetadata, EdgeTransaction } from 'edge-core-js'
+import { makeMemlet, Memlet } from 'memlet'
+
+import AwaitLock from './await-lock'
+
+const paymentBatchPath = `paymentBatch.json`
+
+const DEFAULT_BATCH_TRIGGERS: BatchTriggers = {
+  maxCount: 50,
+  maxBytes: 10000,
+  maxAge: 60 * 60 * 1000
+}
+
+interface PaymentBatcherConfig {
+  disklet: Disklet
+  log: EdgeLog
+  // the bytes the output paying the address adds to the batch, which throws
+  // for addresses the wallet cannot pay
+  outputBytes: (publicAddress: string) => number
+  // makes and signs the transaction paying every payment
+  makeBatch: (payments: QueuedPayment[]) => Promise<EdgeTransaction>
+  broadcastBatch: (transaction: EdgeTransaction) => Promise<void>
+  // whether the network refuses the transaction for good, such as for spent
+  // inputs, a low fee or dust, rather than failing to reach it
+  isRejection: (error: unknown) => boolean
+  // the block height of a transaction of the wallet, 0 while it is
+  // unconfirmed, or undefined if the wallet does not know it
+  fetchTxBlockHeight: (txid: string) => Promise<number | undefined>
+}
+
+// the batch is sent as soon as any of its limits is reached
+export interface BatchTriggers {
+  maxCount: number // payments
+  maxBytes: number // the size of the outputs paying the batch
+  maxAge: number // milliseconds since the oldest payment was queued
+}
+
+export interface QueuedPayment {
+  id: string
+  publicAddress: string
+  nativeAmount: string
+  metadata?: EdgeMetadata
+  queuedAt: number // milliseconds since the epoch
+  // sending payments wait for the broadcast of their signed batch, or go back
+  // to the queue if the network rejects it, sent ones are forgotten once the
+  // batch confirms
+  status: 'queued' | 'sending' | 'sent'
+  txid?: string // the transaction paying it, once the batch is signed
+}
+
+interface PaymentBatchData {
+  nextId: number
+  triggers: BatchTriggers
+  payments: QueuedPayment[]
+  // the signed batch, saved before its broadcast so a restart broadcasts
+  // the same transaction rather than paying its payments again
+  sending?: EdgeTransaction
+}
+
+export interface PaymentBatcher {
+  readonly payments: QueuedPayment[]
+  readonly triggers: BatchTriggers
+  // finishes sending the last batch, then sends the queue once it reaches a
+  // trigger, until stopped
+  start: () => Promise<void>
+  stop: () => void
+  // checks the batches against the transactions of the wallet
+  update: () => Promise<void>
+  enqueue: (payment: {
+    publicAddress: string
+    nativeAmount: string
+    metadata?: EdgeMetadata
+  }) => Promise<QueuedPayment>
+  // resolves to false if the payment is not queued
+  remove: (id: string) => Promise<boolean>
+  setTriggers: (triggers: Partial<BatchTriggers>) => Promise<void>
+  // resolves to the txid of the batch, or undefined without payments to send
+  flush: () => Promise<string | undefined>
+}
+
+// Queues payments to send them together in one transaction, keeping them
+// across restarts along with the txids that paid them
+export const makePaymentBatcher = async (
+  config: PaymentBatcherConfig
+): Promise<PaymentBatcher> => {
+  const { log, outputBytes, makeBatch, broadcastBatch } = config
+  const { isRejection, fetchTxBlockHeight } = config
+  const memlet = makeMemlet(config.disklet)
+  const lock = new AwaitLock()
+
+  const cache: PaymentBatchData = await fetchPaymentBatch(memlet)
+  let started = false
+  let timeoutId: NodeJS.Timeout | undefined
+
+  const locked = async <T>(fn: () => Promise<T>): Promise<T> => {
+    await lock.acquireAsync()
+    try {
+      return await fn()
+    } finally {
+      lock.release()
+    }
+  }
+
+  const queued = (): QueuedPayment[] =>
+    cache.payments.filter(payment => payment.status === 'queued')
+
+  const isDue = (): boolean => {
+    const payments = queued()
+    if (payments.length === 0) return false
+    const { maxCount, maxBytes, maxAge } = cache.triggers
+    const bytes = payments.reduce(
+      (sum, payment) => sum + outputBytes(payment.publicAddress),
+      0
+    )
+    return (
+      payments.length >= maxCount ||
+      bytes >= maxBytes ||
+      Date.now() - payments[0].queuedAt >= maxAge
+    )
+  }
+
+  // The caller holds the lock. The batch being sent is broadcast again until
+  // the wallet sees its transaction, which cannot pay the payments twice.
+  // A batch the network rejects is abandoned, queueing its payments again.
+  const finishSending = async (broadcast: boolean): Promise<void> => {
+    const transaction = cache.sending
+    if (transaction == null) return
+    if ((await fetchTxBlockHeight(transaction.txid)) == null) {
+      if (!broadcast) return
+      try {
+        await broadcastBatch(transaction)
+      } catch (error) {
+        if (isRejection(error)) await abandonSending()
+        throw error
+      }
+    }
+    for (const payment of cache.payments) {
+      if (payment.txid === transaction.txid) payment.status = 'sent'
+    }
+    cache.sending = undefined
+    await setPaymentBatch(memlet, cache)
+  }
+
+  // the caller holds the lock
+  const abandonSending = async (): Promise<void> => {
+    const transaction = cache.sending
+    if (transaction == null) return
+    log.warn(`Abandoning the rejected payment batch ${transaction.txid}`)
+    for (const payment of cache.payments) {
+      if (payment.txid !== transaction.txid) continue
+      payment.status = 'queued'
+      payment.txid = undefined
+    }
+    cache.sending = undefined
+    await setPaymentBatch(memlet, cache)
+  }
+
+  // the caller holds the lock
+  const removeConfirmed = async (): Promise<void> => {
+    const confirmed = new Set<string>()
+    for (const { status, txid } of cache.payments) {
+      if (status !== 'sent' || txid == null || confirmed.has(txid)) continue
+      const blockHeight = await fetchTxBlockHeight(txid)
+      if (blockHeight != null && blockHeight > 0) confirmed.add(txid)
+    }
+    if (confirmed.size === 0) return
+    cache.payments = cache.payments.filter(
+      ({ txid }) => txid == null || !confirmed.has(txid)
+    )
+    await setPaymentBatch(memlet, cache)
+  }
+
+  // the caller holds the lock
+  const send = async (): Promise<string | undefined> => {
+    if (!started) throw new Error('The payment batcher is not started')
+    await finishSending(true)
+    const payments = queued()
+    if (payments.length === 0) return
+    const transaction = await makeBatch(payments)
+    for (const payment of payments) {
+      payment.status = 'sending'
+      payment.txid = transaction.txid
+    }
+    cache.sending = transaction
+    await setPaymentBatch(memlet, cache)
+    await finishSending(true)
+    return transaction.txid
+  }
+
+  // a batch that fails to send is retried after the age limit
+  const sendIfDue = async (): Promise<void> => {
+    let failed = false
+    await locked(async () => {
+      if (!started || !isDue()) return
+      await send().catch(error => {
+        failed = true
+        log.error(`Failed to send the payment batch: ${String(error)}`)
+      })
+    })
+    schedule(failed)
+  }
+
+  const schedule = (retry = false): void => {
+    if (timeoutId != null) clearTimeout(timeoutId)
+    timeoutId = undefined
+    const [oldest] = queued()
+    if (!started || oldest == null) return
+    const { maxAge } = cache.triggers
+    const delay = retry ? maxAge : oldest.queuedAt + maxAge - Date.now()
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    timeoutId = setTimeout(sendIfDue, Math.max(delay, 0))
+  }
+
+  return {
+    get payments() {
+      return cache.payments
+    },
+    get triggers() {
+      return cache.triggers
+    },
+    start: async () => {
+      started = true
+      await locked(async () => {
+        await finishSending(true).catch(error => {
+          log.error(`Failed to send the payment batch: ${String(error)}`)
+        })
+        await removeConfirmed()
+      })
+      await sendIfDue()
+    },
+    stop: () => {
+      started = false
+      schedule()
+    },
+    update: async () => {
+      await locked(async () => {
+        await finishSending(false)
+        await removeConfirmed()
+      })
+    },
+    enqueue: async ({ publicAddress, nativeAmount, metadata }) => {
+      if (!/^\d+$/.test(nativeAmount) || !bs.gt(nativeAmount, '0')) {
+        throw new Error('Invalid spend target')
+      }
+      outputBytes(publicAddress)
+      const payment = await locked(async () => {
+        const payment: QueuedPayment = {
+          id: String(cache.nextId++),
+          publicAddress,
+          nativeAmount,
+          metadata,
+          queuedAt: Date.now(),
+          status: 'queued'
+        }
+        cache.payments.push(payment)
+        await setPaymentBatch(memlet, cache)
+        return payment
+      })
+      await sendIfDue()
+      return payment
+    },
+    remove: async (id: string) => {
+      const removed = await locked(async () => {
+        const index = cache.payments.findIndex(payment => payment.id === id)
+        if (index < 0) return false
+        if (cache.payments[index].status === 'sending') {
+          throw new Error('The payment is being sent')
+        }
+        cache.payments.splice(index, 1)
+        await setPaymentBatch(memlet, cache)
+        return true
+      })
+      schedule()
+      return removed
+    },
+    setTriggers: async (triggers: Partial<BatchTriggers>) => {
+      for (const value of Object.values(triggers)) {
+        if (value == null || !(value > 0)) {
+          throw new Error('Invalid batch trigger')
+        }
+      }
+      await locked(async () => {
+        cache.triggers = { ...cache.triggers, ...triggers }
+        await setPaymentBatch(memlet, cache)
+      })
+      await sendIfDue()
+    },
+    flush: async () => {
+      try {
+        return await locked(send)
+      } finally {
+        schedule()
+      }
+    }
+  }
+}
+
+// Combines the metadata of the payments into the metadata of their batch
+export const mergePaymentMetadata = (
+  payments: QueuedPayment[]
+): EdgeMetadata | undefined => {
+  const metadatas = payments
+    .map(({ metadata }) => metadata)
+    .filter((metadata): metadata is EdgeMetadata => metadata != null)
+  if (metadatas.length === 0) return
+  if (metadatas.length === 1) return metadatas[0]
+
+  // the fields every payment agrees on, or undefined
+  const shared = <T>(values: Array<T | undefined>): T | undefined => {
+    const unique = new Set(values.filter(value => value != null))
+    return unique.size === 1 ? [...unique][0] : undefined
+  }
+  const names = metadatas.map(({ name }) => name)
+  const notes = metadatas.map(({ notes }) => notes)
+  const exchangeAmount: { [fiatCurrencyCode: string]: number } = {}
+  for (const metadata of metadatas) {
+    for (const [code, amount] of Object.entries(
+      metadata.exchangeAmount ?? {}
+    )) {
+      exchangeAmount[code] = (exchangeAmount[code] ?? 0) + amount
+    }
+  }
+
+  const result: EdgeMetadata = {}
+  const bizId = shared(metadatas.map(({ bizId }) => bizId))
+  if (bizId != null) result.bizId = bizId
+  const category = shared(metadatas.map(({ category }) => category))
+  if (category != null) result.category = category
+  const name = [...new Set(names.filter(isText))].join(', ')
+  if (name !== '') result.name = name
+  const note = notes.filter(isText).join('\n')
+  if (note !== '') result.notes = note
+  if (Object.keys(exchangeAmount).length > 0) {
+    result.exchangeAmount = exchangeAmount
+  }
+  return result
+}
+
+const isText = (text: string | undefined): text is string =>
+  text != null && text !== ''
+
+const fetchPaymentBatch = async (memlet: Memlet): Promise<PaymentBatchData> => {
+  try {
+    const dataStr = await memlet.getJson(paymentBatchPath)
+    return JSON.parse(dataStr)
+  } catch {
+    return { nextId: 0, triggers: { ...DEFAULT_BATCH_TRIGGERS }, payments: [] }
+  }
+}
+
+const setPaymentBatch = async (
+  memlet: Memlet,
+  data: PaymentBatchData
+): Promise<void> => {
+  await memlet.setJson(paymentBatchPath, JSON.stringify(data))
+}
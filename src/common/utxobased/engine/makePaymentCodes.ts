@@ -0,0 +1,90 @@
+import { Disklet } from 'disklet'
+import { makeMemlet, Memlet } from 'memlet'
+
+import AwaitLock from './await-lock'
+
+const paymentCodesPath = `paymentCodes.json`
+
+interface PaymentCodesConfig {
+  disklet: Disklet
+}
+
+interface PaymentCodesData {
+  incoming: string[] // senders that notified the wallet, in the order of their bip47 branches
+  outgoing: { [paymentCode: string]: number } // notified recipients and their next send index
+}
+
+export interface PaymentCodes {
+  readonly incoming: string[]
+  getSendIndex: (paymentCode: string) => number | undefined
+  // resolves to false if the sender is already known
+  addIncoming: (paymentCode: string) => Promise<boolean>
+  addOutgoing: (paymentCode: string) => Promise<void>
+  setSendIndex: (paymentCode: string, index: number) => Promise<void>
+}
+
+// Keeps the bip47 payment codes the wallet exchanged notifications with,
+// which cannot be derived from the seed
+export const makePaymentCodes = async (
+  config: PaymentCodesConfig
+): Promise<PaymentCodes> => {
+  const memlet = makeMemlet(config.disklet)
+  const lock = new AwaitLock()
+
+  const cache: PaymentCodesData = await fetchPaymentCodes(memlet)
+
+  const update = async (change: () => boolean): Promise<boolean> => {
+    await lock.acquireAsync()
+    try {
+      const changed = change()
+      if (changed) await setPaymentCodes(memlet, cache)
+      return changed
+    } finally {
+      lock.release()
+    }
+  }
+
+  return {
+    get incoming() {
+      return cache.incoming
+    },
+    getSendIndex: (paymentCode: string) => cache.outgoing[paymentCode],
+    addIncoming: async (paymentCode: string) =>
+      await update(() => {
+        if (cache.incoming.includes(paymentCode)) return false
+        cache.incoming.push(paymentCode)
+        return true
+      }),
+    addOutgoing: async (paymentCode: string) => {
+      await update(() => {
+        if (cache.outgoing[paymentCode] != null) return false
+        cache.outgoing[paymentCode] = 0
+        return true
+      })
+    },
+    setSendIndex: async (paymentCode: string, index: number) => {
+      await update(() => {
+        // payments may be broadcast out of order
+        if ((cache.outgoing[paymentCode] ?? 0) >= index) return false
+        cache.outgoing[paymentCode] = index
+        return true
+      })
+    }
+  }
+}
+
+const fetchPaymentCodes = async (memlet: Memlet): Promise<PaymentCodesData> => {
+  try {
+    const dataStr = await memlet.getJson(paymentCodesPath)
+    return JSON.parse(dataStr)
+  } catch {
+    return { incoming: [], outgoing: {} }
+  }
+}
+
+const setPaymentCodes = async (
+  memlet: Memlet,
+  data: PaymentCodesData
+): Promise<void> => {
+  await memlet.setJson(paymentCodesPath, JSON.stringify(data))
+}
@@ -0,0 +1,110 @@
+import { Disklet } from 'disklet'
+import { makeMemlet, Memlet } from 'memlet'
+
+import AwaitLock from './await-lock'
+
+const silentPaymentsPath = `silentPayments.json`
+
+interface SilentPaymentsConfig {
+  disklet: Disklet
+}
+
+interface SilentPaymentsData {
+  startHeight?: number // the first block to scan, the birthday of the wallet
+  scannedHeight?: number // the last block scanned for silent payments
+  tweaks: string[] // the outputs found, in the order of their bip352 addresses
+}
+
+export interface SilentPayments {
+  readonly startHeight: number | undefined
+  readonly scannedHeight: number | undefined
+  readonly tweaks: string[]
+  // only the first start height counts
+  setStartHeight: (height: number) => Promise<void>
+  setScannedHeight: (height: number) => Promise<void>
+  // scans the blocks from the height again, by default from the start height
+  rescan: (height?: number) => Promise<void>
+  // resolves to false if the output is already known
+  addTweak: (tweak: string) => Promise<boolean>
+}
+
+// Keeps the progress of scanning blocks for bip352 silent payments and the
+// tweaks of the outputs found, which cannot be derived from the seed
+export const makeSilentPayments = async (
+  config: SilentPaymentsConfig
+): Promise<SilentPayments> => {
+  const memlet = makeMemlet(config.disklet)
+  const lock = new AwaitLock()
+
+  const cache: SilentPaymentsData = await fetchSilentPayments(memlet)
+
+  const update = async (change: () => boolean): Promise<boolean> => {
+    await lock.acquireAsync()
+    try {
+      const changed = change()
+      if (changed) await setSilentPayments(memlet, cache)
+      return changed
+    } finally {
+      lock.release()
+    }
+  }
+
+  return {
+    get startHeight() {
+      return cache.startHeight
+    },
+    get scannedHeight() {
+      return cache.scannedHeight
+    },
+    get tweaks() {
+      return cache.tweaks
+    },
+    setStartHeight: async (height: number) => {
+      await update(() => {
+        if (cache.startHeight != null) return false
+        cache.startHeight = height
+        return true
+      })
+    },
+    setScannedHeight: async (height: number) => {
+      await update(() => {
+        if ((cache.scannedHeight ?? -1) >= height) return false
+        cache.scannedHeight = height
+        return true
+      })
+    },
+    rescan: async (height?: number) => {
+      await update(() => {
+        const startHeight = height ?? cache.startHeight
+        if (startHeight == null) return false
+        cache.startHeight = Math.min(startHeight, cache.startHeight ?? Infinity)
+        cache.scannedHeight = startHeight - 1
+        return true
+      })
+    },
+    addTweak: async (tweak: string) =>
+      await update(() => {
+        if (cache.tweaks.includes(tweak)) return false
+        cache.tweaks.push(tweak)
+        return true
+      })
+  }
+}
+
+const fetchSilentPayments = async (
+  memlet: Memlet
+): Promise<SilentPaymentsData> => {
+  try {
+    const dataStr = await memlet.getJson(silentPaymentsPath)
+    return JSON.parse(dataStr)
+  } catch {
+    return { tweaks: [] }
+  }
+}
+
+const setSilentPayments = async (
+  memlet: Memlet,
+  data: SilentPaymentsData
+): Promise<void> => {
+  await memlet.setJson(silentPaymentsPath, JSON.stringify(data))
+}
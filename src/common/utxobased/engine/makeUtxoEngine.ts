@@ -6,8 +6,10 @@ import {
   EdgeDataDump,
   EdgeFreshAddress,
   EdgeGetTransactionsOptions,
+  EdgeMetadata,
   EdgePaymentProtocolInfo,
   EdgeSpendInfo,
+  EdgeSpendTarget,
   EdgeTokenInfo,
   EdgeTransaction,
   JsonObject
@@ -17,7 +19,7 @@ import { FEES_DISKLET_PATH } from '../../constants'
 import { makeFees } from '../../fees/makeFees'
 import { EngineEmitter, EngineEvent } from '../../plugin/makeEngineEmitter'
 import { makeMetadata } from '../../plugin/makeMetadata'
-import { EngineConfig, TxOptions } from '../../plugin/types'
+import { AddressPath, EngineConfig, TxOptions } from '../../plugin/types'
 import { getMnemonic } from '../../plugin/utils'
 import { makeProcessor } from '../db/makeProcessor'
 import {
@@ -25,16 +27,56 @@ import {
   toEdgeTransaction
 } from '../db/Models/ProcessorTransaction'
 import { IProcessorTransaction, IUTXO } from '../db/types'
-import { makeTx, MakeTxTarget, signTx } from '../keymanager/keymanager'
+import { isPaymentCode } from '../keymanager/bip47Utils/bip47'
+import {
+  addPsbtBip32Derivation,
+  Bip32Derivation,
+  combinePsbts,
+  finalizePsbt,
+  getPsbtInputScriptPubkeys,
+  isSilentPaymentAddress,
+  makeTx,
+  MakeTxTarget,
+  maxSpendable,
+  ScriptTypeEnum,
+  signMessage,
+  signMultisigPsbt,
+  signPsbt,
+  SignPsbtReturn,
+  signTx,
+  SignTxReturn,
+  verifyMessage
+} from '../keymanager/keymanager'
+import { outputBytes } from '../keymanager/utxopicker'
+import {
+  BROADCAST_REJECTION,
+  PAYMENT_CODE_NOTIFICATION_AMOUNT,
+  SILENT_PAYMENT_PLACEHOLDER_SCRIPT
+} from './constants'
+import {
+  BatchTriggers,
+  makePaymentBatcher,
+  mergePaymentMetadata,
+  QueuedPayment
+} from './makePaymentBatcher'
+import { makePaymentCodes } from './makePaymentCodes'
+import { makeSilentPayments } from './makeSilentPayments'
 import { makeUtxoEngineState } from './makeUtxoEngineState'
 import { makeUtxoWalletTools } from './makeUtxoWalletTools'
 import { createPayment, getPaymentDetails, sendPayment } from './paymentRequest'
-import { UTXOTxOtherParams } from './types'
+import { UtxoInfo, UTXOTxOtherParams } from './types'
 import {
+  CurrencyFormatKeys,
+  DescriptorKeys,
   fetchOrDeriveXprivFromKeys,
+  getWalletDescriptors,
   getWalletFormat,
   getWalletSupportedFormats,
-  getXpubs
+  isValidBlockHeight,
+  isWatchOnly,
+  parseDescriptor,
+  supportsPaymentCodes,
+  supportsSilentPayments
 } from './utils'
 
 export async function makeUtxoEngine(
@@ -81,16 +123,79 @@ export async function makeUtxoEngine(
     disklet: walletLocalDisklet,
     emitter
   })
+  const paymentCodes =
+    currencyInfo.paymentCodes === true &&
+    supportsPaymentCodes({ keys: walletInfo.keys, coin: currencyInfo.network })
+      ? await makePaymentCodes({ disklet: walletLocalDisklet })
+      : undefined
+  const silentPayments =
+    currencyInfo.silentPayments === true &&
+    supportsSilentPayments({
+      keys: walletInfo.keys,
+      coin: currencyInfo.network
+    })
+      ? await makeSilentPayments({ disklet: walletLocalDisklet })
+      : undefined
+  const paymentBatcher = await makePaymentBatcher({
+    disklet: walletLocalDisklet,
+    log,
+    outputBytes: publicAddress =>
+      outputBytes({
+        script: Buffer.from(getSpendTargetScript(publicAddress), 'hex'),
+        value: 0
+      }),
+    makeBatch: async (payments: QueuedPayment[]): Promise<EdgeTransaction> => {
+      const spendTargets = payments.map(({ publicAddress, nativeAmount }) => ({
+        currencyCode: currencyInfo.currencyCode,
+        publicAddress,
+        nativeAmount
+      }))
+      const signed = await fns.signTx(
+        await fns.makeSpend({
+          currencyCode: currencyInfo.currencyCode,
+          spendTargets
+        })
+      )
+      if (signed.signedTx === '') {
+        throw new Error('The payment batch needs the signatures of cosigners')
+      }
+      // the psbt is left out, since the batch is saved to disk signed
+      const { paymentCodes: paymentCodeParams }: Partial<UTXOTxOtherParams> =
+        signed.otherParams ?? {}
+      return {
+        ...signed,
+        spendTargets,
+        metadata: mergePaymentMetadata(payments),
+        otherParams: { paymentCodes: paymentCodeParams }
+      }
+    },
+    broadcastBatch: async (transaction: EdgeTransaction): Promise<void> => {
+      await fns.broadcastTx(transaction)
+      // the spend targets make the core save the metadata of the new
+      // transaction, which it skips for the copy saveTx emits
+      emitter.emit(EngineEvent.TRANSACTIONS_CHANGED, [transaction])
+      await fns.saveTx(transaction)
+    },
+    isRejection: (error: unknown): boolean =>
+      error instanceof Error && BROADCAST_REJECTION.test(error.message),
+    fetchTxBlockHeight: async (txid: string): Promise<number | undefined> =>
+      (await processor.fetchTransaction(txid))?.blockHeight
+  })
   const state = makeUtxoEngineState({
     ...config,
     walletTools,
     processor,
+    paymentCodes,
+    silentPayments,
     pluginState
   })
 
   emitter.on(
     EngineEvent.PROCESSOR_TRANSACTION_CHANGED,
     async (tx: IProcessorTransaction) => {
+      paymentBatcher.update().catch(error => {
+        log.error(`Failed to update the payment batch: ${String(error)}`)
+      })
       emitter.emit(EngineEvent.TRANSACTIONS_CHANGED, [
         await toEdgeTransaction({
           tx,
@@ -102,6 +207,156 @@ export async function makeUtxoEngine(
     }
   )
 
+  const assertCanSign = (): void => {
+    if (isWatchOnly({ keys: walletInfo.keys, coin: currencyInfo.network })) {
+      throw new Error('Watch-only wallets hold no private keys')
+    }
+  }
+
+  const fetchAddressPath = async (
+    scriptPubkey: string | undefined
+  ): Promise<AddressPath | undefined> => {
+    if (scriptPubkey == null) return
+    const address = await processor.fetchAddressByScriptPubkey(scriptPubkey)
+    return address?.path
+  }
+
+  // the derivation paths of the psbt inputs spending this wallet's outputs
+  const fetchPsbtInputPaths = async (
+    psbtBase64: string
+  ): Promise<Array<AddressPath | undefined>> =>
+    await Promise.all(
+      getPsbtInputScriptPubkeys({ psbtBase64 }).map(fetchAddressPath)
+    )
+
+  const fetchBip32Derivation = async (
+    scriptPubkey: string | undefined
+  ): Promise<Bip32Derivation | undefined> => {
+    const path = await fetchAddressPath(scriptPubkey)
+    return path == null ? undefined : walletTools.getBip32Derivation(path)
+  }
+
+  // the private key spending an output of the wallet
+  const fetchUtxoPrivateKey = async (
+    utxo: IUTXO,
+    xprivKeys: CurrencyFormatKeys
+  ): Promise<string> => {
+    if (utxo.silentPaymentTweak != null) {
+      return walletTools.getSilentPaymentPrivateKey(utxo.silentPaymentTweak)
+    }
+    const path = await fetchAddressPath(utxo.scriptPubkey)
+    if (path == null) throw new Error('Invalid script pubkey')
+    return walletTools.getPrivateKey({ path, xprivKeys })
+  }
+
+  const utxoConfirmations = (utxo: IUTXO): number =>
+    utxo.blockHeight > 0
+      ? Math.max(metadata.lastSeenBlockHeight - utxo.blockHeight + 1, 0)
+      : 0
+
+  // the unspent outputs the user did not freeze, with at least the
+  // confirmations the spend asks for
+  const fetchSpendableUtxos = async (
+    edgeSpendInfo: EdgeSpendInfo
+  ): Promise<IUTXO[]> => {
+    const minConfirmations: number =
+      edgeSpendInfo.otherParams?.minConfirmations ?? 0
+    const utxos = await processor.fetchAllUtxos()
+    const tags = await processor.fetchUtxoTags(utxos.map(({ id }) => id))
+    return utxos.filter(
+      (utxo, i) =>
+        !utxo.spent &&
+        tags[i]?.frozen !== true &&
+        utxoConfirmations(utxo) >= minConfirmations
+    )
+  }
+
+  // the utxos the user picked by hand, which are all spent
+  const fetchPickedUtxos = async (ids: string[]): Promise<IUTXO[]> => {
+    const tags = await processor.fetchUtxoTags(ids)
+    return await Promise.all(
+      ids.map(async (id, i) => {
+        const utxo = await processor.fetchUtxo(id)
+        if (utxo == null || utxo.spent) throw new Error(`UTXO not found: ${id}`)
+        if (tags[i]?.frozen === true) throw new Error(`UTXO is frozen: ${id}`)
+        return utxo
+      })
+    )
+  }
+
+  const assertUtxo = async (id: string): Promise<void> => {
+    const utxo = await processor.fetchUtxo(id)
+    if (utxo == null) throw new Error(`UTXO not found: ${id}`)
+  }
+
+  const assertPaymentCodes = (): void => {
+    if (paymentCodes == null) {
+      throw new Error('The wallet does not support payment codes')
+    }
+  }
+
+  // the address of the next payment to a payment code the wallet notified
+  const getPaymentCodeSendAddress = (
+    paymentCode: string,
+    sendIndices: { [paymentCode: string]: number }
+  ): string => {
+    assertPaymentCodes()
+    const index =
+      sendIndices[paymentCode] ?? paymentCodes?.getSendIndex(paymentCode)
+    if (index == null) {
+      throw new Error('Notify the payment code before paying it')
+    }
+    sendIndices[paymentCode] = index + 1
+    return walletTools.getPaymentCodeSendAddress({ paymentCode, index }).address
+  }
+
+  // the script pubkey a spend target pays, as makeSpend sizes it
+  const getSpendTargetScript = (publicAddress: string): string => {
+    if (isSilentPaymentAddress({ address: publicAddress, network })) {
+      return SILENT_PAYMENT_PLACEHOLDER_SCRIPT
+    }
+    return walletTools.addressToScriptPubkey(
+      isPaymentCode(publicAddress)
+        ? getPaymentCodeSendAddress(publicAddress, {})
+        : publicAddress
+    )
+  }
+
+  // The notification script blinds the payment code of the wallet with the
+  // first input, which has to reveal its public key
+  const getNotificationTarget = async (
+    paymentCode: string,
+    utxos: IUTXO[]
+  ): Promise<{ target: MakeTxTarget; utxo: IUTXO }> => {
+    assertCanSign()
+    const candidates = utxos.filter(
+      utxo =>
+        !utxo.spent &&
+        (utxo.scriptType === ScriptTypeEnum.p2pkh ||
+          utxo.scriptType === ScriptTypeEnum.p2wpkh ||
+          utxo.scriptType === ScriptTypeEnum.p2wpkhp2sh)
+    )
+    if (candidates.length === 0) {
+      throw new Error('No funds to notify the payment code with')
+    }
+    const utxo = candidates.reduce((a, b) => (bs.gt(a.value, b.value) ? a : b))
+    const path = await fetchAddressPath(utxo.scriptPubkey)
+    if (path == null) throw new Error('Invalid script pubkey')
+    const xprivKeys = await fetchOrDeriveXprivFromKeys({
+      keys: walletInfo.keys,
+      walletLocalEncryptedDisklet,
+      coin: currencyInfo.network,
+      network
+    })
+    const script = walletTools.getPaymentCodeNotificationScript({
+      paymentCode,
+      privateKey: walletTools.getPrivateKey({ path, xprivKeys }),
+      txid: utxo.txid,
+      vout: utxo.vout
+    })
+    return { target: { script, value: 0 }, utxo }
+  }
+
   const fns: EdgeCurrencyEngine = {
     async startEngine(): Promise<void> {
       emitter.emit(
@@ -111,9 +366,11 @@ export async function makeUtxoEngine(
       )
       await fees.start()
       await state.start()
+      await paymentBatcher.start()
     },
 
     async killEngine(): Promise<void> {
+      paymentBatcher.stop()
       await state.stop()
       fees.stop()
     },
@@ -156,6 +413,18 @@ export async function makeUtxoEngine(
       if (id !== transaction.txid) {
         throw new Error('broadcast response txid does not match original')
       }
+      const { paymentCodes: paymentCodeParams }: Partial<UTXOTxOtherParams> =
+        otherParams ?? {}
+      if (paymentCodes != null && paymentCodeParams != null) {
+        if (paymentCodeParams.notified != null) {
+          await paymentCodes.addOutgoing(paymentCodeParams.notified)
+        }
+        for (const [paymentCode, index] of Object.entries(
+          paymentCodeParams.sendIndices
+        )) {
+          await paymentCodes.setSendIndex(paymentCode, index)
+        }
+      }
       return transaction
     },
 
@@ -174,7 +443,10 @@ export async function makeUtxoEngine(
         data: {
           walletInfo: {
             walletFormat,
-            walletFormatsSupported: getWalletSupportedFormats(walletInfo),
+            walletFormatsSupported: getWalletSupportedFormats({
+              keys: walletInfo.keys,
+              coin: currencyInfo.network
+            }),
             pluginType: currencyInfo.pluginId
           },
           processorState: await processor.dumpData(),
@@ -188,15 +460,35 @@ export async function makeUtxoEngine(
     },
 
     getDisplayPrivateSeed(): string | null {
-      return getMnemonic({ keys: walletInfo.keys, coin: currencyInfo.network })
+      assertCanSign()
+      const mnemonic = getMnemonic({
+        keys: walletInfo.keys,
+        coin: currencyInfo.network
+      })
+      const { passphrase, electrumSeed, slip39Seed } = walletInfo.keys
+      const lines = [mnemonic]
+      if (slip39Seed === true) {
+        lines.push('SLIP-39 master secret (restore it from its shares)')
+      }
+      // bip39 wallets restore a different, empty wallet from these words
+      if (electrumSeed === true) {
+        lines.push('Electrum seed (restore it in Electrum, not as BIP39)')
+      }
+      // the mnemonic alone restores a different, empty wallet
+      if (typeof passphrase === 'string' && passphrase !== '') {
+        const label =
+          electrumSeed === true ? 'Seed extension' : 'BIP39 passphrase'
+        lines.push(`${label} (required to restore this wallet): ${passphrase}`)
+      }
+      return lines.join('\n\n')
     },
 
     getDisplayPublicSeed(): string | null {
-      const xpubs = getXpubs({
+      return getWalletDescriptors({
         keys: walletInfo.keys,
-        coin: currencyInfo.network
-      })
-      return Object.values(xpubs).join('\n')
+        coin: currencyInfo.network,
+        network
+      }).join('\n')
     },
 
     async getEnabledTokens(): Promise<string[]> {
@@ -259,20 +551,42 @@ export async function makeUtxoEngine(
     ): Promise<EdgeTransaction> {
       let targets: MakeTxTarget[] = []
       const ourReceiveAddresses: string[] = []
+      const sendIndices: { [paymentCode: string]: number } = {}
+      // the targets paying silent payment addresses
+      let silentPaymentTargets: Array<{
+        address: string
+        target: MakeTxTarget
+      }> = []
       for (const target of edgeSpendInfo.spendTargets) {
         if (target.publicAddress == null || target.nativeAmount == null) {
           throw new Error('Invalid spend target')
         }
+        if (
+          isSilentPaymentAddress({ address: target.publicAddress, network })
+        ) {
+          const silentPaymentTarget = {
+            script: SILENT_PAYMENT_PLACEHOLDER_SCRIPT,
+            value: parseInt(target.nativeAmount)
+          }
+          targets.push(silentPaymentTarget)
+          silentPaymentTargets.push({
+            address: target.publicAddress,
+            target: silentPaymentTarget
+          })
+          continue
+        }
+        // payment codes are paid at the next address they share with the wallet
+        const address = isPaymentCode(target.publicAddress)
+          ? getPaymentCodeSendAddress(target.publicAddress, sendIndices)
+          : target.publicAddress
 
-        const scriptPubkey = walletTools.addressToScriptPubkey(
-          target.publicAddress
-        )
+        const scriptPubkey = walletTools.addressToScriptPubkey(address)
         if (await processor.hasSPubKey(scriptPubkey)) {
-          ourReceiveAddresses.push(target.publicAddress)
+          ourReceiveAddresses.push(address)
         }
 
         targets.push({
-          address: target.publicAddress,
+          address,
           value: parseInt(target.nativeAmount)
         })
       }
@@ -280,7 +594,16 @@ export async function makeUtxoEngine(
       const freshAddress = await state.getFreshAddress(1)
       const freshChangeAddress =
         freshAddress.segwitAddress ?? freshAddress.publicAddress
-      const utxos = options?.utxos ?? (await processor.fetchAllUtxos())
+      const pickedUtxoIds: string[] | undefined =
+        edgeSpendInfo.otherParams?.utxoIds
+      const pickedUtxos =
+        pickedUtxoIds != null
+          ? await fetchPickedUtxos(pickedUtxoIds)
+          : undefined
+      const utxos =
+        pickedUtxos ??
+        options?.utxos ??
+        (await fetchSpendableUtxos(edgeSpendInfo))
       const setRBF = options?.setRBF ?? false
       const rbfTxid = edgeSpendInfo.rbfTxid
       let maxUtxo: undefined | IUTXO
@@ -314,13 +637,31 @@ export async function makeUtxoEngine(
         maxUtxo = utxos.reduce((a, b) => (bs.gt(a.value, b.value) ? a : b))
         // cpfp just sends to change, no target addresses are required
         targets = []
+        silentPaymentTargets = []
+      }
+      const notifyPaymentCode: string | undefined =
+        edgeSpendInfo.otherParams?.notifyPaymentCode
+      if (notifyPaymentCode != null) {
+        // the designated input has to be the first one
+        const { target, utxo } = await getNotificationTarget(
+          notifyPaymentCode,
+          utxos
+        )
+        targets.push(target)
+        maxUtxo = utxo
       }
       log.warn(`spend: Using fee rate ${feeRate} sat/B`)
       const subtractFee =
         options?.subtractFee != null ? options.subtractFee : false
-      const tx = await makeTx({
-        utxos,
-        forceUseUtxo: maxUtxo != null ? [maxUtxo] : [],
+      // picked utxos are spent without adding any others
+      let forceUseUtxo = pickedUtxos ?? []
+      if (maxUtxo != null) {
+        const { id } = maxUtxo
+        forceUseUtxo = [maxUtxo, ...forceUseUtxo.filter(utxo => utxo.id !== id)]
+      }
+      const makeTxArgs = {
+        utxos: pickedUtxos != null ? [] : utxos,
+        forceUseUtxo,
         targets,
         feeRate,
         coin: currencyInfo.network,
@@ -328,10 +669,65 @@ export async function makeUtxoEngine(
         setRBF,
         freshChangeAddress,
         subtractFee
-      })
+      }
+      let tx = await makeTx(makeTxArgs)
+      if (silentPaymentTargets.length > 0) {
+        // The outputs paying silent payment addresses are tweaked with the
+        // private keys of the inputs, so the transaction is made again with
+        // the inputs picked for the placeholders
+        assertCanSign()
+        const xprivKeys = await fetchOrDeriveXprivFromKeys({
+          keys: walletInfo.keys,
+          walletLocalEncryptedDisklet,
+          coin: currencyInfo.network,
+          network
+        })
+        const inputUtxos = await Promise.all(
+          tx.inputs.map(async ({ hash, index }) => {
+            const txid = Buffer.from(hash).reverse().toString('hex')
+            const utxo = await processor.fetchUtxo(`${txid}_${index}`)
+            if (utxo == null) throw new Error('Invalid UTXO')
+            return utxo
+          })
+        )
+        const scripts = walletTools.getSilentPaymentOutputScripts({
+          addresses: silentPaymentTargets.map(({ address }) => address),
+          inputs: await Promise.all(
+            inputUtxos.map(async utxo => ({
+              privateKey: await fetchUtxoPrivateKey(utxo, xprivKeys),
+              scriptType: utxo.scriptType,
+              scriptPubkey: utxo.scriptPubkey,
+              txid: utxo.txid,
+              vout: utxo.vout
+            }))
+          )
+        })
+        silentPaymentTargets.forEach(({ target }, i) => {
+          target.script = scripts[i]
+        })
+        tx = await makeTx({
+          ...makeTxArgs,
+          utxos: [],
+          forceUseUtxo: inputUtxos
+        })
+      }
       if (tx.changeUsed) {
         ourReceiveAddresses.push(freshChangeAddress)
       }
+      const psbtBase64 = addPsbtBip32Derivation({
+        psbtBase64: tx.psbtBase64,
+        inputs: await Promise.all(
+          getPsbtInputScriptPubkeys({ psbtBase64: tx.psbtBase64 }).map(
+            fetchBip32Derivation
+          )
+        ),
+        outputs: await Promise.all(
+          tx.outputs.map(
+            async output =>
+              await fetchBip32Derivation(output.script.toString('hex'))
+          )
+        )
+      })
 
       let nativeAmount = '0'
       for (const output of tx.outputs) {
@@ -349,10 +745,11 @@ export async function makeUtxoEngine(
         ourReceiveAddresses,
         otherParams: {
           psbt: {
-            base64: tx.psbtBase64,
+            base64: psbtBase64,
             inputs: tx.inputs
           },
-          edgeSpendInfo
+          edgeSpendInfo,
+          paymentCodes: { notified: notifyPaymentCode, sendIndices }
         },
         currencyCode: currencyInfo.currencyCode,
         txid: '',
@@ -389,6 +786,7 @@ export async function makeUtxoEngine(
         transaction.otherParams ?? {}
       if (psbt == null || edgeSpendInfo == null)
         throw new Error('Invalid transaction data')
+      assertCanSign()
 
       // Derive the xprivs on the fly, since we do not persist them
       const xprivKeys = await fetchOrDeriveXprivFromKeys({
@@ -401,25 +799,33 @@ export async function makeUtxoEngine(
       const privateKeys = await Promise.all(
         psbt.inputs.map(async ({ hash, index }) => {
           const txid = Buffer.isBuffer(hash)
-            ? hash.reverse().toString('hex')
+            ? Buffer.from(hash).reverse().toString('hex')
             : hash
 
           const utxo = await processor.fetchUtxo(`${txid}_${index}`)
           if (utxo == null) throw new Error('Invalid UTXO')
 
-          const address = await processor.fetchAddressByScriptPubkey(
-            utxo.scriptPubkey
-          )
-          if (address?.path == null) throw new Error('Invalid script pubkey')
-
-          return walletTools.getPrivateKey({ path: address.path, xprivKeys })
+          return await fetchUtxoPrivateKey(utxo, xprivKeys)
         })
       )
-      const signedTx = await signTx({
-        psbtBase64: psbt.base64,
-        coin: currencyInfo.network,
-        privateKeys
-      })
+      let signedTx
+      if (walletInfo.keys.multisig != null) {
+        // Keep the partially signed psbt around for the other cosigners
+        const { psbtBase64, complete } = await signMultisigPsbt({
+          psbtBase64: psbt.base64,
+          coin: currencyInfo.network,
+          privateKeys
+        })
+        psbt.base64 = psbtBase64
+        if (!complete) return transaction
+        signedTx = await finalizePsbt({ psbtBase64 })
+      } else {
+        signedTx = await signTx({
+          psbtBase64: psbt.base64,
+          coin: currencyInfo.network,
+          privateKeys
+        })
+      }
       transaction.txid = signedTx.id
       transaction.signedTx = signedTx.hex
 
@@ -505,6 +911,298 @@ export async function makeUtxoEngine(
       })
       await tmpState.start()
       return end
+    },
+
+    otherMethods: {
+      getDescriptors(): string[] {
+        return getWalletDescriptors({
+          keys: walletInfo.keys,
+          coin: currencyInfo.network,
+          network
+        })
+      },
+
+      parseDescriptor(descriptor: string): DescriptorKeys {
+        return parseDescriptor({
+          descriptor,
+          coin: currencyInfo.network,
+          network
+        })
+      },
+
+      // the bip47 payment code other wallets pay this wallet with
+      getPaymentCode(): string {
+        assertPaymentCodes()
+        return walletTools.getPaymentCode()
+      },
+
+      // the bip352 silent payment address, which pays the wallet at outputs
+      // found by scanning every block
+      getSilentPaymentAddress(): string {
+        if (silentPayments == null) {
+          throw new Error('The wallet does not support silent payments')
+        }
+        return walletTools.getSilentPaymentAddress()
+      },
+
+      // scans the blocks from the height again, by default from the birthday
+      // of the wallet, to find silent payments missed before
+      async rescanSilentPayments(height?: number): Promise<void> {
+        if (silentPayments == null) {
+          throw new Error('The wallet does not support silent payments')
+        }
+        if (height != null && !isValidBlockHeight(height)) {
+          throw new Error('Invalid block height')
+        }
+        await state.stop()
+        await silentPayments.rescan(height)
+        await state.start()
+      },
+
+      // Makes the transaction telling the owner of the payment code about the
+      // payment code of this wallet, which comes before paying it
+      async makePaymentCodeNotification(
+        paymentCode: string
+      ): Promise<EdgeTransaction> {
+        assertPaymentCodes()
+        return await fns.makeSpend({
+          currencyCode: currencyInfo.currencyCode,
+          spendTargets: [
+            {
+              publicAddress: walletTools.getPaymentCodeNotificationAddress(
+                paymentCode
+              ).address,
+              nativeAmount: PAYMENT_CODE_NOTIFICATION_AMOUNT
+            }
+          ],
+          otherParams: { notifyPaymentCode: paymentCode }
+        })
+      },
+
+      async signMessage(message: string, address: string): Promise<string> {
+        const scriptPubkey = walletTools.addressToScriptPubkey(address)
+        const addressData = await processor.fetchAddressByScriptPubkey(
+          scriptPubkey
+        )
+        if (addressData?.path == null) {
+          throw new Error('Address does not belong to this wallet')
+        }
+        if (walletInfo.keys.multisig != null) {
+          throw new Error('Cannot sign messages with multisig addresses')
+        }
+        assertCanSign()
+
+        const xprivKeys = await fetchOrDeriveXprivFromKeys({
+          keys: walletInfo.keys,
+          walletLocalEncryptedDisklet,
+          coin: currencyInfo.network,
+          network
+        })
+        return signMessage({
+          message,
+          privateKey: walletTools.getPrivateKey({
+            path: addressData.path,
+            xprivKeys
+          }),
+          address,
+          coin: currencyInfo.network,
+          network
+        })
+      },
+
+      verifyMessage(
+        message: string,
+        address: string,
+        signature: string
+      ): boolean {
+        return verifyMessage({
+          message,
+          signature,
+          address,
+          coin: currencyInfo.network,
+          network
+        })
+      },
+
+      // The largest amount of the first spend target that makeSpend pays for
+      // at the fee of the spend info, along with the other targets. The engine
+      // interface of edge-core-js has no place for it yet.
+      async getMaxSpendable(edgeSpendInfo: EdgeSpendInfo): Promise<string> {
+        const targets = edgeSpendInfo.spendTargets.map(
+          (target, i): MakeTxTarget => {
+            if (
+              target.publicAddress == null ||
+              (i > 0 && target.nativeAmount == null)
+            ) {
+              throw new Error('Invalid spend target')
+            }
+            const value = i > 0 ? parseInt(target.nativeAmount ?? '0') : 0
+            if (
+              isSilentPaymentAddress({ address: target.publicAddress, network })
+            ) {
+              return { script: SILENT_PAYMENT_PLACEHOLDER_SCRIPT, value }
+            }
+            const address = isPaymentCode(target.publicAddress)
+              ? getPaymentCodeSendAddress(target.publicAddress, {})
+              : target.publicAddress
+            return { address, value }
+          }
+        )
+        const pickedUtxoIds: string[] | undefined =
+          edgeSpendInfo.otherParams?.utxoIds
+        const pickedUtxos =
+          pickedUtxoIds != null ? await fetchPickedUtxos(pickedUtxoIds) : []
+        const utxos =
+          pickedUtxoIds != null ? [] : await fetchSpendableUtxos(edgeSpendInfo)
+        const feeRate = parseInt(await fees.getRate(edgeSpendInfo))
+        return maxSpendable({
+          network,
+          forceUseUtxo: pickedUtxos,
+          utxos,
+          targets,
+          feeRate,
+          coin: currencyInfo.network
+        }).toString()
+      },
+
+      // The payments waiting in the batch and the ones it already sent, with
+      // the txid of the transaction that paid them
+      getQueuedPayments(): QueuedPayment[] {
+        return paymentBatcher.payments
+      },
+
+      // Queues the payment of the spend target, which goes out along with the
+      // other queued payments once the batch reaches a trigger
+      async enqueuePayment(
+        spendTarget: EdgeSpendTarget,
+        metadata?: EdgeMetadata
+      ): Promise<QueuedPayment> {
+        const { publicAddress, nativeAmount } = spendTarget
+        if (publicAddress == null || nativeAmount == null) {
+          throw new Error('Invalid spend target')
+        }
+        assertCanSign()
+        return await paymentBatcher.enqueue({
+          publicAddress,
+          nativeAmount,
+          metadata
+        })
+      },
+
+      // cancels a queued payment, or forgets a sent one
+      async removeQueuedPayment(id: string): Promise<void> {
+        if (!(await paymentBatcher.remove(id))) {
+          throw new Error(`Queued payment not found: ${id}`)
+        }
+      },
+
+      getBatchTriggers(): BatchTriggers {
+        return paymentBatcher.triggers
+      },
+
+      async setBatchTriggers(triggers: Partial<BatchTriggers>): Promise<void> {
+        await paymentBatcher.setTriggers(triggers)
+      },
+
+      // sends the queued payments without waiting for a trigger
+      async flushPayments(): Promise<string | undefined> {
+        return await paymentBatcher.flush()
+      },
+
+      // the unspent outputs of the wallet, for the user to freeze or to pick
+      // with the utxoIds of the spend info's otherParams
+      async getUtxos(): Promise<UtxoInfo[]> {
+        const utxos = (await processor.fetchAllUtxos()).filter(
+          utxo => !utxo.spent
+        )
+        const tags = await processor.fetchUtxoTags(utxos.map(({ id }) => id))
+        return await Promise.all(
+          utxos.map(async (utxo, i) => {
+            const path = await fetchAddressPath(utxo.scriptPubkey)
+            const address =
+              path != null
+                ? walletTools.scriptPubkeyToAddress({
+                    scriptPubkey: utxo.scriptPubkey,
+                    format: path.format,
+                    changeIndex: path.changeIndex
+                  }).address
+                : undefined
+            return {
+              id: utxo.id,
+              txid: utxo.txid,
+              vout: utxo.vout,
+              nativeAmount: utxo.value,
+              scriptType: utxo.scriptType,
+              address,
+              path,
+              blockHeight: utxo.blockHeight,
+              confirmations: utxoConfirmations(utxo),
+              frozen: tags[i]?.frozen ?? false,
+              label: tags[i]?.label
+            }
+          })
+        )
+      },
+
+      // frozen utxos are left out of every spend until they are unfrozen
+      async freezeUtxos(ids: string[]): Promise<void> {
+        for (const id of ids) {
+          await assertUtxo(id)
+          await processor.updateUtxoTags({ id, data: { frozen: true } })
+        }
+      },
+
+      async unfreezeUtxos(ids: string[]): Promise<void> {
+        for (const id of ids) {
+          await processor.updateUtxoTags({ id, data: { frozen: false } })
+        }
+      },
+
+      // an empty label removes the label of the utxo
+      async setUtxoLabel(id: string, label: string): Promise<void> {
+        await assertUtxo(id)
+        await processor.updateUtxoTags({
+          id,
+          data: { label: label === '' ? undefined : label }
+        })
+      },
+
+      async getOwnPsbtInputs(psbtBase64: string): Promise<number[]> {
+        const paths = await fetchPsbtInputPaths(psbtBase64)
+        return paths.reduce<number[]>(
+          (indices, path, i) => (path == null ? indices : [...indices, i]),
+          []
+        )
+      },
+
+      // Signs the inputs of the psbt that belong to this wallet
+      async signPsbt(psbtBase64: string): Promise<SignPsbtReturn> {
+        assertCanSign()
+        const paths = await fetchPsbtInputPaths(psbtBase64)
+        const xprivKeys = await fetchOrDeriveXprivFromKeys({
+          keys: walletInfo.keys,
+          walletLocalEncryptedDisklet,
+          coin: currencyInfo.network,
+          network
+        })
+        return await signPsbt({
+          psbtBase64,
+          coin: currencyInfo.network,
+          privateKeys: paths.map(path =>
+            path == null
+              ? undefined
+              : walletTools.getPrivateKey({ path, xprivKeys })
+          )
+        })
+      },
+
+      combinePsbts(psbtsBase64: string[]): string {
+        return combinePsbts({ psbtsBase64 })
+      },
+
+      async finalizePsbt(psbtBase64: string): Promise<SignTxReturn> {
+        return await finalizePsbt({ psbtBase64 })
+      }
     }
   }
 
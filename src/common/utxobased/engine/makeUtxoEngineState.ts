@@ -22,6 +22,7 @@ import { BIP43PurposeTypeEnum, ScriptTypeEnum } from '../keymanager/keymanager'
 import {
   IAccountDetailsBasic,
   IAccountUTXO,
+  IBlock,
   INewTransactionResponse,
   ITransaction,
   ITransactionDetailsPaginationResponse
@@ -29,13 +30,21 @@ import {
 import {
   addressMessage,
   addressUtxosMessage,
+  blockMessage,
   transactionMessage
 } from '../network/BlockBookAPI'
 import Deferred from '../network/Deferred'
 import { WsTask } from '../network/Socket'
 import AwaitLock from './await-lock'
-import { BLOCKBOOK_TXS_PER_PAGE, CACHE_THROTTLE } from './constants'
+import {
+  BLOCKBOOK_TXS_PER_PAGE,
+  CACHE_THROTTLE,
+  PAYMENT_CODE_NOTIFICATION_BRANCH,
+  REPLAY_PROTECTION_BRANCH
+} from './constants'
+import { PaymentCodes } from './makePaymentCodes'
 import { makeServerStates, ServerStates } from './makeServerStates'
+import { SilentPayments } from './makeSilentPayments'
 import { UTXOPluginWalletTools } from './makeUtxoWalletTools'
 import {
   currencyFormatToPurposeType,
@@ -43,6 +52,7 @@ import {
   getFormatSupportedBranches,
   getPurposeTypeFromKeys,
   getWalletSupportedFormats,
+  supportsReplayProtection,
   validScriptPubkeyFromAddress
 } from './utils'
 
@@ -69,6 +79,8 @@ export interface UtxoEngineState {
 export interface UtxoEngineStateConfig extends EngineConfig {
   walletTools: UTXOPluginWalletTools
   processor: Processor
+  paymentCodes?: PaymentCodes // watches bip47 payment code addresses if given
+  silentPayments?: SilentPayments // scans blocks for bip352 silent payments if given
 }
 
 export function makeUtxoEngineState(
@@ -81,6 +93,8 @@ export function makeUtxoEngineState(
     walletTools,
     options: { emitter, log },
     processor,
+    paymentCodes,
+    silentPayments,
     pluginState
   } = config
 
@@ -92,7 +106,8 @@ export function makeUtxoEngineState(
     utxosCache: {},
     rawUtxosCache: {},
     processedUtxosCache: {},
-    updateTransactionsCache: {}
+    updateTransactionsCache: {},
+    silentPaymentTxsCache: {}
   }
 
   const clearTaskCache = (): void => {
@@ -104,6 +119,8 @@ export function makeUtxoEngineState(
     taskCache.rawUtxosCache = {}
     taskCache.processedUtxosCache = {}
     taskCache.updateTransactionsCache = {}
+    taskCache.silentPaymentBlockCache = undefined
+    taskCache.silentPaymentTxsCache = {}
   }
 
   let processedCount = 0
@@ -113,7 +130,9 @@ export function makeUtxoEngineState(
     const totalCount = await getTotalAddressCount({
       walletInfo,
       currencyInfo,
-      processor
+      processor,
+      paymentCodes,
+      silentPayments
     })
     const percent = processedCount / totalCount
     if (percent - processedPercent > CACHE_THROTTLE || percent === 1) {
@@ -139,6 +158,8 @@ export function makeUtxoEngineState(
     walletInfo,
     walletTools,
     processor,
+    paymentCodes,
+    silentPayments,
     emitter,
     taskCache,
     onAddressChecked,
@@ -162,9 +183,12 @@ export function makeUtxoEngineState(
     if (running) return
     running = true
 
-    const formatsToProcess = getWalletSupportedFormats(walletInfo)
+    const formatsToProcess = getWalletSupportedFormats({
+      keys: walletInfo.keys,
+      coin: currencyInfo.network
+    })
     for (const format of formatsToProcess) {
-      const branches = getFormatSupportedBranches(format)
+      const branches = getWatchedBranches(commonArgs, format)
       for (const branch of branches) {
         const args: SetLookAheadArgs = {
           ...commonArgs,
@@ -174,6 +198,28 @@ export function makeUtxoEngineState(
         await setLookAhead(args)
       }
     }
+
+    // the notification address of the wallet's payment code and the receive
+    // addresses of every sender are watched alongside the wallet formats
+    if (paymentCodes != null) {
+      const branches = [
+        PAYMENT_CODE_NOTIFICATION_BRANCH,
+        ...paymentCodes.incoming.map(paymentCode =>
+          walletTools.addPaymentCode(paymentCode)
+        )
+      ]
+      for (const branch of branches) {
+        await setLookAhead({ ...commonArgs, format: 'bip47', branch })
+      }
+    }
+
+    // the silent payment outputs found in the blocks scanned so far
+    if (silentPayments != null) {
+      for (const tweak of silentPayments.tweaks) {
+        walletTools.addSilentPaymentTweak(tweak)
+      }
+      await setLookAhead({ ...commonArgs, format: 'bip352', branch: 0 })
+    }
   }
 
   emitter.on(
@@ -323,6 +369,8 @@ interface CommonArgs {
   walletInfo: EdgeWalletInfo
   walletTools: UTXOPluginWalletTools
   processor: Processor
+  paymentCodes?: PaymentCodes
+  silentPayments?: SilentPayments
   emitter: EngineEmitter
   taskCache: TaskCache
   onAddressChecked: () => void
@@ -345,11 +393,22 @@ interface TaskCache {
   processedUtxosCache: ProcessedUtxoCache
   transactionsCache: AddressTransactionCache
   updateTransactionsCache: UpdateTransactionCache
+  silentPaymentBlockCache?: SilentPaymentBlockCache
+  silentPaymentTxsCache: SilentPaymentTxsCache
 }
 
 interface UpdateTransactionCache {
   [key: string]: { processing: boolean }
 }
+interface SilentPaymentBlockCache {
+  height: number
+  page: number
+  totalPages?: number // known once the first page is fetched
+  processing: boolean
+}
+interface SilentPaymentTxsCache {
+  [key: string]: { processing: boolean }
+}
 interface AddressSubscribeCache {
   [key: string]: { processing: boolean; path: ShortPath }
 }
@@ -391,6 +450,29 @@ const markUsed = async (args: SaveAddressArgs): Promise<void> => {
   await processor.saveUsedAddress(scriptPubkey)
 }
 
+// the branches of a wallet format, including the replay protected addresses
+// of coins that split from another chain
+const getWatchedBranches = (
+  args: { currencyInfo: EngineCurrencyInfo; walletInfo: EdgeWalletInfo },
+  format: CurrencyFormat
+): number[] =>
+  getFormatSupportedBranches(
+    format,
+    args.currencyInfo.replayProtection === true &&
+      supportsReplayProtection({
+        keys: args.walletInfo.keys,
+        coin: args.currencyInfo.network
+      })
+  )
+
+const isNotificationBranch = (path: ShortPath): boolean =>
+  path.format === 'bip47' && path.branch === PAYMENT_CODE_NOTIFICATION_BRANCH
+
+// silent payment addresses are the outputs found by scanning blocks, which
+// cannot be derived ahead
+const isSilentPaymentBranch = (path: ShortPath): boolean =>
+  path.format === 'bip352'
+
 const setLookAhead = async (args: SetLookAheadArgs): Promise<void> => {
   const { lock, format, branch, currencyInfo, walletTools, processor } = args
   await lock.acquireAsync()
@@ -399,6 +481,9 @@ const setLookAhead = async (args: SetLookAheadArgs): Promise<void> => {
       format,
       changeIndex: branch
     }
+    // the notification address of a payment code is its single address
+    const gapLimit = isNotificationBranch(args) ? 1 : currencyInfo.gapLimit
+    const silentPaymentCount = args.silentPayments?.tweaks.length ?? 0
 
     const getLastUsed = async (): Promise<number> =>
       await findLastUsedIndex({ ...args, ...partialPath })
@@ -408,16 +493,25 @@ const setLookAhead = async (args: SetLookAheadArgs): Promise<void> => {
     let lastUsed = await getLastUsed()
     let addressCount = getAddressCount()
     const addresses = new Set<string>()
+    const needsAddress = (): boolean =>
+      isSilentPaymentBranch(args)
+        ? addressCount < silentPaymentCount
+        : lastUsed + gapLimit > addressCount
 
     if (Object.keys(args.taskCache.addressSubscribeCache).length === 0) {
-      for (let addressIndex = 0; addressIndex <= addressCount; addressIndex++) {
+      const lastIndex = isNotificationBranch(args)
+        ? 0
+        : isSilentPaymentBranch(args)
+        ? addressCount - 1
+        : addressCount
+      for (let addressIndex = 0; addressIndex <= lastIndex; addressIndex++) {
         addresses.add(
           walletTools.getAddress({ ...partialPath, addressIndex }).address
         )
       }
     }
 
-    while (lastUsed + currencyInfo.gapLimit > addressCount) {
+    while (needsAddress()) {
       const path: AddressPath = {
         ...partialPath,
         addressIndex: addressCount
@@ -538,7 +632,10 @@ export const pickNextTask = async (
       const purposeType = currencyFormatToPurposeType(state.path.format)
       if (
         purposeType === BIP43PurposeTypeEnum.Airbitz ||
-        purposeType === BIP43PurposeTypeEnum.Legacy
+        purposeType === BIP43PurposeTypeEnum.Legacy ||
+        (purposeType === BIP43PurposeTypeEnum.Multisig &&
+          args.walletTools.getScriptType(state.path.format) ===
+            ScriptTypeEnum.p2sh)
       ) {
         // if we do need to make a network call, check with the serverState
         if (!serverStates.serverCanGetTx(uri, utxo.txid)) return
@@ -701,8 +798,195 @@ export const pickNextTask = async (
       return wsTask
     }
   }
+
+  // fetch the transactions of scanned blocks that may pay silent payments
+  const { silentPaymentTxsCache } = taskCache
+  for (const txid of Object.keys(silentPaymentTxsCache)) {
+    const state = silentPaymentTxsCache[txid]
+    if (!state.processing && serverStates.serverCanGetTx(uri, txid)) {
+      state.processing = true
+      return processSilentPaymentTransaction({ ...args, txid })
+    }
+  }
+
+  // a block counts as scanned once its transactions are fetched
+  if (Object.keys(silentPaymentTxsCache).length === 0) {
+    return await pickSilentPaymentBlock(args)
+  }
+}
+
+// Scans the blocks after the last scanned one a page at a time, starting at
+// the birthday of restored wallets. New wallets start at the block height
+// they first see, since no silent payments to them can precede it.
+const pickSilentPaymentBlock = async (
+  args: NextTaskArgs
+): Promise<WsTask<IBlock> | boolean | undefined> => {
+  const { silentPayments, serverStates, taskCache, uri, walletInfo } = args
+  if (silentPayments == null) return
+  const blockHeight = serverStates.getBlockHeight(uri)
+  if (blockHeight < 1) return
+  const { startHeight, scannedHeight } = silentPayments
+  if (startHeight == null) {
+    const birthday: number | undefined = walletInfo.keys.silentPaymentBirthday
+    await silentPayments.setStartHeight(
+      Math.min(birthday ?? Infinity, blockHeight)
+    )
+    return true
+  }
+
+  const state = taskCache.silentPaymentBlockCache ?? {
+    height: (scannedHeight ?? startHeight - 1) + 1,
+    page: 1,
+    processing: false
+  }
+  if (state.processing || state.height > blockHeight) return
+  if (state.totalPages != null && state.page > state.totalPages) {
+    await silentPayments.setScannedHeight(state.height)
+    taskCache.silentPaymentBlockCache = undefined
+    return true
+  }
+  state.processing = true
+  taskCache.silentPaymentBlockCache = state
+  return processSilentPaymentBlock({ ...args, ...state })
+}
+
+interface ProcessSilentPaymentBlockArgs extends CommonArgs {
+  height: number
+  page: number
+  uri: string
+}
+
+const processSilentPaymentBlock = (
+  args: ProcessSilentPaymentBlockArgs
+): WsTask<IBlock> => {
+  const { height, page, taskCache, serverStates, uri } = args
+  const queryTime = Date.now()
+  const deferredBlock = new Deferred<IBlock>()
+  deferredBlock.promise
+    .then((block: IBlock) => {
+      serverStates.serverScoreUp(uri, Date.now() - queryTime)
+      // the block data rules out most transactions without fetching them
+      for (const tx of block.txs ?? []) {
+        if (mayPaySilentPayments(args, tx)) {
+          taskCache.silentPaymentTxsCache[tx.txid] = { processing: false }
+        }
+      }
+      taskCache.silentPaymentBlockCache = {
+        height,
+        page: page + 1,
+        totalPages: block.totalPages,
+        processing: false
+      }
+    })
+    .catch(() => {
+      taskCache.silentPaymentBlockCache = { height, page, processing: false }
+    })
+  return {
+    ...blockMessage(height, page),
+    deferred: deferredBlock
+  }
+}
+
+interface ProcessSilentPaymentTransactionArgs extends CommonArgs {
+  txid: string
+}
+
+const processSilentPaymentTransaction = (
+  args: ProcessSilentPaymentTransactionArgs
+): WsTask<ITransaction> => {
+  const { txid, taskCache, walletTools, silentPayments } = args
+  const deferredITransaction = new Deferred<ITransaction>()
+  deferredITransaction.promise
+    .then(async (rawTx: ITransaction) => {
+      const outputs = walletTools.scanSilentPayments({
+        txHex: rawTx.hex,
+        prevoutScripts: rawTx.vin.map(input =>
+          scriptPubkeyFromAddresses(args, input.addresses)
+        )
+      })
+      let found = false
+      for (const { tweak } of outputs) {
+        if (silentPayments != null && (await silentPayments.addTweak(tweak))) {
+          walletTools.addSilentPaymentTweak(tweak)
+          found = true
+        }
+      }
+      // watch the outputs found like the addresses of the other formats
+      if (found) {
+        await setLookAhead({ ...args, format: 'bip352', branch: 0 })
+      }
+      taskCache.silentPaymentTxsCache = removeItem(
+        taskCache.silentPaymentTxsCache,
+        txid
+      )
+    })
+    .catch(() => {
+      taskCache.silentPaymentTxsCache[txid] = { processing: false }
+    })
+  return {
+    ...transactionMessage(txid),
+    deferred: deferredITransaction
+  }
+}
+
+// the script pubkey of an input or output of any transaction, or undefined
+// for the ones without an address, such as coinbase inputs
+const scriptPubkeyFromAddresses = (
+  args: CommonArgs,
+  addresses: string[] | undefined
+): string | undefined => {
+  const address = addresses?.[0]
+  if (address == null) return
+  try {
+    return validScriptPubkeyFromAddress({
+      address,
+      coin: args.currencyInfo.network,
+      network: args.network
+    })
+  } catch (e) {}
+}
+
+const isTaprootScriptPubkey = (scriptPubkey: string | undefined): boolean =>
+  scriptPubkey != null &&
+  scriptPubkey.length === 68 &&
+  scriptPubkey.startsWith('5120')
+
+// Silent payments pay taproot outputs of transactions spending at least one
+// p2pkh, p2sh, p2wpkh or p2tr output and no output of a later witness version
+const mayPaySilentPayments = (args: CommonArgs, tx: ITransaction): boolean => {
+  const paysTaproot = tx.vout.some(output =>
+    isTaprootScriptPubkey(
+      output.hex ?? scriptPubkeyFromAddresses(args, output.addresses)
+    )
+  )
+  if (!paysTaproot) return false
+  const prevoutScripts = tx.vin.map(input =>
+    scriptPubkeyFromAddresses(args, input.addresses)
+  )
+  return (
+    !prevoutScripts.some(isFutureWitnessScriptPubkey) &&
+    prevoutScripts.some(
+      scriptPubkey =>
+        isTaprootScriptPubkey(scriptPubkey) ||
+        isSilentPaymentKeyScriptPubkey(scriptPubkey)
+    )
+  )
 }
 
+// p2pkh, p2sh or p2wpkh
+const isSilentPaymentKeyScriptPubkey = (
+  scriptPubkey: string | undefined
+): boolean =>
+  scriptPubkey != null &&
+  /^(76a914[0-9a-f]{40}88ac|a914[0-9a-f]{40}87|0014[0-9a-f]{40})$/.test(
+    scriptPubkey
+  )
+
+// witness versions 2 to 16
+const isFutureWitnessScriptPubkey = (
+  scriptPubkey: string | undefined
+): boolean => scriptPubkey != null && /^(5[2-9a-f]|60)/.test(scriptPubkey)
+
 interface UpdateTransactionsArgs extends CommonArgs {
   txId: string
 }
@@ -776,19 +1060,40 @@ interface GetTotalAddressCountArgs {
   currencyInfo: EngineCurrencyInfo
   walletInfo: EdgeWalletInfo
   processor: Processor
+  paymentCodes?: PaymentCodes
+  silentPayments?: SilentPayments
 }
 
 const getTotalAddressCount = async (
   args: GetTotalAddressCountArgs
 ): Promise<number> => {
-  const { walletInfo } = args
+  const { walletInfo, currencyInfo } = args
 
-  const walletFormats = getWalletSupportedFormats(walletInfo)
+  const walletFormats = getWalletSupportedFormats({
+    keys: walletInfo.keys,
+    coin: currencyInfo.network
+  })
 
   let count = 0
   for (const format of walletFormats) {
     count += await getFormatAddressCount({ ...args, format })
   }
+  if (args.paymentCodes != null) {
+    // the notification address, followed by the branches of the senders
+    count += 1
+    for (let i = 1; i <= args.paymentCodes.incoming.length; i++) {
+      count += Math.max(
+        args.processor.getNumAddressesFromPathPartition({
+          format: 'bip47',
+          changeIndex: i
+        }),
+        currencyInfo.gapLimit
+      )
+    }
+  }
+  if (args.silentPayments != null) {
+    count += args.silentPayments.tweaks.length
+  }
   return count
 }
 
@@ -803,7 +1108,7 @@ const getFormatAddressCount = async (
 
   let count = 0
 
-  const branches = getFormatSupportedBranches(format)
+  const branches = getWatchedBranches(args, format)
   for (const branch of branches) {
     let branchCount = processor.getNumAddressesFromPathPartition({
       format,
@@ -960,6 +1265,9 @@ const processAddressTransactions = async (
       for (const rawTx of transactions) {
         const tx = processRawTx({ ...args, tx: rawTx })
         await processor.saveTransaction(tx)
+        if (isNotificationBranch(path)) {
+          await processPaymentCodeNotification({ ...args, tx })
+        }
       }
 
       if (page < totalPages) {
@@ -1004,6 +1312,28 @@ const processAddressTransactions = async (
   }
 }
 
+interface ProcessPaymentCodeNotificationArgs extends CommonArgs {
+  tx: IProcessorTransaction
+}
+
+// Registers the sender of a notification transaction to the wallet's payment
+// code and watches the receive addresses of its payments
+const processPaymentCodeNotification = async (
+  args: ProcessPaymentCodeNotificationArgs
+): Promise<void> => {
+  const { tx, walletTools, paymentCodes } = args
+  if (paymentCodes == null) return
+  const paymentCode = walletTools.parsePaymentCodeNotification(tx.hex)
+  if (paymentCode == null || !(await paymentCodes.addIncoming(paymentCode))) {
+    return
+  }
+  await setLookAhead({
+    ...args,
+    format: 'bip47',
+    branch: walletTools.addPaymentCode(paymentCode)
+  })
+}
+
 interface ProcessRawTxArgs extends CommonArgs {
   tx: ITransaction
 }
@@ -1176,6 +1506,8 @@ const processRawUtxo = async (
   let scriptType: ScriptTypeEnum
   let script: string
   let redeemScript: string | undefined
+  let witnessScript: string | undefined
+  let silentPaymentTweak: string | undefined
 
   // Function to call once we are finished
   const done = (): void =>
@@ -1192,49 +1524,27 @@ const processRawUtxo = async (
         scriptPubkey: address.scriptPubkey,
         script,
         redeemScript,
+        witnessScript,
         scriptType,
+        silentPaymentTweak,
         blockHeight: utxo.height ?? -1,
         spent: false
       }
     )
 
-  let tx: IProcessorTransaction | undefined
   switch (currencyFormatToPurposeType(format)) {
     case BIP43PurposeTypeEnum.Airbitz:
     case BIP43PurposeTypeEnum.Legacy:
+      if (address.path.changeIndex === REPLAY_PROTECTION_BRANCH) {
+        scriptType = ScriptTypeEnum.replayProtectionP2SH
+        redeemScript = walletTools.getScriptPubkey(address.path).redeemScript
+        break
+      }
       scriptType = ScriptTypeEnum.p2pkh
 
-      // Legacy UTXOs need the previous transaction hex as the script
-      // If we do not currently have it, add it to the queue to fetch it
-      tx = await processor.fetchTransaction(utxo.txid)
-      if (tx == null) {
-        const queryTime = Date.now()
-        const deferredITransaction = new Deferred<ITransaction>()
-        deferredITransaction.promise
-          .then((rawTx: ITransaction) => {
-            serverStates.serverScoreUp(uri, Date.now() - queryTime)
-            const processedTx = processRawTx({ ...args, tx: rawTx })
-            script = processedTx.hex
-            // Only after we have successfully fetched the tx, set our script and call done
-            done()
-          })
-          .catch(e => {
-            // If something went wrong, add the UTXO back to the queue
-            log('error in processed utxos cache, re-adding utxo to cache:', e)
-            rawUtxosCache[JSON.stringify(utxo)] = {
-              processing: false,
-              path,
-              address,
-              requiredCount
-            }
-          })
-        return {
-          ...transactionMessage(utxo.txid),
-          deferred: deferredITransaction
-        }
-      } else {
-        script = tx.hex
-      }
+      break
+    case BIP43PurposeTypeEnum.PaymentCode:
+      scriptType = ScriptTypeEnum.p2pkh
 
       break
     case BIP43PurposeTypeEnum.WrappedSegwit:
@@ -1248,6 +1558,65 @@ const processRawUtxo = async (
       script = address.scriptPubkey
 
       break
+    case BIP43PurposeTypeEnum.Taproot:
+      scriptType = ScriptTypeEnum.p2tr
+      script = address.scriptPubkey
+
+      break
+    case BIP43PurposeTypeEnum.SilentPayment:
+      scriptType = ScriptTypeEnum.p2tr
+      script = address.scriptPubkey
+      silentPaymentTweak =
+        args.silentPayments?.tweaks[address.path.addressIndex]
+
+      break
+    case BIP43PurposeTypeEnum.Multisig: {
+      const scripts = walletTools.getScriptPubkey(address.path)
+      scriptType = walletTools.getScriptType(format)
+      script = address.scriptPubkey
+      redeemScript = scripts.redeemScript
+      witnessScript = scripts.witnessScript
+
+      break
+    }
+  }
+
+  // Legacy UTXOs need the previous transaction hex as the script
+  if (
+    scriptType === ScriptTypeEnum.p2pkh ||
+    scriptType === ScriptTypeEnum.p2sh ||
+    scriptType === ScriptTypeEnum.replayProtectionP2SH
+  ) {
+    // If we do not currently have it, add it to the queue to fetch it
+    const tx = await processor.fetchTransaction(utxo.txid)
+    if (tx == null) {
+      const queryTime = Date.now()
+      const deferredITransaction = new Deferred<ITransaction>()
+      deferredITransaction.promise
+        .then((rawTx: ITransaction) => {
+          serverStates.serverScoreUp(uri, Date.now() - queryTime)
+          const processedTx = processRawTx({ ...args, tx: rawTx })
+          script = processedTx.hex
+          // Only after we have successfully fetched the tx, set our script and call done
+          done()
+        })
+        .catch(e => {
+          // If something went wrong, add the UTXO back to the queue
+          log('error in processed utxos cache, re-adding utxo to cache:', e)
+          rawUtxosCache[JSON.stringify(utxo)] = {
+            processing: false,
+            path,
+            address,
+            requiredCount
+          }
+        })
+      return {
+        ...transactionMessage(utxo.txid),
+        deferred: deferredITransaction
+      }
+    } else {
+      script = tx.hex
+    }
   }
 
   // Since we have everything, call done
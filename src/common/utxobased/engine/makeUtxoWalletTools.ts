@@ -1,18 +1,50 @@
 import { AddressPath, CurrencyFormat, NetworkEnum } from '../../plugin/types'
+import { getMnemonicKey } from '../../plugin/utils'
 import {
   addressToScriptPubkey,
+  AddressTypeEnum,
+  Bip32Derivation,
+  BIP43PurposeTypeEnum,
+  KeyOrigin,
+  multisigToScriptPubkey,
+  parsePaymentCodeNotification,
+  PaymentCodeArgs,
+  paymentCodeNotificationScript,
+  paymentCodeToNotificationPubkey,
+  paymentCodeToReceivePrivateKey,
+  paymentCodeToReceivePubkey,
+  paymentCodeToSendPubkey,
   privateKeyToPubkey,
   pubkeyToScriptPubkey,
+  scanSilentPayments,
   scriptPubkeyToAddress,
+  ScriptTypeEnum,
+  seedOrMnemonicToKeyOrigin,
+  seedOrMnemonicToXPriv,
+  SilentPaymentArgs,
+  SilentPaymentOutput,
+  silentPaymentOutputScripts,
+  SilentPaymentOutputScriptsArgs,
+  silentPaymentToPrivateKey,
+  silentPaymentToScriptPubkey,
   wifToPrivateKey,
+  xprivToNotificationPrivateKey,
+  xprivToPaymentCode,
   xprivToPrivateKey,
+  xprivToSilentPaymentAddress,
   xpubToPubkey
 } from '../keymanager/keymanager'
+import {
+  PAYMENT_CODE_NOTIFICATION_BRANCH,
+  REPLAY_PROTECTION_BRANCH
+} from './constants'
 import {
   CurrencyFormatKeys,
   currencyFormatToPurposeType,
   getAddressTypeFromPurposeType,
+  getMultisigAddressType,
   getScriptTypeFromPurposeType,
+  getWalletSeedArgs,
   getXpubs
 } from './utils'
 
@@ -21,7 +53,20 @@ export interface UtxoKeyFormat {
   [mnemonicKey: string]: any // ${coinName}Key = mnemonic or seed string
   format?: CurrencyFormat
   coinType?: number
+  account?: number // bip44 account index, defaults to account 0'
+  passphrase?: string // bip39 passphrase, part of the backup like the mnemonic
+  derivationPath?: string // account path template of seeds from other wallets, the format picks the script type
+  electrumSeed?: boolean // the mnemonic is an electrum seed, not a bip39 one
+  slip39Seed?: boolean // the seed is the base64 master secret of a slip39 backup
   wifKeys?: string[]
+  multisig?: MultisigKeyFormat
+  silentPaymentBirthday?: number // the block height restored wallets scan for silent payments from
+}
+
+export interface MultisigKeyFormat {
+  threshold: number
+  xpubs: string[] // account xpubs of every cosigner, including this wallet
+  scriptType: ScriptTypeEnum // p2sh, p2wshp2sh or p2wsh
 }
 
 export interface WalletToolsConfig {
@@ -38,6 +83,10 @@ export interface BitcoinWalletToolsConfig extends WalletToolsConfig {
 export interface UTXOPluginWalletTools {
   getPubkey: (args: AddressPath) => string
 
+  getPubkeys: (args: AddressPath) => string[]
+
+  getScriptType: (format: CurrencyFormat) => ScriptTypeEnum
+
   getScriptPubkey: (args: AddressPath) => ScriptPubkeyReturn
 
   getAddress: (args: AddressPath) => AddressReturn
@@ -47,16 +96,73 @@ export interface UTXOPluginWalletTools {
   scriptPubkeyToAddress: (args: ScriptPubkeyToAddressArgs) => AddressReturn
 
   getPrivateKey: (args: GetPrivateKeyArgs) => string
+
+  // undefined for wallets without a seed, such as watch-only and wif wallets
+  getBip32Derivation: (args: AddressPath) => Bip32Derivation | undefined
+
+  // the bip47 payment code of wallets holding a seed
+  getPaymentCode: () => string
+
+  // registers the payment code of a sender, returning the branch of its
+  // receive addresses in bip47 paths
+  addPaymentCode: (paymentCode: string) => number
+
+  getPaymentCodeNotificationAddress: (paymentCode: string) => AddressReturn
+
+  getPaymentCodeSendAddress: (args: PaymentCodeSendArgs) => AddressReturn
+
+  // the OP_RETURN script pubkey of a notification transaction to the
+  // payment code, blinded with its designated input
+  getPaymentCodeNotificationScript: (args: NotificationScriptArgs) => string
+
+  // the payment code of the sender of a notification transaction
+  parsePaymentCodeNotification: (txHex: string) => string | undefined
+
+  // the bip352 silent payment address of wallets holding a seed
+  getSilentPaymentAddress: () => string
+
+  // registers the tweak of a silent payment output to the wallet, returning
+  // its address index in bip352 paths
+  addSilentPaymentTweak: (tweak: string) => number
+
+  getSilentPaymentPrivateKey: (tweak: string) => string
+
+  // the script pubkeys paying silent payment addresses from the inputs
+  getSilentPaymentOutputScripts: (
+    args: Omit<SilentPaymentOutputScriptsArgs, 'network'>
+  ) => string[]
+
+  // the outputs of a transaction paying the wallet's silent payment address
+  scanSilentPayments: (args: ScanSilentPaymentsArgs) => SilentPaymentOutput[]
+}
+
+interface ScanSilentPaymentsArgs {
+  txHex: string
+  prevoutScripts: Array<string | undefined> // the script pubkeys the inputs spend
+}
+
+interface PaymentCodeSendArgs {
+  paymentCode: string
+  index: number
+}
+
+interface NotificationScriptArgs {
+  paymentCode: string
+  privateKey: string // the private key of the designated input
+  txid: string
+  vout: number
 }
 
 interface ScriptPubkeyReturn {
   scriptPubkey: string
   redeemScript?: string
+  witnessScript?: string
 }
 
 interface ScriptPubkeyToAddressArgs {
   scriptPubkey: string
   format: CurrencyFormat
+  changeIndex?: number // the branch of the script pubkey, if it is the wallet's
 }
 
 interface GetPrivateKeyArgs {
@@ -75,6 +181,7 @@ export function makeUtxoWalletTools(
   const { coin, network } = config
 
   const xpubKeys = getXpubs(config)
+  const { multisig } = config.keys
 
   let wifKeys: string[]
   if (config.keys.wifKeys != null) {
@@ -93,8 +200,123 @@ export function makeUtxoWalletTools(
     }
   }
 
+  const hasSeed = config.keys[getMnemonicKey({ coin })] != null
+  const keyOrigins: { [format in CurrencyFormat]?: KeyOrigin } = {}
+  const getKeyOrigin = (format: CurrencyFormat): KeyOrigin => {
+    let origin = keyOrigins[format]
+    if (origin == null) {
+      origin = seedOrMnemonicToKeyOrigin({
+        ...getWalletSeedArgs(config),
+        network,
+        type: currencyFormatToPurposeType(format),
+        coin
+      })
+      keyOrigins[format] = origin
+    }
+    return origin
+  }
+
+  // the senders of the receive addresses on the bip47 branches after the
+  // notification branch, derived with the private keys of the wallet
+  const paymentCodes: string[] = []
+  let paymentCodeArgs: PaymentCodeArgs | undefined
+  const getPaymentCodeArgs = (): PaymentCodeArgs => {
+    if (paymentCodeArgs == null) {
+      const xpriv = seedOrMnemonicToXPriv({
+        ...getWalletSeedArgs(config),
+        network,
+        type: BIP43PurposeTypeEnum.PaymentCode,
+        coin
+      })
+      paymentCodeArgs = { xpriv, network, coin }
+    }
+    return paymentCodeArgs
+  }
+  const getPaymentCodeAddressArgs = (
+    args: AddressPath
+  ): PaymentCodeArgs & PaymentCodeSendArgs => {
+    const paymentCode = paymentCodes[args.changeIndex - 1]
+    if (paymentCode == null) {
+      throw new Error(`wallet tools: unknown payment code ${args.changeIndex}`)
+    }
+    return { ...getPaymentCodeArgs(), paymentCode, index: args.addressIndex }
+  }
+  const assertNotificationIndex = (args: AddressPath): void => {
+    if (args.addressIndex !== 0) {
+      throw new Error('Payment codes have a single notification address')
+    }
+  }
+  const getPaymentCodePubkey = (args: AddressPath): string => {
+    if (args.changeIndex === PAYMENT_CODE_NOTIFICATION_BRANCH) {
+      assertNotificationIndex(args)
+      return paymentCodeToNotificationPubkey(fns.getPaymentCode())
+    }
+    return paymentCodeToReceivePubkey(getPaymentCodeAddressArgs(args))
+  }
+  const getPaymentCodePrivateKey = (args: AddressPath): string => {
+    if (args.changeIndex === PAYMENT_CODE_NOTIFICATION_BRANCH) {
+      assertNotificationIndex(args)
+      return xprivToNotificationPrivateKey(getPaymentCodeArgs())
+    }
+    return paymentCodeToReceivePrivateKey(getPaymentCodeAddressArgs(args))
+  }
+  // the tweaks of the silent payment outputs found for the wallet, which are
+  // the addresses of bip352 paths
+  const silentPaymentTweaks: string[] = []
+  let silentPaymentArgs: SilentPaymentArgs | undefined
+  const getSilentPaymentArgs = (): SilentPaymentArgs => {
+    if (silentPaymentArgs == null) {
+      const xpriv = seedOrMnemonicToXPriv({
+        ...getWalletSeedArgs(config),
+        network,
+        type: BIP43PurposeTypeEnum.SilentPayment,
+        coin
+      })
+      silentPaymentArgs = { xpriv, network, coin }
+    }
+    return silentPaymentArgs
+  }
+  const getSilentPaymentTweak = (args: AddressPath): string => {
+    const tweak = silentPaymentTweaks[args.addressIndex]
+    if (args.changeIndex !== 0 || tweak == null) {
+      throw new Error(
+        `wallet tools: unknown silent payment output ${args.addressIndex}`
+      )
+    }
+    return tweak
+  }
+
+  const pubkeyToP2pkhAddress = (pubkey: string): AddressReturn =>
+    scriptPubkeyToAddress({
+      scriptPubkey: pubkeyToScriptPubkey({
+        pubkey,
+        scriptType: ScriptTypeEnum.p2pkh
+      }).scriptPubkey,
+      network,
+      addressType: AddressTypeEnum.p2pkh,
+      coin
+    })
+
+  const getAddressType = (
+    format: CurrencyFormat,
+    changeIndex?: number
+  ): AddressTypeEnum =>
+    multisig != null
+      ? getMultisigAddressType(multisig.scriptType)
+      : changeIndex === REPLAY_PROTECTION_BRANCH
+      ? AddressTypeEnum.p2sh
+      : getAddressTypeFromPurposeType(currencyFormatToPurposeType(format))
+
   const fns: UTXOPluginWalletTools = {
     getPubkey(args: AddressPath): string {
+      if (args.format === 'bip47') {
+        return getPaymentCodePubkey(args)
+      }
+      if (args.format === 'bip352') {
+        return privateKeyToPubkey(
+          fns.getSilentPaymentPrivateKey(getSilentPaymentTweak(args))
+        )
+      }
       if (wifKeys != null) {
         return privateKeyToPubkey(getPrivateKeyAtIndex(args))
       }
@@ -113,9 +335,49 @@ export function makeUtxoWalletTools(
       })
     },
 
+    getPubkeys(args: AddressPath): string[] {
+      if (multisig == null) {
+        return [fns.getPubkey(args)]
+      }
+      return multisig.xpubs.map(xpub =>
+        xpubToPubkey({
+          xpub,
+          network,
+          coin,
+          type: currencyFormatToPurposeType(args.format),
+          bip44ChangeIndex: args.changeIndex,
+          bip44AddressIndex: args.addressIndex
+        })
+      )
+    },
+
+    getScriptType(format: CurrencyFormat): ScriptTypeEnum {
+      if (multisig != null) {
+        return multisig.scriptType
+      }
+      return getScriptTypeFromPurposeType(currencyFormatToPurposeType(format))
+    },
+
     getScriptPubkey(args: AddressPath): ScriptPubkeyReturn {
-      const purposeType = currencyFormatToPurposeType(args.format)
-      const scriptType = getScriptTypeFromPurposeType(purposeType)
+      if (args.format === 'bip352') {
+        return {
+          scriptPubkey: silentPaymentToScriptPubkey({
+            ...getSilentPaymentArgs(),
+            tweak: getSilentPaymentTweak(args)
+          })
+        }
+      }
+      const scriptType =
+        args.changeIndex === REPLAY_PROTECTION_BRANCH
+          ? ScriptTypeEnum.replayProtectionP2SH
+          : fns.getScriptType(args.format)
+      if (multisig != null) {
+        return multisigToScriptPubkey({
+          pubkeys: fns.getPubkeys(args),
+          threshold: multisig.threshold,
+          scriptType
+        })
+      }
       return pubkeyToScriptPubkey({
         pubkey: fns.getPubkey(args),
         scriptType
@@ -123,9 +385,8 @@ export function makeUtxoWalletTools(
     },
 
     getAddress(args: AddressPath): AddressReturn {
-      const purposeType = currencyFormatToPurposeType(args.format)
       const { scriptPubkey } = fns.getScriptPubkey(args)
-      const addressType = getAddressTypeFromPurposeType(purposeType)
+      const addressType = getAddressType(args.format, args.changeIndex)
       return scriptPubkeyToAddress({
         scriptPubkey,
         network,
@@ -139,8 +400,7 @@ export function makeUtxoWalletTools(
     },
 
     scriptPubkeyToAddress(args: ScriptPubkeyToAddressArgs): AddressReturn {
-      const purposeType = currencyFormatToPurposeType(args.format)
-      const addressType = getAddressTypeFromPurposeType(purposeType)
+      const addressType = getAddressType(args.format, args.changeIndex)
       return scriptPubkeyToAddress({
         scriptPubkey: args.scriptPubkey,
         network,
@@ -151,10 +411,16 @@ export function makeUtxoWalletTools(
 
     getPrivateKey(args: GetPrivateKeyArgs): string {
       const { path, xprivKeys } = args
+      if (path.format === 'bip47') {
+        return getPaymentCodePrivateKey(path)
+      }
+      if (path.format === 'bip352') {
+        return fns.getSilentPaymentPrivateKey(getSilentPaymentTweak(path))
+      }
       if (wifKeys != null) {
         return getPrivateKeyAtIndex(path)
       }
-      if (xprivKeys[path.format] != null) {
+      if (xprivKeys[path.format] == null) {
         throw new Error(
           `wallet tools: xpriv with format ${path.format} does not exist`
         )
@@ -167,6 +433,84 @@ export function makeUtxoWalletTools(
         bip44ChangeIndex: path.changeIndex,
         bip44AddressIndex: path.addressIndex
       })
+    },
+
+    getBip32Derivation(args: AddressPath): Bip32Derivation | undefined {
+      // payment code and silent payment keys are tweaked beyond bip32
+      // derivation
+      if (
+        wifKeys != null ||
+        !hasSeed ||
+        args.format === 'bip47' ||
+        args.format === 'bip352'
+      ) {
+        return
+      }
+      const { fingerprint, path } = getKeyOrigin(args.format)
+      return {
+        masterFingerprint: fingerprint,
+        path: ['m', path, args.changeIndex, args.addressIndex]
+          .filter(level => level !== '')
+          .join('/'),
+        // the wallet's own key, which is also the one of multisig wallets
+        pubkey: fns.getPubkey(args)
+      }
+    },
+
+    getPaymentCode(): string {
+      return xprivToPaymentCode(getPaymentCodeArgs())
+    },
+
+    addPaymentCode(paymentCode: string): number {
+      // decoding the payment code checks it
+      paymentCodeToNotificationPubkey(paymentCode)
+      if (!paymentCodes.includes(paymentCode)) {
+        paymentCodes.push(paymentCode)
+      }
+      return paymentCodes.indexOf(paymentCode) + 1
+    },
+
+    getPaymentCodeNotificationAddress(paymentCode: string): AddressReturn {
+      return pubkeyToP2pkhAddress(paymentCodeToNotificationPubkey(paymentCode))
+    },
+
+    getPaymentCodeSendAddress(args: PaymentCodeSendArgs): AddressReturn {
+      return pubkeyToP2pkhAddress(
+        paymentCodeToSendPubkey({ ...getPaymentCodeArgs(), ...args })
+      )
+    },
+
+    getPaymentCodeNotificationScript(args: NotificationScriptArgs): string {
+      return paymentCodeNotificationScript({ ...getPaymentCodeArgs(), ...args })
+    },
+
+    parsePaymentCodeNotification(txHex: string): string | undefined {
+      return parsePaymentCodeNotification({ ...getPaymentCodeArgs(), txHex })
+    },
+
+    getSilentPaymentAddress(): string {
+      return xprivToSilentPaymentAddress(getSilentPaymentArgs())
+    },
+
+    addSilentPaymentTweak(tweak: string): number {
+      if (!silentPaymentTweaks.includes(tweak)) {
+        silentPaymentTweaks.push(tweak)
+      }
+      return silentPaymentTweaks.indexOf(tweak)
+    },
+
+    getSilentPaymentPrivateKey(tweak: string): string {
+      return silentPaymentToPrivateKey({ ...getSilentPaymentArgs(), tweak })
+    },
+
+    getSilentPaymentOutputScripts(
+      args: Omit<SilentPaymentOutputScriptsArgs, 'network'>
+    ): string[] {
+      return silentPaymentOutputScripts({ ...args, network })
+    },
+
+    scanSilentPayments(args: ScanSilentPaymentsArgs): SilentPaymentOutput[] {
+      return scanSilentPayments({ ...getSilentPaymentArgs(), ...args })
     }
   }
 
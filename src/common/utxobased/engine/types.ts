@@ -1,5 +1,7 @@
 import { EdgeSpendInfo } from 'edge-core-js'
 
+import { AddressPath } from '../../plugin/types'
+import { ScriptTypeEnum } from '../keymanager/keymanager'
 import { Input } from '../keymanager/utxopicker/types'
 
 export interface UTXOTxOtherParams {
@@ -8,4 +10,27 @@ export interface UTXOTxOtherParams {
     inputs: Input[]
   }
   edgeSpendInfo: EdgeSpendInfo
+  paymentCodes?: PaymentCodeTxParams
+}
+
+// the bip47 payment codes a transaction notifies and pays, saved once it is
+// broadcast
+export interface PaymentCodeTxParams {
+  notified?: string
+  sendIndices: { [paymentCode: string]: number } // the next send index of every paid payment code
+}
+
+// an unspent output of the wallet, listed for coin control
+export interface UtxoInfo {
+  id: string // the outpoint as txid_vout, which freezes and picks the utxo
+  txid: string
+  vout: number
+  nativeAmount: string
+  scriptType: ScriptTypeEnum
+  address?: string // unknown for outputs outside the derived addresses
+  path?: AddressPath
+  blockHeight: number
+  confirmations: number
+  frozen: boolean
+  label?: string
 }
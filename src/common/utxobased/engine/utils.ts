@@ -3,19 +3,37 @@ import { EdgeParsedUri } from 'edge-core-js'
 
 import { CurrencyFormat, NetworkEnum } from '../../plugin/types'
 import * as pluginUtils from '../../plugin/utils'
+import {
+  DescriptorKey,
+  parseWalletDescriptor,
+  walletDescriptorToString
+} from '../keymanager/descriptorUtils/descriptor'
+import {
+  electrumSeedType,
+  ElectrumSeedTypeEnum
+} from '../keymanager/electrumUtils/electrum'
 import {
   addressToScriptPubkey,
   AddressTypeEnum,
   bip43PurposeNumberToTypeEnum,
   BIP43PurposeTypeEnum,
+  convertExtendedKey,
+  convertXPub,
+  derivationPathToKeyOriginPath,
+  ExtendedKeyVersion,
+  identifyExtendedKey,
   ScriptTypeEnum,
+  seedOrMnemonicToKeyOrigin,
+  seedOrMnemonicToMasterSecret,
   seedOrMnemonicToXPriv,
+  SeedOrMnemonicToXPrivArgs,
   verifyAddress,
   VerifyAddressEnum,
   wifToPrivateKey,
   xprivToXPub
 } from '../keymanager/keymanager'
-import { UtxoKeyFormat } from './makeUtxoWalletTools'
+import { REPLAY_PROTECTION_BRANCH } from './constants'
+import { MultisigKeyFormat, UtxoKeyFormat } from './makeUtxoWalletTools'
 
 export const getCurrencyFormatFromPurposeType = (
   purpose: BIP43PurposeTypeEnum
@@ -29,6 +47,14 @@ export const getCurrencyFormatFromPurposeType = (
       return 'bip49'
     case BIP43PurposeTypeEnum.Segwit:
       return 'bip84'
+    case BIP43PurposeTypeEnum.Taproot:
+      return 'bip86'
+    case BIP43PurposeTypeEnum.Multisig:
+      return 'bip48'
+    case BIP43PurposeTypeEnum.PaymentCode:
+      return 'bip47'
+    case BIP43PurposeTypeEnum.SilentPayment:
+      return 'bip352'
   }
 }
 
@@ -44,6 +70,7 @@ export const getAddressTypeFromPurposeType = (
   switch (purpose) {
     case BIP43PurposeTypeEnum.Airbitz:
     case BIP43PurposeTypeEnum.Legacy:
+    case BIP43PurposeTypeEnum.PaymentCode:
       return AddressTypeEnum.p2pkh
 
     case BIP43PurposeTypeEnum.WrappedSegwit:
@@ -51,15 +78,30 @@ export const getAddressTypeFromPurposeType = (
 
     case BIP43PurposeTypeEnum.Segwit:
       return AddressTypeEnum.p2wpkh
+
+    case BIP43PurposeTypeEnum.Taproot:
+    case BIP43PurposeTypeEnum.SilentPayment:
+      return AddressTypeEnum.p2tr
+
+    case BIP43PurposeTypeEnum.Multisig:
+      throw new Error('multisig address types are defined by the wallet keys')
   }
 }
 
+export const getMultisigAddressType = (
+  scriptType: ScriptTypeEnum
+): AddressTypeEnum =>
+  scriptType === ScriptTypeEnum.p2wsh
+    ? AddressTypeEnum.p2wsh
+    : AddressTypeEnum.p2sh
+
 export const getScriptTypeFromPurposeType = (
   purpose: BIP43PurposeTypeEnum
 ): ScriptTypeEnum => {
   switch (purpose) {
     case BIP43PurposeTypeEnum.Airbitz:
     case BIP43PurposeTypeEnum.Legacy:
+    case BIP43PurposeTypeEnum.PaymentCode:
       return ScriptTypeEnum.p2pkh
 
     case BIP43PurposeTypeEnum.WrappedSegwit:
@@ -67,6 +109,13 @@ export const getScriptTypeFromPurposeType = (
 
     case BIP43PurposeTypeEnum.Segwit:
       return ScriptTypeEnum.p2wpkh
+
+    case BIP43PurposeTypeEnum.Taproot:
+    case BIP43PurposeTypeEnum.SilentPayment:
+      return ScriptTypeEnum.p2tr
+
+    case BIP43PurposeTypeEnum.Multisig:
+      throw new Error('multisig script types are defined by the wallet keys')
   }
 }
 
@@ -98,30 +147,150 @@ export const getXpubs = (args: {
 export const getWalletCoinType = (args: { keys: UtxoKeyFormat }): number =>
   args.keys.coinType ?? 0
 
+export const getWalletAccount = (args: { keys: UtxoKeyFormat }): number =>
+  args.keys.account ?? 0
+
+// Accounts are hardened path levels, so their index stays below 2^31
+export const isValidAccount = (account: unknown): account is number =>
+  typeof account === 'number' &&
+  Number.isInteger(account) &&
+  account >= 0 &&
+  account < 0x80000000
+
+export const isValidBlockHeight = (height: unknown): height is number =>
+  typeof height === 'number' && Number.isInteger(height) && height >= 0
+
+export const isValidDerivationPath = (path: unknown): path is string => {
+  if (typeof path !== 'string') return false
+  try {
+    derivationPathToKeyOriginPath(path)
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+// The bip32 seed of the wallet, which slip39 backups split into shares. Its
+// wallet restores from them with the same format, coin type, account and
+// derivation path only.
+export const getWalletMasterSecret = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+  network: NetworkEnum
+}): Buffer => {
+  if (isWatchOnly(args) || args.keys.wifKeys != null) {
+    throw new Error('The wallet has no seed')
+  }
+  return seedOrMnemonicToMasterSecret({
+    ...getWalletSeedArgs(args),
+    coin: args.coin,
+    network: args.network,
+    type: getPurposeTypeFromKeys(args)
+  })
+}
+
+// Maps an electrum mnemonic to the format of its wallet
+export const getElectrumSeedFormat = (
+  mnemonic: string
+): CurrencyFormat | undefined => {
+  switch (electrumSeedType(mnemonic)) {
+    case ElectrumSeedTypeEnum.standard:
+      return 'bip44'
+    case ElectrumSeedTypeEnum.segwit:
+      return 'bip84'
+  }
+}
+
+// Seeds of other wallets use paths of their own, which belong to the wallet
+// format alone
+export const hasCustomPath = (args: { keys: UtxoKeyFormat }): boolean =>
+  args.keys.derivationPath != null || args.keys.electrumSeed === true
+
+// The arguments shared by every key derived from the seed of the wallet keys
+export const getWalletSeedArgs = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+}): Omit<SeedOrMnemonicToXPrivArgs, 'network' | 'type' | 'coin'> => ({
+  seed: pluginUtils.getMnemonic(args),
+  passphrase: args.keys.passphrase,
+  coinType: getWalletCoinType(args),
+  account: getWalletAccount(args),
+  path: args.keys.derivationPath,
+  electrumSeed: args.keys.electrumSeed,
+  slip39Seed: args.keys.slip39Seed,
+  multisigScriptType: args.keys.multisig?.scriptType
+})
+
 export const getWalletFormat = (args: {
   keys: UtxoKeyFormat
 }): CurrencyFormat => args.keys.format ?? 'bip32'
 
+// Watch-only wallets hold the extended public keys of the wallet formats
+// in place of a seed, so they can sync and spend to unsigned psbts only
+export const isWatchOnly = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+}): boolean =>
+  args.keys[pluginUtils.getMnemonicKey(args)] == null &&
+  args.keys.wifKeys == null
+
+// Wallets holding a seed may use bip47 payment codes, unless they are
+// multisig wallets, which have no key of their own to notify
+export const supportsPaymentCodes = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+}): boolean =>
+  args.keys[pluginUtils.getMnemonicKey(args)] != null &&
+  args.keys.multisig == null
+
+// Replay protected addresses are derived on a branch of the wallet's legacy
+// keys, which wif and multisig wallets do not have
+export const supportsReplayProtection = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+}): boolean =>
+  args.keys.wifKeys == null &&
+  args.keys.multisig == null &&
+  [BIP43PurposeTypeEnum.Airbitz, BIP43PurposeTypeEnum.Legacy].includes(
+    getPurposeTypeFromKeys(args)
+  )
+
+// Receiving silent payments takes the scan and spend keys of a seed, which
+// multisig wallets do not have on their own
+export const supportsSilentPayments = supportsPaymentCodes
+
 export const getWalletSupportedFormats = (args: {
   keys: UtxoKeyFormat
+  coin: string
 }): CurrencyFormat[] => {
   const formats: CurrencyFormat[] = [getWalletFormat(args)]
-  // If wallet is Segwit, it also should support WrappedSegwit
-  if (getPurposeTypeFromKeys(args) === BIP43PurposeTypeEnum.Segwit) {
-    formats.push(
-      getCurrencyFormatFromPurposeType(BIP43PurposeTypeEnum.WrappedSegwit)
+  // If wallet is Segwit, it also should support WrappedSegwit, unless it is
+  // watch-only and was given the segwit xpub alone, or has a custom path
+  if (
+    getPurposeTypeFromKeys(args) === BIP43PurposeTypeEnum.Segwit &&
+    !hasCustomPath(args)
+  ) {
+    const wrappedSegwitFormat = getCurrencyFormatFromPurposeType(
+      BIP43PurposeTypeEnum.WrappedSegwit
     )
+    if (!isWatchOnly(args) || getXpubs(args)?.[wrappedSegwitFormat] != null) {
+      formats.push(wrappedSegwitFormat)
+    }
   }
   return formats
 }
 
 export const getFormatSupportedBranches = (
-  format: CurrencyFormat
+  format: CurrencyFormat,
+  replayProtection = false
 ): number[] => {
   const branches = [0]
   if (currencyFormatToPurposeType(format) !== BIP43PurposeTypeEnum.Airbitz) {
     branches.push(1)
   }
+  if (replayProtection) {
+    branches.push(REPLAY_PROTECTION_BRANCH)
+  }
   return branches
 }
 
@@ -168,13 +337,12 @@ export const deriveXprivFromKeys = (args: {
 }): CurrencyFormatKeys => {
   const keys: CurrencyFormatKeys = {}
   const xprivArgs = {
-    seed: pluginUtils.getMnemonic(args),
-    coinType: getWalletCoinType(args),
+    ...getWalletSeedArgs(args),
     coin: args.coin,
     network: args.network
   }
   const walletPurpose = getPurposeTypeFromKeys(args)
-  if (walletPurpose === BIP43PurposeTypeEnum.Segwit) {
+  if (walletPurpose === BIP43PurposeTypeEnum.Segwit && !hasCustomPath(args)) {
     keys[
       getCurrencyFormatFromPurposeType(BIP43PurposeTypeEnum.Segwit)
     ] = seedOrMnemonicToXPriv({
@@ -228,6 +396,256 @@ export const deriveXpub = (args: {
   return xprivToXPub({ ...args, xpriv })
 }
 
+const MULTISIG_SCRIPT_TYPES = [
+  ScriptTypeEnum.p2sh,
+  ScriptTypeEnum.p2wshp2sh,
+  ScriptTypeEnum.p2wsh
+]
+
+// the most keys a standard p2sh redeem script holds
+const MAX_MULTISIG_KEYS = 15
+
+// Checks the multisig keys of a new wallet, and encodes the cosigner xpubs
+// with the legacy prefix the wallet derives them with
+export const validateMultisigKeys = (args: {
+  multisig: MultisigKeyFormat
+  coin: string
+  network: NetworkEnum
+}): MultisigKeyFormat => {
+  const { multisig, coin, network } = args
+  const { threshold, xpubs, scriptType } = multisig
+  if (!MULTISIG_SCRIPT_TYPES.includes(scriptType)) {
+    throw new Error('Invalid multisig script type')
+  }
+  if (!Array.isArray(xpubs) || xpubs.length > MAX_MULTISIG_KEYS) {
+    throw new Error('Invalid multisig xpubs')
+  }
+  if (
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > xpubs.length
+  ) {
+    throw new Error('Invalid multisig threshold')
+  }
+  return {
+    ...multisig,
+    xpubs: xpubs.map(
+      xpub => importXpub({ xpub, coin, network, format: 'bip48' }).xpub
+    )
+  }
+}
+
+// Cosigners share their xpubs before the wallet is created, so the wallet's
+// own xpub is added to theirs to complete the multisig key set
+export const addOwnMultisigXpub = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+  network: NetworkEnum
+}): MultisigKeyFormat => {
+  const { multisig } = args.keys
+  if (multisig == null) throw new Error('Wallet keys are not multisig')
+  if (!MULTISIG_SCRIPT_TYPES.includes(multisig.scriptType)) {
+    throw new Error('Invalid multisig script type')
+  }
+  const xpub = deriveXpub({ ...args, type: BIP43PurposeTypeEnum.Multisig })
+  const cosignerXpubs = Array.isArray(multisig.xpubs) ? multisig.xpubs : []
+  return validateMultisigKeys({
+    ...args,
+    multisig: {
+      ...multisig,
+      xpubs: cosignerXpubs.includes(xpub)
+        ? cosignerXpubs
+        : [...cosignerXpubs, xpub]
+    }
+  })
+}
+
+export interface DescriptorKeys {
+  format: CurrencyFormat
+  coinType?: number
+  account?: number
+  xpub?: string // single key wallets, encoded with the prefix of the format
+  multisig?: MultisigKeyFormat
+}
+
+// Renders one output descriptor per format the wallet supports. Keys derived
+// from the wallet's own seed carry their origin, cosigner keys do not.
+export const getWalletDescriptors = (args: {
+  keys: UtxoKeyFormat
+  coin: string
+  network: NetworkEnum
+}): string[] => {
+  const { keys, coin, network } = args
+  const xpubs = getXpubs(args) ?? deriveXpubsFromKeys(args)
+  const hasSeed = keys[pluginUtils.getMnemonicKey({ coin })] != null
+  return getWalletSupportedFormats(args).map(format => {
+    const purpose = currencyFormatToPurposeType(format)
+    const xpub = xpubs[format]
+    const { multisig } = keys
+    // watch-only multisig wallets may hold the cosigner keys alone
+    let ownKey: DescriptorKey | undefined
+    if (xpub != null) {
+      ownKey = {
+        xpub: convertXPub({
+          xpub,
+          network,
+          type: purpose,
+          newType: BIP43PurposeTypeEnum.Legacy,
+          coin
+        })
+      }
+      if (hasSeed) {
+        ownKey.origin = seedOrMnemonicToKeyOrigin({
+          ...getWalletSeedArgs(args),
+          network,
+          type: purpose,
+          coin
+        })
+      }
+    }
+    if (purpose === BIP43PurposeTypeEnum.Multisig) {
+      if (multisig == null) throw new Error('Wallet keys are not multisig')
+      return walletDescriptorToString({
+        purpose,
+        scriptType: multisig.scriptType,
+        threshold: multisig.threshold,
+        keys: multisig.xpubs.map(cosignerXpub =>
+          ownKey != null && cosignerXpub === ownKey.xpub
+            ? ownKey
+            : { xpub: cosignerXpub }
+        )
+      })
+    }
+    if (ownKey == null) throw new Error(`Missing xpub for format ${format}`)
+    return walletDescriptorToString({
+      purpose,
+      scriptType: getScriptTypeFromPurposeType(purpose),
+      keys: [ownKey]
+    })
+  })
+}
+
+export const parseDescriptor = (args: {
+  descriptor: string
+  coin: string
+  network: NetworkEnum
+}): DescriptorKeys => {
+  const { coin, network } = args
+  const parsed = parseWalletDescriptor(args.descriptor)
+  const format = getCurrencyFormatFromPurposeType(parsed.purpose)
+  // decoding the keys also checks that they belong to the coin and network
+  const xpubs = parsed.keys.map(
+    key => importXpub({ xpub: key.xpub, coin, network, format }).xpub
+  )
+  const result: DescriptorKeys = {
+    format,
+    coinType: parsed.coinType,
+    account: parsed.account
+  }
+  if (parsed.threshold != null) {
+    result.multisig = {
+      threshold: parsed.threshold,
+      xpubs,
+      scriptType: parsed.scriptType
+    }
+  } else {
+    result.xpub = xpubs[0]
+  }
+  return result
+}
+
+export interface ExtendedKeyInfo {
+  format: CurrencyFormat // the legacy version of bip44 is shared by other formats
+  scriptType: ScriptTypeEnum
+  version: string // hex encoded version bytes
+  isPrivate: boolean
+}
+
+export const getExtendedKeyInfo = (args: {
+  xkey: string
+  coin: string
+  network: NetworkEnum
+}): ExtendedKeyInfo => {
+  const { version, type, scriptType, isPrivate } = identifyExtendedKey(args)
+  return {
+    format: getCurrencyFormatFromPurposeType(type),
+    scriptType,
+    version: version.toString(16).padStart(8, '0'),
+    isPrivate
+  }
+}
+
+// Re-encodes a pasted extended public key of any known version with the
+// prefix of the format, which defaults to the one of its version. Wallets
+// use the legacy version for every format, other versions only fit their own.
+export const importXpub = (args: {
+  xpub: string
+  coin: string
+  network: NetworkEnum
+  format?: CurrencyFormat
+}): { format: CurrencyFormat; xpub: string } => {
+  const { xpub, coin, network } = args
+  let keyVersion: ExtendedKeyVersion
+  try {
+    keyVersion = identifyExtendedKey({ xkey: xpub, coin, network })
+  } catch (e) {
+    throw new Error('Invalid extended public key')
+  }
+  const format =
+    args.format ?? getCurrencyFormatFromPurposeType(keyVersion.type)
+  const type = currencyFormatToPurposeType(format)
+  if (
+    keyVersion.isPrivate ||
+    (keyVersion.type !== BIP43PurposeTypeEnum.Legacy &&
+      keyVersion.type !== type)
+  ) {
+    throw new Error('Invalid extended public key')
+  }
+  return {
+    format,
+    xpub: convertExtendedKey({ xkey: xpub, coin, network, newType: type })
+  }
+}
+
+// Makes the keys of a watch-only wallet from an extended public key of any
+// version, or from an output descriptor
+export const makeWatchOnlyKeys = (args: {
+  key: string
+  coin: string
+  network: NetworkEnum
+  format?: CurrencyFormat // picks the format of keys with a shared prefix
+  coinType?: number
+}): UtxoKeyFormat => {
+  const { key, coin, network } = args
+  let descriptorKeys: DescriptorKeys
+  if (key.includes('(')) {
+    descriptorKeys = parseDescriptor({ descriptor: key, coin, network })
+  } else {
+    descriptorKeys = importXpub({
+      xpub: key,
+      coin,
+      network,
+      format: args.format
+    })
+  }
+
+  const { format, xpub, multisig } = descriptorKeys
+  // multisig wallets take their script type and cosigners from a descriptor
+  if (format === 'bip48' && multisig == null) {
+    throw new Error('Multisig wallets need the keys of every cosigner')
+  }
+  const keys: UtxoKeyFormat = {
+    format,
+    coinType: descriptorKeys.coinType ?? args.coinType,
+    [getXpubKey({ coin })]: xpub != null ? { [format]: xpub } : {}
+  }
+  if (descriptorKeys.account != null) keys.account = descriptorKeys.account
+  if (multisig != null) {
+    keys.multisig = validateMultisigKeys({ multisig, coin, network })
+  }
+  return keys
+}
+
 export const parsePathname = (args: {
   pathname: string
   coin: string
@@ -1,25 +1,37 @@
 import { info as bitcoin } from './bitcoin'
 import { info as bitcoincash } from './bitcoincash'
+import { info as bitcoincashregtest } from './bitcoincashregtest'
+import { info as bitcoinregtest } from './bitcoinregtest'
+import { info as bitcoinsignet } from './bitcoinsignet'
 import { info as bitcoinsv } from './bitcoinsv'
 import { info as bitcointestnet } from './bitcointestnet'
 import { info as feathercoin } from './feathercoin'
 import { info as litecoin } from './litecoin'
+import { info as zcash } from './zcash'
 import { info as zcoin } from './zcoin'
 
 export { info as bitcoin } from './bitcoin'
 export { info as bitcointestnet } from './bitcointestnet'
+export { info as bitcoinregtest } from './bitcoinregtest'
+export { info as bitcoinsignet } from './bitcoinsignet'
 export { info as bitcoincash } from './bitcoincash'
+export { info as bitcoincashregtest } from './bitcoincashregtest'
 export { info as bitcoinsv } from './bitcoinsv'
 export { info as feathercoin } from './feathercoin'
 export { info as litecoin } from './litecoin'
+export { info as zcash } from './zcash'
 export { info as zcoin } from './zcoin'
 
 export const all = [
   bitcoin,
   bitcoincash,
+  bitcoincashregtest,
+  bitcoinregtest,
+  bitcoinsignet,
   bitcoinsv,
   bitcointestnet,
   feathercoin,
   litecoin,
+  zcash,
   zcoin
 ]
@@ -4,8 +4,11 @@ import { EngineCurrencyInfo, EngineCurrencyType } from '../../plugin/types'
 export const info: EngineCurrencyInfo = {
   currencyType: EngineCurrencyType.UTXO,
   coinType: 0,
-  formats: ['bip49', 'bip84', 'bip44', 'bip32'],
+  formats: ['bip49', 'bip84', 'bip86', 'bip48', 'bip44', 'bip32'],
   forks: ['bitcoincash', 'bitcoingold'],
+  paymentCodes: true,
+  silentPayments: true,
+  silentPaymentsHeight: 709632,
   network: 'bitcoin',
   pluginId: 'bitcoin',
   walletType: 'wallet:bitcoin',
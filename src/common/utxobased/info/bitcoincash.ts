@@ -7,6 +7,7 @@ export const info: EngineCurrencyInfo = {
   formats: ['bip44', 'bip32'],
   forks: ['bitcoincashsv'],
   network: 'bitcoincash',
+  replayProtection: true,
   pluginId: 'bitcoincash',
   walletType: 'wallet:bitcoincash',
   currencyCode: 'BCH',
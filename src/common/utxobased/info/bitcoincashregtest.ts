@@ -0,0 +1,53 @@
+import { IMAGE_SERVER_URL } from '../../constants'
+import {
+  EngineCurrencyInfo,
+  EngineCurrencyType,
+  NetworkEnum
+} from '../../plugin/types'
+
+// A local regtest node, indexed by a local blockbook
+export const info: EngineCurrencyInfo = {
+  currencyType: EngineCurrencyType.UTXO,
+  coinType: 1,
+  formats: ['bip44', 'bip32'],
+  network: 'bitcoincash',
+  pluginId: 'bitcoincashregtest',
+  walletType: 'wallet:bitcoincashregtest',
+  currencyCode: 'REGTESTBCH',
+  displayName: 'Bitcoin Cash Regtest',
+  networkType: NetworkEnum.Regtest,
+  gapLimit: 10,
+  defaultFee: 10000,
+  feeUpdateInterval: 60000,
+  customFeeSettings: ['satPerByte'],
+  simpleFeeSettings: {
+    highFee: '20',
+    lowFee: '3',
+    standardFeeLow: '5',
+    standardFeeHigh: '10',
+    standardFeeLowAmount: '1000000',
+    standardFeeHighAmount: '65000000'
+  },
+  denominations: [
+    { name: 'REGTESTBCH', multiplier: '100000000', symbol: '₿' },
+    { name: 'mREGTESTBCH', multiplier: '100000', symbol: 'm₿' },
+    { name: 'cash', multiplier: '100', symbol: 'ƀ' }
+  ],
+
+  // Configuration options:
+  defaultSettings: {
+    customFeeSettings: ['satPerByte'],
+    blockBookServers: ['ws://localhost:19131/websocket'],
+    disableFetchingServers: true
+  },
+  metaTokens: [],
+
+  // Explorers:
+  blockExplorer: 'http://localhost:19131/block/%s',
+  addressExplorer: 'http://localhost:19131/address/%s',
+  transactionExplorer: 'http://localhost:19131/tx/%s',
+
+  // Images:
+  symbolImage: `${IMAGE_SERVER_URL}/bitcoincash-logo-solo-64.png`,
+  symbolImageDarkMono: `${IMAGE_SERVER_URL}/bitcoincash-logo-solo-64.png`
+}
@@ -0,0 +1,54 @@
+import { IMAGE_SERVER_URL } from '../../constants'
+import {
+  EngineCurrencyInfo,
+  EngineCurrencyType,
+  NetworkEnum
+} from '../../plugin/types'
+
+// A local regtest node, indexed by a blockbook on its default regtest port
+export const info: EngineCurrencyInfo = {
+  currencyType: EngineCurrencyType.UTXO,
+  coinType: 1,
+  formats: ['bip49', 'bip84', 'bip86', 'bip48', 'bip44', 'bip32'],
+  network: 'bitcoin',
+  pluginId: 'bitcoinregtest',
+  walletType: 'wallet:bitcoinregtest',
+  currencyCode: 'REGTESTBTC',
+  displayName: 'Bitcoin Regtest',
+  networkType: NetworkEnum.Regtest,
+  gapLimit: 25,
+  defaultFee: 1000,
+  feeUpdateInterval: 60000,
+  customFeeSettings: ['satPerByte'],
+  simpleFeeSettings: {
+    highFee: '150',
+    lowFee: '20',
+    standardFeeLow: '50',
+    standardFeeHigh: '100',
+    standardFeeLowAmount: '173200',
+    standardFeeHighAmount: '8670000'
+  },
+  denominations: [
+    { name: 'REGTESTBTC', multiplier: '100000000', symbol: '₿' },
+    { name: 'mREGTESTBTC', multiplier: '100000', symbol: 'm₿' },
+    { name: 'bits', multiplier: '100', symbol: 'ƀ' },
+    { name: 'sats', multiplier: '1', symbol: 's' }
+  ],
+
+  // Configuration options:
+  defaultSettings: {
+    customFeeSettings: ['satPerByte'],
+    blockBookServers: ['ws://localhost:19121/websocket'],
+    disableFetchingServers: true
+  },
+  metaTokens: [],
+
+  // Explorers:
+  blockExplorer: 'http://localhost:19121/block/%s',
+  addressExplorer: 'http://localhost:19121/address/%s',
+  transactionExplorer: 'http://localhost:19121/tx/%s',
+
+  // Images:
+  symbolImage: `${IMAGE_SERVER_URL}/bitcoin-logo-solo-64.png`,
+  symbolImageDarkMono: `${IMAGE_SERVER_URL}/bitcoin-logo-solo-64.png`
+}
@@ -0,0 +1,55 @@
+import { IMAGE_SERVER_URL } from '../../constants'
+import {
+  EngineCurrencyInfo,
+  EngineCurrencyType,
+  NetworkEnum
+} from '../../plugin/types'
+
+export const info: EngineCurrencyInfo = {
+  currencyType: EngineCurrencyType.UTXO,
+  coinType: 1,
+  formats: ['bip49', 'bip84', 'bip86', 'bip48', 'bip44', 'bip32'],
+  network: 'bitcoin',
+  pluginId: 'bitcoinsignet',
+  walletType: 'wallet:bitcoinsignet',
+  currencyCode: 'SIGNETBTC',
+  displayName: 'Bitcoin Signet',
+  networkType: NetworkEnum.Signet,
+  gapLimit: 25,
+  defaultFee: 1000,
+  feeUpdateInterval: 60000,
+  mempoolSpaceFeeInfoServer:
+    'https://mempool.space/signet/api/v1/fees/recommended',
+  customFeeSettings: ['satPerByte'],
+  simpleFeeSettings: {
+    highFee: '150',
+    lowFee: '20',
+    standardFeeLow: '50',
+    standardFeeHigh: '100',
+    standardFeeLowAmount: '173200',
+    standardFeeHighAmount: '8670000'
+  },
+  denominations: [
+    { name: 'SIGNETBTC', multiplier: '100000000', symbol: '₿' },
+    { name: 'mSIGNETBTC', multiplier: '100000', symbol: 'm₿' },
+    { name: 'bits', multiplier: '100', symbol: 'ƀ' },
+    { name: 'sats', multiplier: '1', symbol: 's' }
+  ],
+
+  // Configuration options:
+  defaultSettings: {
+    customFeeSettings: ['satPerByte'],
+    blockBookServers: ['ws://localhost:19120/websocket'],
+    disableFetchingServers: true
+  },
+  metaTokens: [],
+
+  // Explorers:
+  blockExplorer: 'https://mempool.space/signet/block/%s',
+  addressExplorer: 'https://mempool.space/signet/address/%s',
+  transactionExplorer: 'https://mempool.space/signet/tx/%s',
+
+  // Images:
+  symbolImage: `${IMAGE_SERVER_URL}/bitcoin-logo-solo-64.png`,
+  symbolImageDarkMono: `${IMAGE_SERVER_URL}/bitcoin-logo-solo-64.png`
+}
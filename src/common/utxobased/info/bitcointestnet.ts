@@ -5,8 +5,10 @@ import { NetworkEnum } from '../keymanager/bitcoincashUtils/cashAddress'
 export const info: EngineCurrencyInfo = {
   currencyType: EngineCurrencyType.UTXO,
   coinType: 1,
-  formats: ['bip49', 'bip84', 'bip44', 'bip32'],
+  formats: ['bip49', 'bip84', 'bip86', 'bip48', 'bip44', 'bip32'],
   forks: ['bitcoincash', 'bitcoingold'],
+  paymentCodes: true,
+  silentPayments: true,
   network: 'bitcoin',
   pluginId: 'bitcointestnet',
   walletType: 'wallet:bitcointestnet',
@@ -0,0 +1,46 @@
+import { IMAGE_SERVER_URL } from '../../constants'
+import { EngineCurrencyInfo, EngineCurrencyType } from '../../plugin/types'
+
+export const info: EngineCurrencyInfo = {
+  currencyType: EngineCurrencyType.UTXO,
+  coinType: 133,
+  formats: ['bip44', 'bip32'],
+  network: 'zcash',
+  pluginId: 'zcash',
+  walletType: 'wallet:zcash',
+  displayName: 'Zcash',
+  currencyCode: 'ZEC',
+  gapLimit: 10,
+  defaultFee: 10000,
+  feeUpdateInterval: 60000,
+  customFeeSettings: ['satPerByte'],
+  simpleFeeSettings: {
+    highFee: '100',
+    lowFee: '50',
+    standardFeeLow: '60',
+    standardFeeHigh: '80',
+    standardFeeLowAmount: '173200',
+    standardFeeHighAmount: '8670000'
+  },
+  denominations: [
+    { name: 'ZEC', multiplier: '100000000', symbol: 'Z' },
+    { name: 'mZEC', multiplier: '100000', symbol: 'mZ' }
+  ],
+
+  // Configuration options:
+  defaultSettings: {
+    customFeeSettings: ['satPerByte'],
+    blockBookServers: ['https://zec1.trezor.io', 'https://zec2.trezor.io'],
+    disableFetchingServers: false
+  },
+  metaTokens: [],
+
+  // Explorers:
+  blockExplorer: 'https://blockchair.com/zcash/block/%s',
+  addressExplorer: 'https://blockchair.com/zcash/address/%s',
+  transactionExplorer: 'https://blockchair.com/zcash/transaction/%s',
+
+  // Images:
+  symbolImage: `${IMAGE_SERVER_URL}/zcash-logo-solo-64.png`,
+  symbolImageDarkMono: `${IMAGE_SERVER_URL}/zcash-logo-solo-64.png`
+}
@@ -28,8 +28,8 @@ export function base58Base(
       ((checksum[0] ^ newChecksum[0]) |
         (checksum[1] ^ newChecksum[1]) |
         (checksum[2] ^ newChecksum[2]) |
-        (checksum[3] ^ newChecksum[3])) ===
-      1
+        (checksum[3] ^ newChecksum[3])) !==
+      0
     )
       return
 
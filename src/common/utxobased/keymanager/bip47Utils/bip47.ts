@@ -0,0 +1,234 @@
+import * as bitcoin from 'altcoin-js'
+import * as bip32 from 'bip32'
+import createHmac from 'create-hmac'
+import * as ecc from 'tiny-secp256k1'
+
+import { base58Base } from '../base'
+
+// BIP47 reusable payment codes, version 1
+// https://github.com/bitcoin/bips/blob/master/bip-0047.mediawiki
+
+const PAYMENT_CODE_PREFIX = 0x47
+const PAYMENT_CODE_VERSION = 0x01
+const PAYLOAD_SIZE = 80
+const OUTPOINT_SIZE = 36
+
+const base58check = base58Base(
+  (payload: Buffer): Buffer => bitcoin.crypto.hash256(payload).slice(0, 4)
+)
+
+// the public key and chain code of the account node m/47'/coinType'/account'
+export interface PaymentCodeKey {
+  publicKey: Buffer
+  chainCode: Buffer
+}
+
+export interface Outpoint {
+  txid: string
+  vout: number
+}
+
+export const paymentCodePayload = (key: PaymentCodeKey): Buffer =>
+  Buffer.concat([
+    Buffer.from([PAYMENT_CODE_VERSION, 0x00]),
+    key.publicKey,
+    key.chainCode,
+    Buffer.alloc(13, 0)
+  ])
+
+export const payloadToPaymentCodeKey = (payload: Buffer): PaymentCodeKey => {
+  const publicKey = payload.slice(2, 35)
+  if (
+    payload.length !== PAYLOAD_SIZE ||
+    payload[0] !== PAYMENT_CODE_VERSION ||
+    !ecc.isPoint(publicKey)
+  ) {
+    throw new Error('Invalid payment code')
+  }
+  return { publicKey, chainCode: payload.slice(35, 67) }
+}
+
+export const encodePaymentCode = (key: PaymentCodeKey): string =>
+  base58check.encode(
+    Buffer.concat([Buffer.from([PAYMENT_CODE_PREFIX]), paymentCodePayload(key)])
+  )
+
+export const decodePaymentCode = (paymentCode: string): PaymentCodeKey => {
+  let data: Buffer
+  try {
+    data = base58check.decode(paymentCode)
+  } catch (e) {
+    throw new Error('Invalid payment code')
+  }
+  if (data[0] !== PAYMENT_CODE_PREFIX) {
+    throw new Error('Invalid payment code')
+  }
+  return payloadToPaymentCodeKey(data.slice(1))
+}
+
+export const isPaymentCode = (paymentCode: string): boolean => {
+  try {
+    decodePaymentCode(paymentCode)
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+// the public key of a non-hardened child of the payment code, where child 0
+// is the key of the notification address
+export const paymentCodeChildPubkey = (
+  key: PaymentCodeKey,
+  index: number
+): Buffer =>
+  bip32.fromPublicKey(key.publicKey, key.chainCode).derive(index).publicKey
+
+// the x coordinate of the ECDH point of a private and a public key
+const sharedPointX = (privateKey: Buffer, publicKey: Buffer): Buffer => {
+  const point = ecc.pointMultiply(publicKey, privateKey, true)
+  if (point == null) {
+    throw new Error('Invalid payment code shared secret')
+  }
+  return point.slice(1)
+}
+
+// the tweak both parties add to the keys of a payment address
+const sharedSecret = (privateKey: Buffer, publicKey: Buffer): Buffer => {
+  const secret = bitcoin.crypto.sha256(sharedPointX(privateKey, publicKey))
+  if (!ecc.isPrivate(secret)) {
+    throw new Error('Invalid payment code shared secret')
+  }
+  return secret
+}
+
+// The sender pays the public key B' = B + sG, with B the child of the
+// recipient's payment code at the index and s the secret of the sender's
+// notification private key and B
+export const paymentCodeSendPubkey = (args: {
+  privateKey: Buffer // the sender's notification private key
+  recipient: PaymentCodeKey
+  index: number
+}): Buffer => {
+  const publicKey = paymentCodeChildPubkey(args.recipient, args.index)
+  const tweaked = ecc.pointAddScalar(
+    publicKey,
+    sharedSecret(args.privateKey, publicKey),
+    true
+  )
+  if (tweaked == null) {
+    throw new Error('Invalid payment code shared secret')
+  }
+  return tweaked
+}
+
+// The recipient spends with b' = b + s, with b the private key of its own
+// child at the index and s the secret of b and the sender's notification key
+export const paymentCodeReceivePrivateKey = (args: {
+  privateKey: Buffer // the recipient's child private key at the index
+  sender: PaymentCodeKey
+}): Buffer => {
+  const tweaked = ecc.privateAdd(
+    args.privateKey,
+    sharedSecret(args.privateKey, paymentCodeChildPubkey(args.sender, 0))
+  )
+  if (tweaked == null) {
+    throw new Error('Invalid payment code shared secret')
+  }
+  return tweaked
+}
+
+const serializeOutpoint = (outpoint: Outpoint): Buffer => {
+  const buffer = Buffer.alloc(OUTPOINT_SIZE)
+  Buffer.from(outpoint.txid, 'hex').reverse().copy(buffer, 0)
+  buffer.writeUInt32LE(outpoint.vout, 32)
+  return buffer
+}
+
+// Masks the public key x coordinate and chain code of a payload with the
+// HMAC-SHA512 of the shared point of the designated input, keyed with its
+// outpoint. Masking twice restores the payload.
+const maskPayload = (
+  payload: Buffer,
+  privateKey: Buffer,
+  publicKey: Buffer,
+  outpoint: Outpoint
+): Buffer => {
+  const mask = createHmac('sha512', serializeOutpoint(outpoint))
+    .update(sharedPointX(privateKey, publicKey))
+    .digest()
+  const masked = Buffer.from(payload)
+  for (let i = 0; i < 64; i++) {
+    masked[i + 3] ^= mask[i]
+  }
+  return masked
+}
+
+// The OP_RETURN script of a notification transaction, blinded with the
+// private key and outpoint of its designated input
+export const notificationScript = (args: {
+  sender: PaymentCodeKey
+  recipient: PaymentCodeKey
+  privateKey: Buffer // the private key of the designated input
+  outpoint: Outpoint // the outpoint spent by the designated input
+}): Buffer => {
+  const payload = maskPayload(
+    paymentCodePayload(args.sender),
+    args.privateKey,
+    paymentCodeChildPubkey(args.recipient, 0),
+    args.outpoint
+  )
+  const output = bitcoin.payments.embed({ data: [payload] }).output
+  if (output == null) throw new Error('Failed to make notification script')
+  return output
+}
+
+// the public key revealed by the script or witness of a transaction input
+const inputPubkey = (input: bitcoin.TxInput): Buffer | undefined => {
+  const chunks =
+    input.witness.length > 0
+      ? input.witness
+      : bitcoin.script.decompile(input.script) ?? []
+  const pubkey = chunks[chunks.length - 1]
+  if (chunks.length === 2 && Buffer.isBuffer(pubkey) && ecc.isPoint(pubkey)) {
+    return pubkey
+  }
+}
+
+// Reads the sender's payment code from a notification transaction paying
+// the notification address of the recipient, or undefined for other ones
+export const parseNotificationTransaction = (args: {
+  tx: bitcoin.Transaction
+  privateKey: Buffer // the recipient's notification private key
+}): PaymentCodeKey | undefined => {
+  const { tx, privateKey } = args
+  let payload: Buffer | undefined
+  for (const output of tx.outs) {
+    const chunks = bitcoin.script.decompile(output.script) ?? []
+    const data = chunks[1]
+    if (
+      chunks.length === 2 &&
+      chunks[0] === bitcoin.opcodes.OP_RETURN &&
+      Buffer.isBuffer(data) &&
+      data.length === PAYLOAD_SIZE &&
+      data[0] === PAYMENT_CODE_VERSION
+    ) {
+      payload = data
+      break
+    }
+  }
+  if (payload == null) return
+
+  // the designated input is the first one revealing its public key
+  const index = tx.ins.findIndex(input => inputPubkey(input) != null)
+  const publicKey = index < 0 ? undefined : inputPubkey(tx.ins[index])
+  if (publicKey == null) return
+  const outpoint = {
+    txid: Buffer.from(tx.ins[index].hash).reverse().toString('hex'),
+    vout: tx.ins[index].index
+  }
+  try {
+    return payloadToPaymentCodeKey(
+      maskPayload(payload, privateKey, publicKey, outpoint)
+    )
+  } catch (e) {}
+}
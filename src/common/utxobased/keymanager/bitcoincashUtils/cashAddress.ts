@@ -1,21 +1,24 @@
 // @flow
 
 // import bcoin from 'bcoin'
+import BN from 'bn.js'
 import { Buffer } from 'buffer'
 
 import { decode, encode } from './base32'
-import BN from './bn'
 
 export enum CashaddrPrefixEnum {
   mainnet = 'bitcoincash',
   testnet = 'bchtest',
-  testnetalt = 'bitcoincashtestnet'
+  testnetalt = 'bitcoincashtestnet',
+  regtest = 'bchreg'
 }
 
-// this enumerates the network types of single coins. Can be expanded to add regtest, signet, stagenet etc.
+// this enumerates the network types of single coins. Can be expanded to add stagenet etc.
 export enum NetworkEnum {
   Mainnet = 'mainnet',
-  Testnet = 'testnet'
+  Testnet = 'testnet',
+  Regtest = 'regtest',
+  Signet = 'signet'
 }
 
 export enum CashaddrTypeEnum {
@@ -36,9 +39,7 @@ const GENERATOR = [
   0x1e4f43e470
 ].map(x => new BN(x))
 
-// returns a BN object, which is not typed yet. Logs as <BN: dc0f07f285>
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const polymod = (data: number[]): any => {
+const polymod = (data: number[]): BN => {
   let checksum = new BN(1)
   const C = new BN(0x07ffffffff)
   for (let j = 0; j < data.length; j++) {
@@ -47,13 +48,13 @@ const polymod = (data: number[]): any => {
     checksum = checksum.and(C)
     checksum = checksum.shln(5).xor(new BN(value))
     for (let i = 0; i < GENERATOR.length; ++i) {
-      const D = topBits.shrn(i).and(BN.One)
-      if (D.eqn(1) === true) {
+      const D = topBits.shrn(i).and(new BN(1))
+      if (D.eqn(1)) {
         checksum = checksum.xor(GENERATOR[i])
       }
     }
   }
-  return checksum.xor(BN.One)
+  return checksum.xor(new BN(1))
 }
 
 const convertBits = (
@@ -119,9 +120,7 @@ export const hashToCashAddress = (
   type: CashaddrTypeEnum,
   network: NetworkEnum
 ): string => {
-  // Not any, but a BN object
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  function checksumToArray(checksum: any): number[] {
+  function checksumToArray(checksum: BN): number[] {
     const result = []
     const N31 = new BN(31)
     for (let i = 0; i < 8; ++i) {
@@ -165,10 +164,17 @@ export const hashToCashAddress = (
     }
   }
 
-  const prefix: CashaddrPrefixEnum =
-    NetworkEnum.Mainnet === network
-      ? CashaddrPrefixEnum.mainnet
-      : CashaddrPrefixEnum.testnet
+  let prefix: CashaddrPrefixEnum
+  switch (network) {
+    case NetworkEnum.Mainnet:
+      prefix = CashaddrPrefixEnum.mainnet
+      break
+    case NetworkEnum.Regtest:
+      prefix = CashaddrPrefixEnum.regtest
+      break
+    default:
+      prefix = CashaddrPrefixEnum.testnet
+  }
   const hashBuffer = Buffer.from(scriptHash, 'hex')
   const eight0 = [0, 0, 0, 0, 0, 0, 0, 0]
   const prefixData = prefixToArray(prefix).concat([0])
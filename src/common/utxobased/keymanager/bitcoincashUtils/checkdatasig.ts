@@ -44,3 +44,14 @@ export const cdsScriptTemplates = {
   ): string =>
     cds(cdsSig, cdsMsg, cdsPubKey, pubKey).join(OP_CHECKDATASIGVERIFY)
 }
+
+// whether the script is the replay protection template of a public key
+export const isReplayProtectionScript = (script: string): boolean => {
+  const [cdsPrefix] = cds(CDS_SIGNATURE, CDS_MESSAGE, CDS_PUBKEY, '')
+  // the checkdatasigverify opcode and the push of the public key precede it
+  const pubKey = script.slice(cdsPrefix.length + 4, -2)
+  return (
+    pubKey.length === 66 &&
+    script === cdsScriptTemplates.replayProtection(pubKey)
+  )
+}
@@ -0,0 +1,113 @@
+import * as bitcoin from 'altcoin-js'
+import BN from 'bn.js'
+import createHmac from 'create-hmac'
+import * as ecc from 'tiny-secp256k1'
+
+import {
+  CURVE_ORDER,
+  FIELD_SIZE,
+  toBuffer32
+} from '../secp256k1Utils/secp256k1'
+
+// Bitcoin Cash Schnorr signatures, which sign the same sighashes as ECDSA in
+// 64 bytes. They predate BIP340, commit to the compressed public key and pick
+// the nonce point whose y coordinate is a quadratic residue.
+// https://github.com/bitcoincashorg/bitcoincash.org/blob/master/spec/2019-05-15-schnorr.md
+
+const FIELD = BN.red(FIELD_SIZE)
+const LEGENDRE_EXPONENT = FIELD_SIZE.subn(1).shrn(1)
+// the additional data Bitcoin ABC passes to rfc6979 for schnorr nonces, so
+// they differ from the ECDSA nonces of the same key and hash
+const NONCE_DATA = Buffer.from('Schnorr+SHA256  ', 'ascii')
+
+const hmac = (key: Buffer, ...data: Buffer[]): Buffer => {
+  const hash = createHmac('sha256', key)
+  for (const item of data) hash.update(item)
+  return hash.digest()
+}
+
+// https://tools.ietf.org/html/rfc6979#section-3.2
+const deterministicNonce = (hash: Buffer, privateKey: Buffer): Buffer => {
+  let k = Buffer.alloc(32, 0)
+  let v = Buffer.alloc(32, 1)
+  k = hmac(k, v, Buffer.from([0]), privateKey, hash, NONCE_DATA)
+  v = hmac(k, v)
+  k = hmac(k, v, Buffer.from([1]), privateKey, hash, NONCE_DATA)
+  v = hmac(k, v)
+  for (;;) {
+    v = hmac(k, v)
+    if (ecc.isPrivate(v)) return v
+    k = hmac(k, v, Buffer.from([0]))
+    v = hmac(k, v)
+  }
+}
+
+// whether the y coordinate of an uncompressed point is a quadratic residue
+const hasSquareY = (point: Buffer): boolean =>
+  new BN(point.slice(33, 65))
+    .toRed(FIELD)
+    .redPow(LEGENDRE_EXPONENT)
+    .fromRed()
+    .eqn(1)
+
+const challenge = (rx: Buffer, publicKey: Buffer, hash: Buffer): BN =>
+  new BN(bitcoin.crypto.sha256(Buffer.concat([rx, publicKey, hash]))).umod(
+    CURVE_ORDER
+  )
+
+export const bchSchnorrSign = (hash: Buffer, privateKey: Buffer): Buffer => {
+  if (hash.length !== 32) {
+    throw new Error('Schnorr signing expects a 32 byte hash')
+  }
+  const publicKey = ecc.pointFromScalar(privateKey, true)
+  if (publicKey == null) {
+    throw new Error('Invalid private key')
+  }
+  const k0 = deterministicNonce(hash, privateKey)
+  const R = ecc.pointFromScalar(k0, false)
+  if (R == null) {
+    throw new Error('Schnorr nonce generation failed')
+  }
+  const k = hasSquareY(R) ? new BN(k0) : CURVE_ORDER.sub(new BN(k0))
+  const rx = R.slice(1, 33)
+
+  const e = challenge(rx, publicKey, hash)
+  const s = k.add(e.mul(new BN(privateKey))).umod(CURVE_ORDER)
+
+  const signature = Buffer.concat([rx, toBuffer32(s)])
+  if (!bchSchnorrVerify(hash, publicKey, signature)) {
+    throw new Error('Created an invalid schnorr signature')
+  }
+  return signature
+}
+
+export const bchSchnorrVerify = (
+  hash: Buffer,
+  publicKey: Buffer,
+  signature: Buffer
+): boolean => {
+  if (hash.length !== 32 || signature.length !== 64) return false
+  if (!ecc.isPoint(publicKey)) return false
+  const P = ecc.pointCompress(publicKey, true)
+  const rx = signature.slice(0, 32)
+  const r = new BN(rx)
+  const s = new BN(signature.slice(32, 64))
+  if (r.gte(FIELD_SIZE) || s.gte(CURVE_ORDER)) return false
+
+  const e = challenge(rx, P, hash)
+
+  // R = s*G - e*P
+  const sG = s.isZero() ? null : ecc.pointFromScalar(toBuffer32(s))
+  const minusE = CURVE_ORDER.sub(e).umod(CURVE_ORDER)
+  const minusEP = minusE.isZero()
+    ? null
+    : ecc.pointMultiply(P, toBuffer32(minusE))
+  let R: Buffer | null
+  if (sG == null) R = minusEP
+  else if (minusEP == null) R = sG
+  else R = ecc.pointAdd(sG, minusEP, false)
+
+  if (R == null) return false
+  R = ecc.pointCompress(R, false)
+  return hasSquareY(R) && R.slice(1, 33).equals(rx)
+}
@@ -1,5 +1,8 @@
 import { bip32 } from 'altcoin-js'
 
+import { SizeEstimator } from './utxopicker/types'
+import { ZcashTxParams } from './zcashUtils/zcash'
+
 interface BitcoinJSNetwork {
   wif: number
   bip32: Bip32
@@ -34,6 +37,14 @@ export interface Coin {
   segwit: boolean
   coinType: number
   sighash?: number
+  // signs p2pkh inputs with 64 byte schnorr signatures instead of ECDSA ones
+  schnorrSignatures?: boolean
+  // builds transparent zcash transactions instead of bitcoin ones
+  zcash?: ZcashTxParams
+  // builds decred transactions instead of bitcoin ones
+  decred?: boolean
+  // the transaction sizes fees are estimated with, when not the bitcoin ones
+  sizeEstimator?: SizeEstimator
   sighashFunction?: (Hash: Buffer) => Buffer
   bs58DecodeFunc?: (payload: string | undefined) => Buffer
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -48,4 +59,6 @@ export interface Coin {
   // by default should contain the bitcoin mainnet constants, useful for networks were multiple constants were in use.
   legacyConstants?: CoinPrefixes
   testnetConstants: CoinPrefixes
+  // only set for coins with a regtest network, signet shares the testnet constants
+  regtestConstants?: CoinPrefixes
 }
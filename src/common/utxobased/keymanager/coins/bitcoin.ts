@@ -32,4 +32,18 @@ export class Bitcoin implements Coin {
     scriptHash: 0xc4,
     bech32: 'tb'
   }
+
+  regtestConstants = {
+    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    wif: 0xef,
+    legacyXPriv: 0x04358394,
+    legacyXPub: 0x043587cf,
+    wrappedSegwitXPriv: 0x044a4e28,
+    wrappedSegwitXPub: 0x044a5262,
+    segwitXPriv: 0x045f18bc,
+    segwitXPub: 0x045f1cf6,
+    pubkeyHash: 0x6f,
+    scriptHash: 0xc4,
+    bech32: 'bcrt'
+  }
 }
@@ -6,6 +6,7 @@ export class BitcoinCash implements Coin {
   name = 'bitcoincash'
   segwit = false
   sighash = bitcoin.Psbt.BCH_SIGHASH_ALL
+  schnorrSignatures = true
   coinType = 145
 
   mainnetConstants = {
@@ -36,4 +37,14 @@ export class BitcoinCash implements Coin {
     scriptHash: 0xc4,
     cashaddr: 'bchtest'
   }
+
+  regtestConstants = {
+    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    wif: 0xef,
+    legacyXPriv: 0x04358394,
+    legacyXPub: 0x043587cf,
+    pubkeyHash: 0x6f,
+    scriptHash: 0xc4,
+    cashaddr: 'bchreg'
+  }
 }
@@ -5,7 +5,7 @@ export class Dash implements Coin {
   segwit = false
   coinType = 5
   mainnetConstants = {
-    messagePrefix: 'unused',
+    messagePrefix: '\x19DarkCoin Signed Message:\n',
     wif: 0xcc,
     legacyXPriv: 0x02fe52f8,
     legacyXPub: 0x02fe52cc,
@@ -14,7 +14,7 @@ export class Dash implements Coin {
   }
 
   testnetConstants = {
-    messagePrefix: 'unused',
+    messagePrefix: '\x19DarkCoin Signed Message:\n',
     wif: 0xef,
     legacyXPriv: 0x04358394,
     legacyXPub: 0x043587cf,
@@ -2,16 +2,19 @@ import createHash from 'blake-hash'
 
 import * as base58 from '../base'
 import { Coin } from '../coin'
+import { decredSizeEstimator } from '../decredUtils/decred'
 
 export class Decred implements Coin {
   name = 'decred'
   segwit = false
   coinType = 42
+  decred = true
+  sizeEstimator = decredSizeEstimator
   sighashFunction = blake256
   bs58DecodeFunc = base58.base58Base(doubleblake256).decode
   bs58EncodeFunc = base58.base58Base(doubleblake256).encode
   mainnetConstants = {
-    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    messagePrefix: '\x17Decred Signed Message:\n',
     wif: 0x22de,
     legacyXPriv: 0x02fda4e8,
     legacyXPub: 0x02fda926,
@@ -20,7 +23,7 @@ export class Decred implements Coin {
   }
 
   testnetConstants = {
-    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    messagePrefix: '\x17Decred Signed Message:\n',
     wif: 0x230e,
     legacyXPriv: 0x04358394,
     legacyXPub: 0x043587cf,
@@ -4,8 +4,14 @@ export class ZCash implements Coin {
   name = 'zcash'
   segwit = false
   coinType = 133
+  // v5 transactions signed for the NU6.1 network upgrade
+  zcash = {
+    version: 5,
+    consensusBranchId: 0x4dec4df0
+  }
+
   mainnetConstants = {
-    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    messagePrefix: '\x16Zcash Signed Message:\n',
     wif: 0x80,
     legacyXPriv: 0x0488ade4,
     legacyXPub: 0x0488b21e,
@@ -14,7 +20,7 @@ export class ZCash implements Coin {
   }
 
   testnetConstants = {
-    messagePrefix: '\x18Bitcoin Signed Message:\n',
+    messagePrefix: '\x16Zcash Signed Message:\n',
     wif: 0xef,
     legacyXPriv: 0x04358394,
     legacyXPub: 0x043587cf,
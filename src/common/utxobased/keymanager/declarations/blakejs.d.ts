@@ -0,0 +1,13 @@
+declare module 'blakejs' {
+  interface Blake2bContext {
+    b: Uint8Array
+    h: Uint32Array
+    t: number
+    c: number
+    outlen: number
+  }
+
+  export function blake2bInit(outlen: number, key?: Uint8Array): Blake2bContext
+  export function blake2bUpdate(ctx: Blake2bContext, input: Uint8Array): void
+  export function blake2bFinal(ctx: Blake2bContext): Uint8Array
+}
@@ -1 +0,0 @@
-declare module 'bn.js'
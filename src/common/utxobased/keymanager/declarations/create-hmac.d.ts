@@ -0,0 +1,8 @@
+declare module 'create-hmac' {
+  import { Hash } from 'crypto'
+
+  export default function createHmac(
+    algorithm: string,
+    key: string | Buffer
+  ): Hash
+}
@@ -0,0 +1,28 @@
+declare module 'tiny-secp256k1' {
+  export function isPoint(p: Buffer): boolean
+  export function isPrivate(d: Buffer): boolean
+  export function pointAdd(
+    pA: Buffer,
+    pB: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointAddScalar(
+    p: Buffer,
+    tweak: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointCompress(p: Buffer, compressed?: boolean): Buffer
+  export function pointFromScalar(
+    d: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function pointMultiply(
+    p: Buffer,
+    tweak: Buffer,
+    compressed?: boolean
+  ): Buffer | null
+  export function privateAdd(d: Buffer, tweak: Buffer): Buffer | null
+  export function privateSub(d: Buffer, tweak: Buffer): Buffer | null
+  export function sign(hash: Buffer, d: Buffer): Buffer
+  export function verify(hash: Buffer, q: Buffer, signature: Buffer): boolean
+}
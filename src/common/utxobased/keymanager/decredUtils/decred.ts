@@ -0,0 +1,242 @@
+import * as bitcoin from 'altcoin-js'
+import createHash from 'blake-hash'
+import * as ecc from 'tiny-secp256k1'
+
+import { Output, SizeEstimator } from '../utxopicker/types'
+
+// Decred transactions split into a prefix, holding the outpoints and outputs,
+// and a witness, holding the values and signature scripts of the inputs.
+// Their ids and signature hashes use blake256 instead of double sha256.
+// https://devdocs.decred.org/developer-guides/transactions/transaction-format/
+
+export interface DecredOutput {
+  script: Buffer
+  value: number
+}
+
+const TX_VERSION = 1
+// the serialization type, which takes the upper half of the version
+const SERIALIZE_FULL = 0
+const SERIALIZE_NO_WITNESS = 1
+const SERIALIZE_WITNESS_SIGNING = 3
+const REGULAR_TREE = 0
+const SCRIPT_VERSION = 0
+// the transactions are built without a block height, so they never expire
+const EXPIRY = 0
+// the witness location of inputs that are not proven to be in a block
+const NULL_BLOCK_HEIGHT = 0
+const NULL_BLOCK_INDEX = 0xffffffff
+
+// signature + public key
+const P2PKH_SIGNATURE_SCRIPT_SIZE = 1 + 73 + 1 + 33
+// outpoint, tree and sequence + value, block height and block index
+const INPUT_SIZE = 32 + 4 + 1 + 4 + 8 + 4 + 4
+// script version
+const OUTPUT_SIZE = 8 + 2
+// version, lock time and expiry
+const TX_SIZE = 4 + 4 + 4
+
+const blake256 = (buffer: Buffer): Buffer =>
+  createHash('blake256').update(buffer).digest()
+
+const uint16 = (num: number): Buffer => {
+  const buffer = Buffer.alloc(2)
+  buffer.writeUInt16LE(num, 0)
+  return buffer
+}
+
+const uint32 = (num: number): Buffer => {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32LE(num >>> 0, 0)
+  return buffer
+}
+
+const int64 = (num: number): Buffer => {
+  const buffer = Buffer.alloc(8)
+  buffer.writeUInt32LE(num % 0x100000000, 0)
+  buffer.writeUInt32LE(Math.floor(num / 0x100000000), 4)
+  return buffer
+}
+
+const compactSize = (num: number): Buffer => {
+  if (num < 0xfd) return Buffer.from([num])
+  if (num <= 0xffff) return Buffer.concat([Buffer.from([0xfd]), uint16(num)])
+  return Buffer.concat([Buffer.from([0xfe]), uint32(num)])
+}
+
+const sizeVarint = (num: number): number => compactSize(num).length
+
+const varSlice = (data: Buffer): Buffer =>
+  Buffer.concat([compactSize(data.length), data])
+
+const version = (serializeType: number): Buffer =>
+  uint32(TX_VERSION | (serializeType << 16))
+
+const serializePrefix = (tx: bitcoin.Transaction): Buffer =>
+  Buffer.concat([
+    compactSize(tx.ins.length),
+    ...tx.ins.map(input =>
+      Buffer.concat([
+        input.hash,
+        uint32(input.index),
+        Buffer.from([REGULAR_TREE]),
+        uint32(input.sequence)
+      ])
+    ),
+    compactSize(tx.outs.length),
+    ...tx.outs.map(output =>
+      Buffer.concat([
+        int64(output.value),
+        uint16(SCRIPT_VERSION),
+        varSlice(output.script)
+      ])
+    ),
+    uint32(tx.locktime),
+    uint32(EXPIRY)
+  ])
+
+// the inputs and outputs of the bitcoin transaction in the decred format
+export const serializeDecredTx = (
+  tx: bitcoin.Transaction,
+  prevOuts: DecredOutput[]
+): Buffer =>
+  Buffer.concat([
+    version(SERIALIZE_FULL),
+    serializePrefix(tx),
+    compactSize(tx.ins.length),
+    ...tx.ins.map((input, index) =>
+      Buffer.concat([
+        int64(prevOuts[index].value),
+        uint32(NULL_BLOCK_HEIGHT),
+        uint32(NULL_BLOCK_INDEX),
+        varSlice(input.script)
+      ])
+    )
+  ])
+
+const prefixHash = (tx: bitcoin.Transaction): Buffer =>
+  blake256(Buffer.concat([version(SERIALIZE_NO_WITNESS), serializePrefix(tx)]))
+
+// the id only commits to the prefix, leaving out the signatures
+export const decredTxid = (tx: bitcoin.Transaction): string =>
+  prefixHash(tx).reverse().toString('hex')
+
+// Reads an output of a fully serialized decred transaction. Only the prefix
+// ahead of the outputs is parsed.
+export const decredTxOutput = (txHex: string, vout: number): DecredOutput => {
+  const buffer = Buffer.from(txHex, 'hex')
+  let offset = 0
+  const readSlice = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error('Invalid decred transaction')
+    }
+    offset += length
+    return buffer.slice(offset - length, offset)
+  }
+  const readUInt32 = (): number => readSlice(4).readUInt32LE(0)
+  const readCompactSize = (): number => {
+    const size = readSlice(1)[0]
+    if (size === 0xfd) return readSlice(2).readUInt16LE(0)
+    if (size === 0xfe) return readUInt32()
+    if (size === 0xff) throw new Error('Invalid decred transaction')
+    return size
+  }
+
+  if (readUInt32() >>> 16 !== SERIALIZE_FULL) {
+    throw new Error('Invalid decred transaction')
+  }
+  const inputCount = readCompactSize()
+  // outpoint, tree and sequence
+  readSlice(inputCount * 41)
+  const outputCount = readCompactSize()
+  for (let i = 0; i < outputCount; i++) {
+    const value = readUInt32() + readUInt32() * 0x100000000
+    readSlice(2) // script version
+    const script = readSlice(readCompactSize())
+    if (i === vout) return { script, value }
+  }
+  throw new Error('Decred transaction output not found')
+}
+
+// The signature hash commits to the prefix and to the script of the spent
+// output in place of the signature script of the input
+export const decredSighash = (args: {
+  tx: bitcoin.Transaction
+  index: number
+  prevOutScript: Buffer
+  hashType: number
+}): Buffer => {
+  const { tx, index, prevOutScript, hashType } = args
+  if (hashType !== bitcoin.Transaction.SIGHASH_ALL) {
+    throw new Error('Decred transactions are only signed with SIGHASH_ALL')
+  }
+  const witnessHash = blake256(
+    Buffer.concat([
+      version(SERIALIZE_WITNESS_SIGNING),
+      compactSize(tx.ins.length),
+      ...tx.ins.map((_input, i) =>
+        varSlice(i === index ? prevOutScript : Buffer.alloc(0))
+      )
+    ])
+  )
+  return blake256(
+    Buffer.concat([uint32(hashType), prefixHash(tx), witnessHash])
+  )
+}
+
+// Signs every input of the transaction, which must spend a p2pkh output of
+// the private key at the same index
+export const signDecredTx = (args: {
+  tx: bitcoin.Transaction
+  prevOuts: DecredOutput[]
+  privateKeys: Buffer[]
+}): { id: string; hex: string } => {
+  const { prevOuts, privateKeys } = args
+  const tx = args.tx.clone()
+  const hashType = bitcoin.Transaction.SIGHASH_ALL
+  const scriptSigs = tx.ins.map((_input, index) => {
+    const pubkey = ecc.pointFromScalar(privateKeys[index], true)
+    if (pubkey == null) throw new Error('Invalid private key')
+    const hash = decredSighash({
+      tx,
+      index,
+      prevOutScript: prevOuts[index].script,
+      hashType
+    })
+    return bitcoin.script.compile([
+      bitcoin.script.signature.encode(
+        ecc.sign(hash, privateKeys[index]),
+        hashType
+      ),
+      pubkey
+    ])
+  })
+  scriptSigs.forEach((script, index) => tx.setInputScript(index, script))
+  return {
+    id: decredTxid(tx),
+    hex: serializeDecredTx(tx, prevOuts).toString('hex')
+  }
+}
+
+export const decredSizeEstimator: SizeEstimator = {
+  // only p2pkh inputs are signed
+  inputBytes: () =>
+    INPUT_SIZE +
+    sizeVarint(P2PKH_SIGNATURE_SCRIPT_SIZE) +
+    P2PKH_SIGNATURE_SCRIPT_SIZE,
+  outputBytes: (output: Output) =>
+    OUTPUT_SIZE + sizeVarint(output.script.length) + output.script.length,
+  transactionBytes: (inputs, outputs) =>
+    TX_SIZE +
+    // the prefix and the witness both count the inputs
+    2 * sizeVarint(inputs.length) +
+    sizeVarint(outputs.length) +
+    inputs.reduce(
+      (sum, input) => sum + decredSizeEstimator.inputBytes(input),
+      0
+    ) +
+    outputs.reduce(
+      (sum, output) => sum + decredSizeEstimator.outputBytes(output),
+      0
+    )
+}
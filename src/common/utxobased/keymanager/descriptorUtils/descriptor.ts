@@ -0,0 +1,304 @@
+import BN from 'bn.js'
+
+import { BIP43PurposeTypeEnum, KeyOrigin, ScriptTypeEnum } from '../keymanager'
+
+// Output script descriptors (BIP380-386) for the single key and sorted
+// multisig wallets supported by the keymanager
+// https://github.com/bitcoin/bips/blob/master/bip-0380.mediawiki
+
+const INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ '
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l'
+const GENERATOR = [
+  0xf5dee51989,
+  0xa9fdca3312,
+  0x1bab10e32d,
+  0x3706b1677a,
+  0x644d626ffd
+].map(x => new BN(x))
+
+// receive and change branches below the account key
+const BRANCHES_SUFFIX = '/<0;1>/*'
+// airbitz wallets only derive addresses on the receive branch
+const RECEIVE_BRANCH_SUFFIX = '/0/*'
+
+export interface DescriptorKey {
+  xpub: string // account xpub, encoded with the legacy xpub prefix
+  origin?: KeyOrigin
+}
+
+export interface WalletDescriptor {
+  purpose: BIP43PurposeTypeEnum
+  scriptType: ScriptTypeEnum
+  keys: DescriptorKey[]
+  threshold?: number // only set for multisig descriptors
+}
+
+export interface ParsedDescriptor extends WalletDescriptor {
+  coinType?: number // read from the key origin path, if there is one
+  account?: number // read from the key origin path, if there is one
+}
+
+// the checksum takes 40 bits, which a number holds exactly
+const polymod = (symbols: number[]): number => {
+  let checksum = new BN(1)
+  const C = new BN(0x7ffffffff)
+  for (const value of symbols) {
+    const topBits = checksum.shrn(35)
+    checksum = checksum.and(C).shln(5).xor(new BN(value))
+    for (let i = 0; i < GENERATOR.length; ++i) {
+      if (topBits.shrn(i).and(new BN(1)).eqn(1)) {
+        checksum = checksum.xor(GENERATOR[i])
+      }
+    }
+  }
+  return checksum.toNumber()
+}
+
+const expand = (descriptor: string): number[] => {
+  const symbols: number[] = []
+  const groups: number[] = []
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char)
+    if (value === -1) {
+      throw new Error(`Invalid descriptor character ${char}`)
+    }
+    symbols.push(value & 31)
+    groups.push(value >> 5)
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2])
+      groups.length = 0
+    }
+  }
+  if (groups.length === 1) {
+    symbols.push(groups[0])
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1])
+  }
+  return symbols
+}
+
+export const descriptorChecksum = (descriptor: string): string => {
+  const checksum = polymod([...expand(descriptor), 0, 0, 0, 0, 0, 0, 0, 0])
+  let result = ''
+  for (let i = 0; i < 8; i++) {
+    const symbol = Math.floor(checksum / 32 ** (7 - i)) % 32
+    // the checksum is xored with 1, which flips the last bit of the last symbol
+    result += CHECKSUM_CHARSET[i === 7 ? symbol ^ 1 : symbol]
+  }
+  return result
+}
+
+export const addDescriptorChecksum = (descriptor: string): string =>
+  `${descriptor}#${descriptorChecksum(descriptor)}`
+
+// removes and verifies the checksum of a descriptor, if it has one
+export const removeDescriptorChecksum = (descriptor: string): string => {
+  const [body, checksum, ...rest] = descriptor.trim().split('#')
+  if (rest.length > 0) {
+    throw new Error('Invalid descriptor checksum')
+  }
+  if (
+    typeof checksum !== 'undefined' &&
+    checksum !== descriptorChecksum(body)
+  ) {
+    throw new Error('Invalid descriptor checksum')
+  }
+  return body
+}
+
+const keyToString = (key: DescriptorKey, suffix: string): string => {
+  let origin = ''
+  if (typeof key.origin !== 'undefined') {
+    // keys derived from the root itself have an empty origin path
+    const { fingerprint, path } = key.origin
+    origin = path === '' ? `[${fingerprint}]` : `[${fingerprint}/${path}]`
+  }
+  return `${origin}${key.xpub}${suffix}`
+}
+
+const sortedMultiToString = (
+  descriptor: WalletDescriptor,
+  suffix: string
+): string => {
+  const { keys, threshold } = descriptor
+  if (
+    typeof threshold === 'undefined' ||
+    threshold < 1 ||
+    threshold > keys.length
+  ) {
+    throw new Error('invalid multisig threshold')
+  }
+  return `sortedmulti(${[
+    threshold,
+    ...keys.map(key => keyToString(key, suffix))
+  ].join(',')})`
+}
+
+export const walletDescriptorToString = (
+  descriptor: WalletDescriptor
+): string => {
+  const suffix =
+    descriptor.purpose === BIP43PurposeTypeEnum.Airbitz
+      ? RECEIVE_BRANCH_SUFFIX
+      : BRANCHES_SUFFIX
+  const singleKey = (): string => {
+    if (descriptor.keys.length !== 1) {
+      throw new Error('single key descriptors require exactly one key')
+    }
+    return keyToString(descriptor.keys[0], suffix)
+  }
+
+  let body: string
+  switch (descriptor.scriptType) {
+    case ScriptTypeEnum.p2pkh:
+      body = `pkh(${singleKey()})`
+      break
+    case ScriptTypeEnum.p2wpkhp2sh:
+      body = `sh(wpkh(${singleKey()}))`
+      break
+    case ScriptTypeEnum.p2wpkh:
+      body = `wpkh(${singleKey()})`
+      break
+    case ScriptTypeEnum.p2tr:
+      body = `tr(${singleKey()})`
+      break
+    case ScriptTypeEnum.p2sh:
+      body = `sh(${sortedMultiToString(descriptor, suffix)})`
+      break
+    case ScriptTypeEnum.p2wshp2sh:
+      body = `sh(wsh(${sortedMultiToString(descriptor, suffix)}))`
+      break
+    case ScriptTypeEnum.p2wsh:
+      body = `wsh(${sortedMultiToString(descriptor, suffix)})`
+      break
+    default:
+      throw new Error(
+        `descriptors are not supported for ${descriptor.scriptType} scripts`
+      )
+  }
+  return addDescriptorChecksum(body)
+}
+
+// splits `name(inner)` into its name and inner expression
+const unwrap = (expression: string): { name: string; inner: string } => {
+  const match = /^([a-z]+)\((.*)\)$/.exec(expression)
+  if (match == null) {
+    throw new Error(`Invalid descriptor expression ${expression}`)
+  }
+  return { name: match[1], inner: match[2] }
+}
+
+const parseKey = (
+  expression: string
+): { key: DescriptorKey; receiveOnly: boolean } => {
+  const match = /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([1-9A-HJ-NP-Za-km-z]+)(\/<0;1>\/\*|\/0\/\*)$/.exec(
+    expression
+  )
+  if (match == null) {
+    throw new Error(`Unsupported descriptor key ${expression}`)
+  }
+  const [, fingerprint, path, xpub, suffix] = match
+  const key: DescriptorKey = { xpub }
+  if (typeof fingerprint !== 'undefined') {
+    key.origin = {
+      fingerprint: fingerprint.toLowerCase(),
+      path: path.slice(1).replace(/h/g, "'")
+    }
+  }
+  return { key, receiveOnly: suffix === RECEIVE_BRANCH_SUFFIX }
+}
+
+const parseSortedMulti = (
+  expression: string
+): { keys: DescriptorKey[]; threshold: number } => {
+  const { name, inner } = unwrap(expression)
+  if (name !== 'sortedmulti') {
+    throw new Error(`Unsupported descriptor expression ${name}`)
+  }
+  const [thresholdString, ...keyExpressions] = inner.split(',')
+  const threshold = parseInt(thresholdString)
+  const keys = keyExpressions.map(key => parseKey(key).key)
+  if (isNaN(threshold) || threshold < 1 || threshold > keys.length) {
+    throw new Error('invalid multisig threshold')
+  }
+  return { keys, threshold }
+}
+
+const parseOriginPath = (
+  descriptor: WalletDescriptor
+): Pick<ParsedDescriptor, 'coinType' | 'account'> => {
+  const origin = descriptor.keys.find(key => typeof key.origin !== 'undefined')
+    ?.origin
+  if (typeof origin === 'undefined') return {}
+  const levels = origin.path.split('/').map(level => parseInt(level))
+  // bip45 and airbitz paths carry no coin type or account
+  if (levels.length < 3) return {}
+  return { coinType: levels[1], account: levels[2] }
+}
+
+export const parseWalletDescriptor = (descriptor: string): ParsedDescriptor => {
+  const { name, inner } = unwrap(removeDescriptorChecksum(descriptor))
+
+  let result: WalletDescriptor
+  switch (name) {
+    case 'pkh': {
+      const { key, receiveOnly } = parseKey(inner)
+      result = {
+        purpose: receiveOnly
+          ? BIP43PurposeTypeEnum.Airbitz
+          : BIP43PurposeTypeEnum.Legacy,
+        scriptType: ScriptTypeEnum.p2pkh,
+        keys: [key]
+      }
+      break
+    }
+    case 'wpkh':
+      result = {
+        purpose: BIP43PurposeTypeEnum.Segwit,
+        scriptType: ScriptTypeEnum.p2wpkh,
+        keys: [parseKey(inner).key]
+      }
+      break
+    case 'tr':
+      result = {
+        purpose: BIP43PurposeTypeEnum.Taproot,
+        scriptType: ScriptTypeEnum.p2tr,
+        keys: [parseKey(inner).key]
+      }
+      break
+    case 'wsh':
+      result = {
+        purpose: BIP43PurposeTypeEnum.Multisig,
+        scriptType: ScriptTypeEnum.p2wsh,
+        ...parseSortedMulti(inner)
+      }
+      break
+    case 'sh': {
+      const wrapped = unwrap(inner)
+      if (wrapped.name === 'wpkh') {
+        result = {
+          purpose: BIP43PurposeTypeEnum.WrappedSegwit,
+          scriptType: ScriptTypeEnum.p2wpkhp2sh,
+          keys: [parseKey(wrapped.inner).key]
+        }
+      } else if (wrapped.name === 'wsh') {
+        result = {
+          purpose: BIP43PurposeTypeEnum.Multisig,
+          scriptType: ScriptTypeEnum.p2wshp2sh,
+          ...parseSortedMulti(wrapped.inner)
+        }
+      } else {
+        result = {
+          purpose: BIP43PurposeTypeEnum.Multisig,
+          scriptType: ScriptTypeEnum.p2sh,
+          ...parseSortedMulti(inner)
+        }
+      }
+      break
+    }
+    default:
+      throw new Error(`Unsupported descriptor expression ${name}`)
+  }
+  return { ...result, ...parseOriginPath(result) }
+}
@@ -0,0 +1,64 @@
+import createHmac from 'create-hmac'
+import { pbkdf2Sync } from 'pbkdf2'
+
+// Electrum seed phrases, as created by Electrum 2.0 and later
+// https://electrum.readthedocs.io/en/latest/seedphrase.html
+// Their words carry no checksum. The prefix of an HMAC of the phrase tells
+// the seed type instead, which picks the script type and derivation path.
+
+export enum ElectrumSeedTypeEnum {
+  standard = 'standard',
+  segwit = 'segwit'
+}
+
+// two factor seeds are left out, as they hold only one key of a multisig
+const SEED_PREFIXES: Array<[string, ElectrumSeedTypeEnum]> = [
+  ['01', ElectrumSeedTypeEnum.standard],
+  ['100', ElectrumSeedTypeEnum.segwit]
+]
+
+// Electrum also drops the spaces between CJK characters, which is not done
+// here, so such phrases are not detected
+export const normalizeElectrumText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .split(/\s+/)
+    .join(' ')
+
+export const electrumSeedType = (
+  mnemonic: string
+): ElectrumSeedTypeEnum | undefined => {
+  const version = createHmac('sha512', 'Seed version')
+    .update(normalizeElectrumText(mnemonic))
+    .digest('hex')
+  return SEED_PREFIXES.find(([prefix]) => version.startsWith(prefix))?.[1]
+}
+
+// the optional passphrase is what Electrum calls the seed extension
+export const electrumMnemonicToSeed = (
+  mnemonic: string,
+  passphrase = ''
+): Buffer =>
+  pbkdf2Sync(
+    normalizeElectrumText(mnemonic),
+    `electrum${normalizeElectrumText(passphrase)}`,
+    2048,
+    64,
+    'sha512'
+  )
+
+// the path of the account key below the root key, whose receive and change
+// branches hold the addresses like those of bip44 accounts
+export const electrumKeyOriginPath = (mnemonic: string): string => {
+  switch (electrumSeedType(mnemonic)) {
+    case ElectrumSeedTypeEnum.standard:
+      return ''
+    case ElectrumSeedTypeEnum.segwit:
+      return "0'"
+    default:
+      throw new Error('Unsupported electrum seed')
+  }
+}
@@ -3,18 +3,65 @@ import * as bitcoin from 'altcoin-js'
 import * as bip32 from 'bip32'
 import * as bip39 from 'bip39'
 import { InsufficientFundsError } from 'edge-core-js'
+import * as ecc from 'tiny-secp256k1'
 
 import { NetworkEnum } from '../../plugin/types'
 import { IUTXO } from '../db/types'
+import {
+  decodePaymentCode,
+  encodePaymentCode,
+  notificationScript,
+  parseNotificationTransaction,
+  paymentCodeChildPubkey,
+  paymentCodeReceivePrivateKey,
+  paymentCodeSendPubkey
+} from './bip47Utils/bip47'
 import {
   cashAddressToHash,
   CashaddrTypeEnum,
   hashToCashAddress
 } from './bitcoincashUtils/cashAddress'
-import { cdsScriptTemplates } from './bitcoincashUtils/checkdatasig'
+import {
+  cdsScriptTemplates,
+  isReplayProtectionScript
+} from './bitcoincashUtils/checkdatasig'
+import { bchSchnorrSign } from './bitcoincashUtils/schnorr'
 import { Coin, CoinPrefixes } from './coin'
 import { getCoinFromString } from './coinmapper'
+import { decredTxOutput, signDecredTx } from './decredUtils/decred'
+import {
+  electrumKeyOriginPath,
+  electrumMnemonicToSeed
+} from './electrumUtils/electrum'
+import {
+  bip322SignSimple,
+  bip322VerifySimple,
+  magicHash,
+  recoverPubkey,
+  signRecoverable
+} from './messageUtils/message'
+import {
+  decodeSilentPaymentAddress,
+  encodeSilentPaymentAddress,
+  scanSilentPaymentTransaction,
+  silentPaymentOutputKeys,
+  silentPaymentPrivateKey,
+  silentPaymentPubkey
+} from './silentPaymentUtils/silentPayments'
+import { schnorrSign, toXOnly } from './taprootUtils/schnorr'
+import {
+  keyPathWitness,
+  scriptPubkeyToWitnessProgram,
+  segwitAddressDecode,
+  segwitAddressEncode,
+  SIGHASH_DEFAULT,
+  taprootSighash,
+  tweakPrivateKey,
+  tweakPublicKey,
+  witnessProgramToScriptPubkey
+} from './taprootUtils/taproot'
 import * as utxopicker from './utxopicker'
+import { signZcashTx, zcashTxOutput } from './zcashUtils/zcash'
 
 // in bitcoin these are bip44, bip49, bip84 xpub prefixes
 // other coins contain different formats which still need to be gathered.
@@ -22,7 +69,11 @@ export enum BIP43PurposeTypeEnum {
   Airbitz = 'airbitz',
   Legacy = 'legacy', // xpub/xprv tpub/tprv etc.
   Segwit = 'segwit', // zpub/zprv vpub/vprv etc.
-  WrappedSegwit = 'wrappedSegwit' // ypub/yprv upub/uprv etc.
+  WrappedSegwit = 'wrappedSegwit', // ypub/yprv upub/uprv etc.
+  Taproot = 'taproot', // xpub/xprv tpub/tprv etc. (bip86)
+  Multisig = 'multisig', // xpub/xprv tpub/tprv etc. (bip48)
+  PaymentCode = 'paymentCode', // xpub/xprv tpub/tprv etc. (bip47)
+  SilentPayment = 'silentPayment' // xpub/xprv tpub/tprv etc. (bip352)
 }
 
 // supported address types.
@@ -30,16 +81,20 @@ export enum AddressTypeEnum {
   p2pkh = 'p2pkh',
   p2sh = 'p2sh',
   p2wpkh = 'p2wpkh', // short bech32 address
-  p2wsh = 'p2wsh' // long bech32 address
+  p2wsh = 'p2wsh', // long bech32 address
+  p2tr = 'p2tr', // bech32m address
+  witnessUnknown = 'witnessunknown' // bech32m address of a future witness version
 }
 
 export enum ScriptTypeEnum {
   p2wpkh = 'p2wpkh',
   p2wpkhp2sh = 'p2wpkhp2sh',
   p2wsh = 'p2wsh',
+  p2wshp2sh = 'p2wshp2sh',
   p2pk = 'p2pk',
   p2pkh = 'p2pkh',
   p2sh = 'p2sh',
+  p2tr = 'p2tr',
   replayProtection = 'replayprotection',
   replayProtectionP2SH = 'replayprotectionp2sh'
 }
@@ -69,6 +124,16 @@ export interface SeedOrMnemonicToXPrivArgs {
   coinType?: number // defaults to the coin type as defined in the coin class
   account?: number // defaults to account 0'
   coin: string
+  multisigScriptType?: ScriptTypeEnum // selects the bip48 script type level of multisig keys
+  passphrase?: string // optional bip39 passphrase, ignored for airbitz seeds
+  path?: string // account path template like m/44'/0'/{account}', replaces the standard path
+  electrumSeed?: boolean // the seed is an electrum mnemonic, whose seed type picks the path
+  slip39Seed?: boolean // the base64 seed is the master secret of a slip39 backup
+}
+
+export interface KeyOrigin {
+  fingerprint: string // hex encoded fingerprint of the root key
+  path: string // derivation path below the root key, for example 84'/0'/0'
 }
 
 export interface XPrivToXPubArgs {
@@ -78,6 +143,92 @@ export interface XPrivToXPubArgs {
   coin: string
 }
 
+export interface ConvertXPubArgs {
+  xpub: string
+  network: NetworkEnum
+  type: BIP43PurposeTypeEnum // purpose type of the prefix the xpub is encoded with
+  newType: BIP43PurposeTypeEnum
+  coin: string
+}
+
+export interface ExtendedKeyArgs {
+  xkey: string // extended public or private key with any known version
+  network: NetworkEnum
+  coin: string
+}
+
+export interface ExtendedKeyVersion {
+  version: number
+  type: BIP43PurposeTypeEnum // the legacy version is shared by other purposes
+  scriptType: ScriptTypeEnum // the script type implied by the version
+  isPrivate: boolean
+}
+
+export interface ConvertExtendedKeyArgs extends ExtendedKeyArgs {
+  newType: BIP43PurposeTypeEnum
+}
+
+export interface PaymentCodeArgs {
+  xpriv: string // the bip47 account xpriv at m/47'/coinType'/account'
+  network: NetworkEnum
+  coin: string
+}
+
+export interface PaymentCodeAddressArgs extends PaymentCodeArgs {
+  paymentCode: string // the payment code of the other party
+  index: number
+}
+
+export interface PaymentCodeNotificationArgs extends PaymentCodeArgs {
+  paymentCode: string // the payment code of the recipient
+  privateKey: string // the private key of the designated input
+  txid: string // the outpoint spent by the designated input
+  vout: number
+}
+
+export interface ParsePaymentCodeNotificationArgs extends PaymentCodeArgs {
+  txHex: string
+}
+
+export interface SilentPaymentArgs {
+  xpriv: string // the bip352 account xpriv at m/352'/coinType'/account'
+  network: NetworkEnum
+  coin: string
+}
+
+export interface SilentPaymentTweakArgs extends SilentPaymentArgs {
+  tweak: string // the tweak of an output paid to the wallet
+}
+
+export interface IsSilentPaymentAddressArgs {
+  address: string
+  network: NetworkEnum
+}
+
+export interface SilentPaymentInputArgs {
+  privateKey: string
+  scriptType: ScriptTypeEnum
+  scriptPubkey: string // the output the input spends
+  txid: string
+  vout: number
+}
+
+export interface SilentPaymentOutputScriptsArgs {
+  addresses: string[]
+  inputs: SilentPaymentInputArgs[] // every input of the transaction
+  network: NetworkEnum
+}
+
+export interface ScanSilentPaymentsArgs extends SilentPaymentArgs {
+  txHex: string
+  prevoutScripts: Array<string | undefined> // the script pubkeys the inputs spend
+}
+
+export interface SilentPaymentOutput {
+  vout: number
+  tweak: string
+}
+
 export interface XPrivToPrivateKeyArgs {
   xpriv: string
   network: NetworkEnum
@@ -112,6 +263,13 @@ export interface PubkeyToScriptPubkeyArgs {
 export interface PubkeyToScriptPubkeyReturn {
   scriptPubkey: string
   redeemScript?: string
+  witnessScript?: string
+}
+
+export interface MultisigToScriptPubkeyArgs {
+  pubkeys: string[]
+  threshold: number
+  scriptType: ScriptTypeEnum
 }
 
 export interface ScriptPubkeyToAddressArgs {
@@ -167,6 +325,22 @@ export interface PrivateKeyToWIFArgs {
   coin: string
 }
 
+export interface SignMessageArgs {
+  message: string
+  privateKey: string
+  address: string
+  network: NetworkEnum
+  coin: string
+}
+
+export interface VerifyMessageArgs {
+  message: string
+  signature: string // base64 encoded
+  address: string
+  network: NetworkEnum
+  coin: string
+}
+
 export interface TxInput {
   type: TransactionInputTypeEnum
   prevTxid: string
@@ -207,8 +381,18 @@ export interface MakeTxArgs {
   subtractFee?: boolean
 }
 
+export interface MaxSpendableArgs {
+  network: NetworkEnum
+  forceUseUtxo: IUTXO[]
+  utxos: IUTXO[]
+  targets: MakeTxTarget[] // the value of the first target is left out
+  feeRate: number
+  coin: string
+}
+
 export interface MakeTxTarget {
-  address: string
+  address?: string
+  script?: string // the script pubkey of outputs without an address, such as OP_RETURN data
   value: number
 }
 
@@ -222,11 +406,52 @@ export interface SignTxArgs {
   coin: string
 }
 
-interface SignTxReturn {
+export interface SignTxReturn {
   id: string
   hex: string
 }
 
+export interface SignPsbtArgs {
+  privateKeys: Array<string | undefined> // inputs without a key are left as they are
+  psbtBase64: string
+  coin: string
+}
+
+export interface SignPsbtReturn {
+  psbtBase64: string
+  signedInputs: number[]
+}
+
+export interface CombinePsbtsArgs {
+  psbtsBase64: string[]
+}
+
+export interface FinalizePsbtArgs {
+  psbtBase64: string
+}
+
+export interface PsbtInputScriptPubkeysArgs {
+  psbtBase64: string
+}
+
+export interface Bip32Derivation {
+  masterFingerprint: string // hex encoded root key fingerprint
+  path: string // for example m/84'/0'/0'/0/5
+  pubkey: string
+}
+
+export interface AddPsbtBip32DerivationArgs {
+  psbtBase64: string
+  // indexed like the psbt inputs and outputs, undefined entries are skipped
+  inputs: Array<Bip32Derivation | undefined>
+  outputs: Array<Bip32Derivation | undefined>
+}
+
+interface SignMultisigPsbtReturn {
+  psbtBase64: string
+  complete: boolean // true once every input carries enough signatures
+}
+
 // BitcoinJSNetwork and Bip32 are the same interfaces as declared in  bitcoin-js ts_src/network.ts
 // We redeclare them here for transparency reasons
 export interface BitcoinJSNetwork {
@@ -261,6 +486,14 @@ function bip43PurposeTypeEnumToNumber(purpose: BIP43PurposeTypeEnum): number {
       return 49
     case BIP43PurposeTypeEnum.Segwit:
       return 84
+    case BIP43PurposeTypeEnum.Taproot:
+      return 86
+    case BIP43PurposeTypeEnum.Multisig:
+      return 48
+    case BIP43PurposeTypeEnum.PaymentCode:
+      return 47
+    case BIP43PurposeTypeEnum.SilentPayment:
+      return 352
   }
 }
 
@@ -276,6 +509,14 @@ export function bip43PurposeNumberToTypeEnum(
       return BIP43PurposeTypeEnum.WrappedSegwit
     case 84:
       return BIP43PurposeTypeEnum.Segwit
+    case 86:
+      return BIP43PurposeTypeEnum.Taproot
+    case 48:
+      return BIP43PurposeTypeEnum.Multisig
+    case 47:
+      return BIP43PurposeTypeEnum.PaymentCode
+    case 352:
+      return BIP43PurposeTypeEnum.SilentPayment
     default:
       throw new Error('InvalidPurposeNumber')
   }
@@ -315,6 +556,10 @@ function bip32NetworkFromCoinPrefix(
       break
     case BIP43PurposeTypeEnum.Legacy:
     case BIP43PurposeTypeEnum.Airbitz:
+    case BIP43PurposeTypeEnum.Taproot:
+    case BIP43PurposeTypeEnum.Multisig:
+    case BIP43PurposeTypeEnum.PaymentCode:
+    case BIP43PurposeTypeEnum.SilentPayment:
       xKeyPrefixes = {
         public: coinPrefixes.legacyXPub,
         private: coinPrefixes.legacyXPriv
@@ -352,13 +597,25 @@ function bip32NetworkFromCoin(
   const forWIF: boolean = args.forWIF ?? false
   const legacy: boolean = args.legacy ?? false
   const coin: Coin = getCoinFromString(args.coinString)
-  if (args.networkType === NetworkEnum.Testnet) {
-    return bip32NetworkFromCoinPrefix(
-      sigType,
-      coin.testnetConstants,
-      coin.segwit,
-      forWIF
-    )
+  switch (args.networkType) {
+    case NetworkEnum.Testnet:
+    case NetworkEnum.Signet:
+      return bip32NetworkFromCoinPrefix(
+        sigType,
+        coin.testnetConstants,
+        coin.segwit,
+        forWIF
+      )
+    case NetworkEnum.Regtest:
+      if (typeof coin.regtestConstants === 'undefined') {
+        throw new Error(`${coin.name} has no regtest network`)
+      }
+      return bip32NetworkFromCoinPrefix(
+        sigType,
+        coin.regtestConstants,
+        coin.segwit,
+        forWIF
+      )
   }
   if (legacy && typeof coin.legacyConstants !== 'undefined') {
     return bip32NetworkFromCoinPrefix(
@@ -433,6 +690,17 @@ function guessAddressTypeFromAddress(
     bitcoin.payments.p2wpkh({ address, network })
     return AddressTypeEnum.p2wpkh
   } catch (e) {}
+  try {
+    if (coinClass.segwit) {
+      const { version, program } = segwitAddressDecode(address, network.bech32)
+      if (version === 1 && program.length === 32) {
+        return AddressTypeEnum.p2tr
+      }
+      if (version > 0) {
+        return AddressTypeEnum.witnessUnknown
+      }
+    }
+  } catch (e) {}
   try {
     const info = cashAddressToHash(address)
     if (info.type === CashaddrTypeEnum.pubkeyhash) {
@@ -445,32 +713,126 @@ function guessAddressTypeFromAddress(
 }
 
 export function seedOrMnemonicToXPriv(args: SeedOrMnemonicToXPrivArgs): string {
-  // match hexadecimal number from beginning to end of string
-  const isMnemonic = args.seed.includes(' ')
-  const seed = isMnemonic
-    ? bip39.mnemonicToSeedSync(args.seed)
-    : Buffer.from(args.seed, 'base64')
   const network: BitcoinJSNetwork = bip32NetworkFromCoin({
     networkType: args.network,
     coinString: args.coin,
     sigType: args.type
   })
+  const root = seedOrMnemonicToRoot(args)
+  root.network = network
+  const path = keyOriginPath(args)
+  return (path === '' ? root : root.derivePath(`m/${path}`)).toBase58()
+}
+
+// returns the root fingerprint and derivation path of the xpriv
+// derived by seedOrMnemonicToXPriv for the same arguments
+export function seedOrMnemonicToKeyOrigin(
+  args: SeedOrMnemonicToXPrivArgs
+): KeyOrigin {
+  return {
+    fingerprint: seedOrMnemonicToRoot(args).fingerprint.toString('hex'),
+    path: keyOriginPath(args)
+  }
+}
+
+const isMnemonic = (seed: string): boolean => seed.includes(' ')
+
+// returns the bip32 seed of the root key
+export function seedOrMnemonicToMasterSecret(
+  args: SeedOrMnemonicToXPrivArgs
+): Buffer {
+  if (args.electrumSeed === true) {
+    return electrumMnemonicToSeed(args.seed, args.passphrase)
+  }
+  if (isMnemonic(args.seed)) {
+    return bip39.mnemonicToSeedSync(args.seed, args.passphrase)
+  }
+  return Buffer.from(args.seed, 'base64')
+}
+
+function seedOrMnemonicToRoot(
+  args: SeedOrMnemonicToXPrivArgs
+): bip32.BIP32Interface {
+  const coin = getCoinFromString(args.coin)
+  const bip32FromSeedFunc = coin.bip32FromSeedFunc ?? bip32.fromSeed
+  return bip32FromSeedFunc(seedOrMnemonicToMasterSecret(args))
+}
+
+// Renders a derivation path template, such as m/44'/0'/{account}', as the
+// path below the root key. The root key itself has the empty path.
+export function derivationPathToKeyOriginPath(
+  template: string,
+  account = 0
+): string {
+  const path = template
+    .replace(/{account}/g, `${account}`)
+    .replace(/h/g, "'")
+    .replace(/\s/g, '')
+  const levels = path.split('/')
+  if (
+    levels[0] !== 'm' ||
+    !levels.slice(1).every(level => {
+      const index = /^\d+'?$/.test(level) ? parseInt(level) : NaN
+      return index < 0x80000000
+    })
+  ) {
+    throw new Error(`Invalid derivation path ${template}`)
+  }
+  return levels.slice(1).join('/')
+}
+
+function keyOriginPath(args: SeedOrMnemonicToXPrivArgs): string {
+  // payment codes and silent payments use the path of their bip with seeds
+  // of every kind
+  const isStandardPath =
+    args.type === BIP43PurposeTypeEnum.PaymentCode ||
+    args.type === BIP43PurposeTypeEnum.SilentPayment
+  if (typeof args.path !== 'undefined' && !isStandardPath) {
+    return derivationPathToKeyOriginPath(args.path, args.account)
+  }
+  if (args.electrumSeed === true && !isStandardPath) {
+    return electrumKeyOriginPath(args.seed)
+  }
+  // treat a detected seed as an airbitz seed, unless it is the master secret
+  // of a slip39 backup, which derives the paths of its format
+  if (
+    !isStandardPath &&
+    !isMnemonic(args.seed) &&
+    (args.slip39Seed !== true || args.type === BIP43PurposeTypeEnum.Airbitz)
+  ) {
+    return '0'
+  }
   const coin = getCoinFromString(args.coin)
   const purpose = bip43PurposeTypeEnumToNumber(args.type)
   let coinType = args.coinType ?? coin.coinType
   const account = args.account ?? 0
-  coinType = args.network === 'testnet' ? 1 : coinType
-  const bip32FromSeedFunc = coin.bip32FromSeedFunc ?? bip32.fromSeed
-  const root: bip32.BIP32Interface = bip32FromSeedFunc(seed)
-  root.network = network
-  // treat a detected seed as an airbitz seed
-  return isMnemonic
-    ? root
-        .deriveHardened(purpose)
-        .deriveHardened(coinType)
-        .deriveHardened(account)
-        .toBase58()
-    : root.derive(0).toBase58()
+  // every test network shares coin type 1
+  coinType = args.network !== NetworkEnum.Mainnet ? 1 : coinType
+  if (args.type === BIP43PurposeTypeEnum.Multisig) {
+    const scriptType = args.multisigScriptType ?? ScriptTypeEnum.p2wsh
+    // legacy p2sh has no bip48 script type, so it follows bip45 instead. The
+    // cosigner index level of bip45 is left out on purpose: every cosigner
+    // derives the same change and address branches right below m/45', like
+    // the bip48 paths, so the addresses differ from those of bip45 wallets.
+    if (scriptType === ScriptTypeEnum.p2sh) {
+      return "45'"
+    }
+    return `${purpose}'/${coinType}'/${account}'/${bip48ScriptTypeIndex(
+      scriptType
+    )}'`
+  }
+  return `${purpose}'/${coinType}'/${account}'`
+}
+
+function bip48ScriptTypeIndex(scriptType: ScriptTypeEnum): number {
+  switch (scriptType) {
+    case ScriptTypeEnum.p2wshp2sh:
+      return 1
+    case ScriptTypeEnum.p2wsh:
+      return 2
+    default:
+      throw new Error('invalid multisig script type')
+  }
 }
 
 export function xprivToXPub(args: XPrivToXPubArgs): string {
@@ -484,6 +846,334 @@ export function xprivToXPub(args: XPrivToXPubArgs): string {
   return bip32FromBase58Func(args.xpriv, network).neutered().toBase58()
 }
 
+// re-encodes an xpub with the prefix of another purpose type, e.g. zpub to xpub
+export function convertXPub(args: ConvertXPubArgs): string {
+  const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin,
+    sigType: args.type
+  })
+  const coin = getCoinFromString(args.coin)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  const node: bip32.BIP32Interface = bip32FromBase58Func(args.xpub, network)
+  node.network = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin,
+    sigType: args.newType
+  })
+  return node.toBase58()
+}
+
+// The prefixes an extended key of the coin may carry on the network. Wallets
+// of other coins often reuse the SLIP-132 versions of bitcoin.
+function extendedKeyPrefixes(coin: Coin, network: NetworkEnum): CoinPrefixes[] {
+  const bitcoinCoin = getCoinFromString('bitcoin')
+  switch (network) {
+    case NetworkEnum.Testnet:
+    case NetworkEnum.Signet:
+    case NetworkEnum.Regtest:
+      return [coin.testnetConstants, bitcoinCoin.testnetConstants]
+  }
+  return [
+    coin.mainnetConstants,
+    ...(typeof coin.legacyConstants !== 'undefined'
+      ? [coin.legacyConstants]
+      : []),
+    bitcoinCoin.mainnetConstants
+  ]
+}
+
+const EXTENDED_KEY_TYPES: Array<[BIP43PurposeTypeEnum, ScriptTypeEnum]> = [
+  [BIP43PurposeTypeEnum.Segwit, ScriptTypeEnum.p2wpkh],
+  [BIP43PurposeTypeEnum.WrappedSegwit, ScriptTypeEnum.p2wpkhp2sh],
+  [BIP43PurposeTypeEnum.Legacy, ScriptTypeEnum.p2pkh]
+]
+
+function decodeExtendedKey(
+  args: ExtendedKeyArgs
+): { node: bip32.BIP32Interface; keyVersion: ExtendedKeyVersion } {
+  const coin = getCoinFromString(args.coin)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  for (const prefixes of extendedKeyPrefixes(coin, args.network)) {
+    for (const [type, scriptType] of EXTENDED_KEY_TYPES) {
+      let network: BitcoinJSNetwork
+      try {
+        network = bip32NetworkFromCoinPrefix(type, prefixes, coin.segwit, false)
+      } catch (e) {
+        // the coin has no prefix for the purpose
+        continue
+      }
+      try {
+        const node: bip32.BIP32Interface = bip32FromBase58Func(
+          args.xkey,
+          network
+        )
+        const isPrivate = !node.isNeutered()
+        const version = isPrivate ? network.bip32.private : network.bip32.public
+        return { node, keyVersion: { version, type, scriptType, isPrivate } }
+      } catch (e) {}
+    }
+  }
+  throw new Error('Invalid extended key')
+}
+
+// Identifies the version of an extended key and the script type it implies
+export function identifyExtendedKey(args: ExtendedKeyArgs): ExtendedKeyVersion {
+  return decodeExtendedKey(args).keyVersion
+}
+
+// Re-encodes an extended key of any known version, public or private, with
+// the prefix of the new purpose type
+export function convertExtendedKey(args: ConvertExtendedKeyArgs): string {
+  const { node } = decodeExtendedKey(args)
+  node.network = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin,
+    sigType: args.newType
+  })
+  return node.toBase58()
+}
+
+function paymentCodeNode(args: PaymentCodeArgs): bip32.BIP32Interface {
+  const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin,
+    sigType: BIP43PurposeTypeEnum.PaymentCode
+  })
+  const coin = getCoinFromString(args.coin)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  return bip32FromBase58Func(args.xpriv, network)
+}
+
+// the private key of the notification address, the first child of the node
+function paymentCodeNotificationPrivateKey(args: PaymentCodeArgs): Buffer {
+  const { privateKey } = paymentCodeNode(args).derive(0)
+  if (typeof privateKey === 'undefined') {
+    throw new Error('Payment codes need the private key of the wallet')
+  }
+  return privateKey
+}
+
+// spends the outputs notification transactions leave at the notification address
+export function xprivToNotificationPrivateKey(args: PaymentCodeArgs): string {
+  return paymentCodeNotificationPrivateKey(args).toString('hex')
+}
+
+export function xprivToPaymentCode(args: PaymentCodeArgs): string {
+  const { publicKey, chainCode } = paymentCodeNode(args)
+  return encodePaymentCode({ publicKey, chainCode })
+}
+
+// the public key of the p2pkh notification address of a payment code
+export function paymentCodeToNotificationPubkey(paymentCode: string): string {
+  return paymentCodeChildPubkey(decodePaymentCode(paymentCode), 0).toString(
+    'hex'
+  )
+}
+
+// the public key of the payment at the index to the other party
+export function paymentCodeToSendPubkey(args: PaymentCodeAddressArgs): string {
+  return paymentCodeSendPubkey({
+    privateKey: paymentCodeNotificationPrivateKey(args),
+    recipient: decodePaymentCode(args.paymentCode),
+    index: args.index
+  }).toString('hex')
+}
+
+// the private key of the payment at the index from the other party
+export function paymentCodeToReceivePrivateKey(
+  args: PaymentCodeAddressArgs
+): string {
+  const { privateKey } = paymentCodeNode(args).derive(args.index)
+  if (typeof privateKey === 'undefined') {
+    throw new Error('Payment codes need the private key of the wallet')
+  }
+  return paymentCodeReceivePrivateKey({
+    privateKey,
+    sender: decodePaymentCode(args.paymentCode)
+  }).toString('hex')
+}
+
+export function paymentCodeToReceivePubkey(
+  args: PaymentCodeAddressArgs
+): string {
+  const pubkey = ecc.pointFromScalar(
+    Buffer.from(paymentCodeToReceivePrivateKey(args), 'hex'),
+    true
+  )
+  if (pubkey == null) throw new Error('Invalid payment code private key')
+  return pubkey.toString('hex')
+}
+
+// the OP_RETURN script pubkey telling the recipient the payment code of the
+// wallet, which must follow the notification address output
+export function paymentCodeNotificationScript(
+  args: PaymentCodeNotificationArgs
+): string {
+  const { publicKey, chainCode } = paymentCodeNode(args)
+  return notificationScript({
+    sender: { publicKey, chainCode },
+    recipient: decodePaymentCode(args.paymentCode),
+    privateKey: Buffer.from(args.privateKey, 'hex'),
+    outpoint: { txid: args.txid, vout: args.vout }
+  }).toString('hex')
+}
+
+// the payment code of the sender of a notification transaction to the
+// wallet, or undefined if the transaction does not notify the wallet
+export function parsePaymentCodeNotification(
+  args: ParsePaymentCodeNotificationArgs
+): string | undefined {
+  const key = parseNotificationTransaction({
+    tx: bitcoin.Transaction.fromHex(args.txHex),
+    privateKey: paymentCodeNotificationPrivateKey(args)
+  })
+  if (key != null) return encodePaymentCode(key)
+}
+
+// the hrp of silent payment addresses, which is shared by the test networks
+// apart from regtest
+function silentPaymentPrefix(network: NetworkEnum): string {
+  switch (network) {
+    case NetworkEnum.Mainnet:
+      return 'sp'
+    case NetworkEnum.Regtest:
+      return 'sprt'
+    default:
+      return 'tsp'
+  }
+}
+
+// the scan key at 1'/0 and the spend key at 0'/0 of the bip352 account
+function silentPaymentPrivateKeys(
+  args: SilentPaymentArgs
+): { scan: Buffer; spend: Buffer } {
+  const network: BitcoinJSNetwork = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin,
+    sigType: BIP43PurposeTypeEnum.SilentPayment
+  })
+  const coin = getCoinFromString(args.coin)
+  const bip32FromBase58Func = coin.bip32FromBase58Func ?? bip32.fromBase58
+  const node = bip32FromBase58Func(args.xpriv, network)
+  const scan = node.deriveHardened(1).derive(0).privateKey
+  const spend = node.deriveHardened(0).derive(0).privateKey
+  if (typeof scan === 'undefined' || typeof spend === 'undefined') {
+    throw new Error('Silent payments need the private key of the wallet')
+  }
+  return { scan, spend }
+}
+
+function privateKeyToPoint(privateKey: Buffer): Buffer {
+  const pubkey = ecc.pointFromScalar(privateKey, true)
+  if (pubkey == null) throw new Error('Invalid private key')
+  return pubkey
+}
+
+export function xprivToSilentPaymentAddress(args: SilentPaymentArgs): string {
+  const { scan, spend } = silentPaymentPrivateKeys(args)
+  return encodeSilentPaymentAddress(
+    {
+      scanPubkey: privateKeyToPoint(scan),
+      spendPubkey: privateKeyToPoint(spend)
+    },
+    silentPaymentPrefix(args.network)
+  )
+}
+
+export function isSilentPaymentAddress(
+  args: IsSilentPaymentAddressArgs
+): boolean {
+  try {
+    decodeSilentPaymentAddress(args.address, silentPaymentPrefix(args.network))
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+// taproot inputs count with the private key of their output key
+function silentPaymentInputPrivateKey(input: SilentPaymentInputArgs): Buffer {
+  const privateKey = Buffer.from(input.privateKey, 'hex')
+  return input.scriptType === ScriptTypeEnum.p2tr
+    ? taprootOutputPrivateKey(
+        privateKey,
+        Buffer.from(input.scriptPubkey, 'hex')
+      )
+    : privateKey
+}
+
+// The taproot script pubkeys paying the silent payment addresses, whose keys
+// are derived from the private keys of the inputs. Inputs that are not spent
+// with a single key, such as multisig ones, are left out of the shared secret.
+export function silentPaymentOutputScripts(
+  args: SilentPaymentOutputScriptsArgs
+): string[] {
+  const prefix = silentPaymentPrefix(args.network)
+  const outputKeys = silentPaymentOutputKeys({
+    inputs: args.inputs.map(input => ({
+      privateKey: [
+        ScriptTypeEnum.p2pkh,
+        ScriptTypeEnum.p2wpkh,
+        ScriptTypeEnum.p2wpkhp2sh,
+        ScriptTypeEnum.p2tr
+      ].includes(input.scriptType)
+        ? silentPaymentInputPrivateKey(input)
+        : undefined,
+      taproot: input.scriptType === ScriptTypeEnum.p2tr,
+      txid: input.txid,
+      vout: input.vout
+    })),
+    recipients: args.addresses.map(address =>
+      decodeSilentPaymentAddress(address, prefix)
+    )
+  })
+  return outputKeys.map(program =>
+    witnessProgramToScriptPubkey({ version: 1, program }).toString('hex')
+  )
+}
+
+// the outputs of a transaction paying the wallet's silent payment address
+export function scanSilentPayments(
+  args: ScanSilentPaymentsArgs
+): SilentPaymentOutput[] {
+  const { scan, spend } = silentPaymentPrivateKeys(args)
+  return scanSilentPaymentTransaction({
+    tx: bitcoin.Transaction.fromHex(args.txHex),
+    prevoutScripts: args.prevoutScripts.map(script =>
+      typeof script === 'undefined' ? undefined : Buffer.from(script, 'hex')
+    ),
+    scanPrivateKey: scan,
+    spendPubkey: privateKeyToPoint(spend)
+  }).map(({ vout, tweak }) => ({ vout, tweak: tweak.toString('hex') }))
+}
+
+export function silentPaymentToPrivateKey(
+  args: SilentPaymentTweakArgs
+): string {
+  const { spend } = silentPaymentPrivateKeys(args)
+  return silentPaymentPrivateKey(
+    spend,
+    Buffer.from(args.tweak, 'hex')
+  ).toString('hex')
+}
+
+// Silent payment outputs pay the tweaked spend key itself, not a bip86
+// commitment to it
+export function silentPaymentToScriptPubkey(
+  args: SilentPaymentTweakArgs
+): string {
+  const { spend } = silentPaymentPrivateKeys(args)
+  const pubkey = silentPaymentPubkey(
+    privateKeyToPoint(spend),
+    Buffer.from(args.tweak, 'hex')
+  )
+  return witnessProgramToScriptPubkey({
+    version: 1,
+    program: toXOnly(pubkey)
+  }).toString('hex')
+}
+
 export function derivationLevelScriptHash(): number {
   // currently returns the derivation for an empty script template for a bitcoin cash
   // replay protection script (without key material)
@@ -570,6 +1260,11 @@ export function addressToScriptPubkey(args: AddressToScriptPubkeyArgs): string {
     case AddressTypeEnum.p2wsh:
       payment = bitcoin.payments.p2wsh
       break
+    case AddressTypeEnum.p2tr:
+    case AddressTypeEnum.witnessUnknown:
+      return witnessProgramToScriptPubkey(
+        segwitAddressDecode(args.address, network.bech32)
+      ).toString('hex')
     default:
       throw new Error('invalid address type in address to script pubkey')
   }
@@ -668,6 +1363,15 @@ export function scriptPubkeyToAddress(
     case AddressTypeEnum.p2wsh:
       payment = bitcoin.payments.p2wsh
       break
+    case AddressTypeEnum.p2tr:
+    case AddressTypeEnum.witnessUnknown: {
+      // bitcoinjs has no payments for witness v1+, so encode the program directly
+      const witnessAddress = segwitAddressEncode(
+        scriptPubkeyToWitnessProgram(Buffer.from(args.scriptPubkey, 'hex')),
+        network.bech32
+      )
+      return { address: witnessAddress, legacyAddress: witnessAddress }
+    }
     default:
       throw new Error('invalid address type in address to script pubkey')
   }
@@ -804,11 +1508,77 @@ export function pubkeyToScriptPubkey(
         throw new Error('failed converting pubkey to script pubkey')
       }
       return { scriptPubkey: payment.output.toString('hex') }
+    case ScriptTypeEnum.p2tr:
+      return {
+        scriptPubkey: witnessProgramToScriptPubkey({
+          version: 1,
+          program: tweakPublicKey(Buffer.from(args.pubkey, 'hex'))
+        }).toString('hex')
+      }
+    case ScriptTypeEnum.replayProtection:
+      return { scriptPubkey: cdsScriptTemplates.replayProtection(args.pubkey) }
+    case ScriptTypeEnum.replayProtectionP2SH:
+      return scriptPubkeyToP2SH({
+        scriptPubkey: cdsScriptTemplates.replayProtection(args.pubkey)
+      })
     default:
       throw new Error('invalid address type in pubkey to script pubkey')
   }
 }
 
+// Sorts the pubkeys as described in bip67, so that every cosigner derives the
+// same script regardless of the order the xpubs were shared in
+export function multisigToScriptPubkey(
+  args: MultisigToScriptPubkeyArgs
+): PubkeyToScriptPubkeyReturn {
+  const { pubkeys, threshold } = args
+  if (threshold < 1 || threshold > pubkeys.length) {
+    throw new Error('invalid multisig threshold')
+  }
+  const multisig = bitcoin.payments.p2ms({
+    m: threshold,
+    pubkeys: pubkeys
+      .map(pubkey => Buffer.from(pubkey, 'hex'))
+      .sort(Buffer.compare)
+  }).output
+  if (typeof multisig === 'undefined') {
+    throw new Error('failed converting pubkeys to multisig script')
+  }
+  let payment: bitcoin.payments.Payment
+  switch (args.scriptType) {
+    case ScriptTypeEnum.p2sh:
+      payment = bitcoin.payments.p2sh({ redeem: { output: multisig } })
+      if (typeof payment.output === 'undefined') {
+        throw new Error('failed converting pubkeys to script pubkey')
+      }
+      return {
+        scriptPubkey: payment.output.toString('hex'),
+        redeemScript: multisig.toString('hex')
+      }
+    case ScriptTypeEnum.p2wsh:
+      payment = bitcoin.payments.p2wsh({ redeem: { output: multisig } })
+      if (typeof payment.output === 'undefined') {
+        throw new Error('failed converting pubkeys to script pubkey')
+      }
+      return {
+        scriptPubkey: payment.output.toString('hex'),
+        witnessScript: multisig.toString('hex')
+      }
+    case ScriptTypeEnum.p2wshp2sh:
+      return {
+        ...scriptPubkeyToP2SH({
+          scriptPubkey: multisigToScriptPubkey({
+            ...args,
+            scriptType: ScriptTypeEnum.p2wsh
+          }).scriptPubkey
+        }),
+        witnessScript: multisig.toString('hex')
+      }
+    default:
+      throw new Error('invalid address type in multisig to script pubkey')
+  }
+}
+
 export function xprivToPrivateKey(args: XPrivToPrivateKeyArgs): string {
   const network: BitcoinJSNetwork = bip32NetworkFromCoin({
     networkType: args.network,
@@ -863,6 +1633,136 @@ export function privateKeyToPubkey(privateKey: string): string {
   ).publicKey.toString('hex')
 }
 
+// compact signature header bytes, as defined by bip137
+const COMPACT_HEADER_UNCOMPRESSED = 27
+const COMPACT_HEADER_P2PKH = 31
+const COMPACT_HEADER_P2WPKHP2SH = 35
+const COMPACT_HEADER_P2WPKH = 39
+
+interface MessageAddress {
+  addressType: AddressTypeEnum
+  scriptPubkey: Buffer
+}
+
+function messageAddress(args: {
+  address: string
+  network: NetworkEnum
+  coin: string
+}): MessageAddress {
+  const legacy = verifyAddress(args) === VerifyAddressEnum.legacy
+  const addressType = guessAddressTypeFromAddress(
+    args.address,
+    bip32NetworkFromCoin({
+      networkType: args.network,
+      coinString: args.coin,
+      legacy
+    }),
+    args.coin,
+    undefined
+  )
+  const scriptPubkey = addressToScriptPubkey({ ...args, addressType, legacy })
+  return { addressType, scriptPubkey: Buffer.from(scriptPubkey, 'hex') }
+}
+
+function messageHash(args: {
+  message: string
+  network: NetworkEnum
+  coin: string
+}): Buffer {
+  const coin = getCoinFromString(args.coin)
+  const { messagePrefix } = bip32NetworkFromCoin({
+    networkType: args.network,
+    coinString: args.coin
+  })
+  return magicHash(args.message, messagePrefix, coin.sighashFunction)
+}
+
+// Signs with a compact signature for legacy and wrapped segwit addresses,
+// native segwit and taproot addresses get a bip322 simple signature instead
+export function signMessage(args: SignMessageArgs): string {
+  const { addressType, scriptPubkey } = messageAddress(args)
+  const privateKey = Buffer.from(args.privateKey, 'hex')
+  let header: number
+  switch (addressType) {
+    case AddressTypeEnum.p2pkh:
+      header = COMPACT_HEADER_P2PKH
+      break
+    case AddressTypeEnum.p2sh:
+      header = COMPACT_HEADER_P2WPKHP2SH
+      break
+    case AddressTypeEnum.p2wpkh:
+    case AddressTypeEnum.p2tr:
+      return bip322SignSimple(args.message, scriptPubkey, privateKey).toString(
+        'base64'
+      )
+    default:
+      throw new Error(`Cannot sign messages for ${addressType} addresses`)
+  }
+  const { signature, recoveryId } = signRecoverable(
+    messageHash(args),
+    privateKey
+  )
+  return Buffer.concat([
+    Buffer.from([header + recoveryId]),
+    signature
+  ]).toString('base64')
+}
+
+export function verifyMessage(args: VerifyMessageArgs): boolean {
+  let messageAddressInfo: MessageAddress
+  try {
+    messageAddressInfo = messageAddress(args)
+  } catch (e) {
+    return false
+  }
+  const { addressType, scriptPubkey } = messageAddressInfo
+  const signature = Buffer.from(args.signature, 'base64')
+
+  // compact signatures are 65 bytes, which no bip322 witness stack can be
+  const header = signature[0]
+  if (
+    signature.length === 65 &&
+    header >= COMPACT_HEADER_UNCOMPRESSED &&
+    header < COMPACT_HEADER_P2WPKH + 4
+  ) {
+    // wallets disagree on the header of segwit addresses, so only the
+    // compression flag is taken from it
+    const compressed = header >= COMPACT_HEADER_P2PKH
+    const pubkey = recoverPubkey(
+      messageHash(args),
+      signature.slice(1),
+      (header - COMPACT_HEADER_UNCOMPRESSED) % 4,
+      compressed
+    )
+    if (pubkey == null) return false
+    let scriptType: ScriptTypeEnum
+    switch (addressType) {
+      case AddressTypeEnum.p2pkh:
+        scriptType = ScriptTypeEnum.p2pkh
+        break
+      case AddressTypeEnum.p2sh:
+        scriptType = ScriptTypeEnum.p2wpkhp2sh
+        break
+      case AddressTypeEnum.p2wpkh:
+        scriptType = ScriptTypeEnum.p2wpkh
+        break
+      default:
+        return false
+    }
+    if (scriptType !== ScriptTypeEnum.p2pkh && !compressed) return false
+    return (
+      pubkeyToScriptPubkey({ pubkey: pubkey.toString('hex'), scriptType })
+        .scriptPubkey === scriptPubkey.toString('hex')
+    )
+  }
+
+  try {
+    return bip322VerifySimple(args.message, scriptPubkey, signature)
+  } catch (e) {
+    return false
+  }
+}
+
 // Electrum uses the hash of the script pubkey to discover balances and transactions
 export function scriptPubkeyToElectrumScriptHash(scriptPubkey: string): string {
   return Buffer.from(
@@ -870,6 +1770,83 @@ export function scriptPubkeyToElectrumScriptHash(scriptPubkey: string): string {
   ).toString('hex')
 }
 
+// the picker input spending the utxo
+function utxoToInput(
+  utxo: IUTXO,
+  coin: Coin,
+  sequence: number,
+  sighashType: number
+): utxopicker.UTXO {
+  const input: utxopicker.UTXO = {
+    hash: Buffer.from(utxo.txid, 'hex').reverse(),
+    index: utxo.vout,
+    value: parseInt(utxo.value),
+    script: Buffer.from(utxo.script, 'hex'),
+    scriptType: utxo.scriptType,
+    sequence
+  }
+  // taproot inputs sign with SIGHASH_DEFAULT, which is left out of the psbt
+  if (utxo.scriptType !== ScriptTypeEnum.p2tr) {
+    input.sighashType = sighashType
+  }
+  if (
+    coin.schnorrSignatures === true &&
+    (utxo.scriptType === ScriptTypeEnum.p2pkh ||
+      utxo.scriptType === ScriptTypeEnum.replayProtectionP2SH)
+  ) {
+    input.schnorr = true
+  }
+  if (typeof coin.zcash !== 'undefined') {
+    // the psbt cannot parse zcash transactions, so it only carries the
+    // spent output of the previous transaction
+    input.witnessUtxo = zcashTxOutput(utxo.script, utxo.vout)
+  } else if (coin.decred === true) {
+    input.witnessUtxo = decredTxOutput(utxo.script, utxo.vout)
+  } else if (
+    utxo.scriptType === ScriptTypeEnum.p2pkh ||
+    utxo.scriptType === ScriptTypeEnum.p2sh ||
+    utxo.scriptType === ScriptTypeEnum.replayProtectionP2SH
+  ) {
+    input.nonWitnessUtxo = input.script
+  } else {
+    input.witnessUtxo = {
+      script: input.script,
+      value: parseInt(utxo.value)
+    }
+  }
+  if (typeof utxo.redeemScript !== 'undefined') {
+    input.redeemScript = Buffer.from(utxo.redeemScript, 'hex')
+  }
+  if (typeof utxo.witnessScript !== 'undefined') {
+    input.witnessScript = Buffer.from(utxo.witnessScript, 'hex')
+  }
+  return input
+}
+
+function makeTxTargets(
+  targets: MakeTxTarget[],
+  coin: Coin,
+  network: NetworkEnum
+): utxopicker.Target[] {
+  return targets.map(target => {
+    if (typeof target.address === 'undefined') {
+      if (typeof target.script === 'undefined') {
+        throw new Error('Invalid spend target')
+      }
+      return { script: target.script, value: target.value }
+    }
+    const script = addressToScriptPubkey({
+      address: target.address,
+      coin: coin.name,
+      network
+    })
+    return {
+      script,
+      value: target.value
+    }
+  })
+}
+
 export async function makeTx(args: MakeTxArgs): Promise<MakeTxReturn> {
   let sequence = 0xffffffff
   if (args.setRBF) {
@@ -896,27 +1873,7 @@ export async function makeTx(args: MakeTxArgs): Promise<MakeTxReturn> {
   for (const utxo of uniqueUtxos) {
     // Cannot use a utxo without a script
     if (typeof utxo.script === 'undefined') continue
-    const input: utxopicker.UTXO = {
-      hash: Buffer.from(utxo.txid, 'hex').reverse(),
-      index: utxo.vout,
-      value: parseInt(utxo.value),
-      script: Buffer.from(utxo.script, 'hex'),
-      scriptType: utxo.scriptType,
-      sequence,
-      sighashType
-    }
-    if (utxo.scriptType === ScriptTypeEnum.p2pkh) {
-      input.nonWitnessUtxo = input.script
-    } else {
-      input.witnessUtxo = {
-        script: input.script,
-        value: parseInt(utxo.value)
-      }
-
-      if (typeof utxo.redeemScript !== 'undefined') {
-        input.redeemScript = Buffer.from(utxo.redeemScript, 'hex')
-      }
-    }
+    const input = utxoToInput(utxo, coin, sequence, sighashType)
     let forceUsage = false
     for (const forceUtxo of args.forceUseUtxo) {
       if (forceUtxo.id === utxo.id) {
@@ -927,35 +1884,46 @@ export async function makeTx(args: MakeTxArgs): Promise<MakeTxReturn> {
     if (!forceUsage) mappedUtxos.push(input)
   }
 
-  const targets: utxopicker.Target[] = args.targets.map(target => {
-    const script = addressToScriptPubkey({
-      address: target.address,
-      coin: coin.name,
-      network: args.network
-    })
-    return {
-      script,
-      value: target.value
-    }
-  })
+  const targets = makeTxTargets(args.targets, coin, args.network)
   const changeScript = addressToScriptPubkey({
     address: args.freshChangeAddress,
     coin: coin.name,
     network: args.network
   })
-  const utxopicking =
-    args.forceUseUtxo != null ?? false
-      ? utxopicker.forceUseUtxo
-      : args.subtractFee ?? false
-      ? utxopicker.subtractFee
-      : utxopicker.accumulative
-  const result = utxopicking({
+  const pickerArgs: utxopicker.UtxoPickerArgs = {
     utxos: mappedUtxos,
     useUtxos,
     targets,
     feeRate: args.feeRate,
-    changeScript
-  })
+    changeScript,
+    sizeEstimator: coin.sizeEstimator
+  }
+  let result: utxopicker.Result
+  if (useUtxos.length > 0) {
+    result = utxopicker.forceUseUtxo(pickerArgs)
+  } else if (args.subtractFee ?? false) {
+    result = utxopicker.subtractFee(pickerArgs)
+  } else {
+    // prefer a transaction without change, unless the fee it wastes is more
+    // than a change output would cost
+    const costOfChange = utxopicker.costOfChange(pickerArgs)
+    const [changeless, accumulated] = [
+      utxopicker.branchAndBound(pickerArgs),
+      utxopicker.accumulative(pickerArgs)
+    ].map(candidate => ({
+      result: candidate,
+      waste: utxopicker.waste(
+        candidate,
+        args.feeRate,
+        costOfChange,
+        coin.sizeEstimator
+      )
+    }))
+    result =
+      changeless.waste <= accumulated.waste
+        ? changeless.result
+        : accumulated.result
+  }
   if (result.inputs == null || result.outputs == null) {
     throw new InsufficientFundsError(args.coin)
   }
@@ -973,14 +1941,44 @@ export async function makeTx(args: MakeTxArgs): Promise<MakeTxReturn> {
   }
 }
 
+// The largest value of the first target that makeTx pays for with the
+// utxos, so that spending it never runs out of funds
+export function maxSpendable(args: MaxSpendableArgs): number {
+  const coin = getCoinFromString(args.coin)
+  const sighashType = coin.sighash ?? bitcoin.Transaction.SIGHASH_ALL
+  const forceIds = new Set(args.forceUseUtxo.map(({ id }) => id))
+  const toInputs = (utxos: IUTXO[]): utxopicker.UTXO[] =>
+    utxos
+      // Cannot use a utxo without a script
+      .filter(utxo => typeof utxo.script !== 'undefined')
+      .map(utxo => utxoToInput(utxo, coin, 0xffffffff, sighashType))
+  return utxopicker.maxSpendable({
+    utxos: toInputs(args.utxos.filter(({ id }) => !forceIds.has(id))),
+    useUtxos: toInputs(args.forceUseUtxo),
+    targets: makeTxTargets(args.targets, coin, args.network),
+    feeRate: args.feeRate,
+    sizeEstimator: coin.sizeEstimator
+  })
+}
+
+// an input of the script type, which is all the size estimate depends on
+const sizeInput = (scriptType: ScriptTypeEnum): utxopicker.UTXO => ({
+  hash: Buffer.alloc(32),
+  index: 0,
+  value: 0,
+  script: Buffer.alloc(0),
+  scriptType
+})
+
 export function createTx(args: CreateTxArgs): CreateTxReturn {
   const psbt = new bitcoin.Psbt()
   let sequence = 0xffffffff
   if (args.rbf) {
     sequence -= 2
   }
-  let segwit = false
-  let txVSize = 0
+  // the inputs and outputs the virtual size is estimated for
+  const sizeInputs: utxopicker.UTXO[] = []
+  const sizeOutputs: utxopicker.Output[] = []
 
   // get coin specific replay protection sighhash bits
   let hashType = bitcoin.Transaction.SIGHASH_ALL
@@ -1008,7 +2006,7 @@ export function createTx(args: CreateTxArgs): CreateTxReturn {
           nonWitnessUtxo: Buffer.from(input.prevTx, 'hex'),
           sighashType: hashType
         })
-        txVSize += 148
+        sizeInputs.push(sizeInput(ScriptTypeEnum.p2pkh))
       } else {
         psbt.addInput({
           hash: input.prevTxid,
@@ -1019,11 +2017,16 @@ export function createTx(args: CreateTxArgs): CreateTxReturn {
           sighashType: hashType,
           redeemScript: Buffer.from(input.redeemScript, 'hex')
         })
-        // this is a conservative estimate of the cds bitcoin cash sig type
-        txVSize += 147
+        sizeInputs.push({
+          ...sizeInput(
+            isReplayProtectionScript(input.redeemScript)
+              ? ScriptTypeEnum.replayProtectionP2SH
+              : ScriptTypeEnum.p2sh
+          ),
+          redeemScript: Buffer.from(input.redeemScript, 'hex')
+        })
       }
     } else {
-      segwit = true
       if (
         typeof input.prevScriptPubkey === 'undefined' ||
         typeof input.value === 'undefined'
@@ -1046,8 +2049,7 @@ export function createTx(args: CreateTxArgs): CreateTxReturn {
           // by default this is SIGHASH_ALL, but can also be the tweaked sighash values for BCH and BTG
           sighashType: hashType
         })
-        // weight for p2pkh input
-        txVSize += 67.75
+        sizeInputs.push(sizeInput(ScriptTypeEnum.p2wpkh))
         continue
       }
 
@@ -1062,41 +2064,257 @@ export function createTx(args: CreateTxArgs): CreateTxReturn {
         },
         redeemScript: Buffer.from(input.redeemScript, 'hex')
       })
-      // weight for pwpkhp2sh input
-      txVSize += 91
+      sizeInputs.push(sizeInput(ScriptTypeEnum.p2wpkhp2sh))
     }
   }
   for (let i = 0; i < args.outputs.length; i++) {
-    psbt.addOutput({
-      script: Buffer.from(args.outputs[i].scriptPubkey, 'hex'),
-      value: args.outputs[i].amount
-    })
-    if (args.outputs[i].scriptPubkey.length === 50) {
-      // p2pkh output
-      txVSize += 34
-    } else if (args.outputs[i].scriptPubkey.length === 46) {
-      txVSize += 32
-    } else if (args.outputs[i].scriptPubkey.length === 44) {
-      txVSize += 31
+    const script = Buffer.from(args.outputs[i].scriptPubkey, 'hex')
+    psbt.addOutput({ script, value: args.outputs[i].amount })
+    sizeOutputs.push({ script, value: args.outputs[i].amount })
+  }
+  return {
+    psbt: psbt.toBase64(),
+    vSize: utxopicker.transactionBytes(sizeInputs, sizeOutputs)
+  }
+}
+
+// returns the script and value of every output spent by the psbt,
+// or undefined for inputs that carry neither a witness nor a full previous tx
+function psbtPrevOuts(
+  psbt: bitcoin.Psbt
+): Array<{ script: Buffer; value: number } | undefined> {
+  const tx = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  )
+  return psbt.data.inputs.map((input, i) => {
+    if (typeof input.witnessUtxo !== 'undefined') {
+      return input.witnessUtxo
     }
+    if (typeof input.nonWitnessUtxo !== 'undefined') {
+      return bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo).outs[
+        tx.ins[i].index
+      ]
+    }
+    return undefined
+  })
+}
+
+function isTaprootScript(script: Buffer): boolean {
+  try {
+    const { version, program } = scriptPubkeyToWitnessProgram(script)
+    return version === 1 && program.length === 32
+  } catch (e) {
+    return false
   }
-  if (segwit) {
-    // segwit adds an additional 0.5 for the segwit transaction type flag and 0.25 for the number of witness elements
-    txVSize += 10.75
-  } else {
-    txVSize += 10
+}
+
+function isTaprootInput(psbt: bitcoin.Psbt, index: number): boolean {
+  const witnessUtxo = psbt.data.inputs[index].witnessUtxo
+  if (typeof witnessUtxo === 'undefined') return false
+  return isTaprootScript(witnessUtxo.script)
+}
+
+function isFinalizedInput(psbt: bitcoin.Psbt, index: number): boolean {
+  const input = psbt.data.inputs[index]
+  return (
+    typeof input.finalScriptSig !== 'undefined' ||
+    typeof input.finalScriptWitness !== 'undefined'
+  )
+}
+
+// The private key of the output key of a taproot output. Silent payment
+// outputs pay the untweaked key of their private key, bip86 outputs commit
+// to it with the TapTweak.
+function taprootOutputPrivateKey(
+  privateKey: Buffer,
+  prevoutScript: Buffer
+): Buffer {
+  const { program } = scriptPubkeyToWitnessProgram(prevoutScript)
+  return toXOnly(privateKeyToPoint(privateKey)).equals(program)
+    ? privateKey
+    : tweakPrivateKey(privateKey)
+}
+
+// Taproot signatures commit to the scripts and values of every spent output
+// and are produced with the tweaked key, neither of which the psbt signer
+// supports, so the key path witness is built and finalized here.
+function signTaprootInput(
+  psbt: bitcoin.Psbt,
+  index: number,
+  privateKey: Buffer
+): void {
+  const tx = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  )
+  const prevoutScripts: Buffer[] = []
+  const values: number[] = []
+  for (const prevOut of psbtPrevOuts(psbt)) {
+    if (typeof prevOut === 'undefined') {
+      throw new Error('taproot signing requires every spent output')
+    }
+    prevoutScripts.push(prevOut.script)
+    values.push(prevOut.value)
+  }
+  const hashType = psbt.data.inputs[index].sighashType ?? SIGHASH_DEFAULT
+  const hash = taprootSighash(tx, index, prevoutScripts, values, hashType)
+  let signature = schnorrSign(
+    hash,
+    taprootOutputPrivateKey(privateKey, prevoutScripts[index])
+  )
+  if (hashType !== SIGHASH_DEFAULT) {
+    signature = Buffer.concat([signature, Buffer.from([hashType])])
+  }
+  psbt.updateInput(index, { finalScriptWitness: keyPathWitness(signature) })
+}
+
+function isP2pkhInput(psbt: bitcoin.Psbt, index: number): boolean {
+  const prevOut = psbtPrevOuts(psbt)[index]
+  if (typeof prevOut === 'undefined') return false
+  try {
+    bitcoin.payments.p2pkh({ output: prevOut.script })
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+// The psbt signer only produces ECDSA signatures, so the script sig of p2pkh
+// inputs signed with Bitcoin Cash schnorr signatures is built and finalized
+// here. The signature commits to the same sighash as an ECDSA one.
+function signSchnorrInput(
+  psbt: bitcoin.Psbt,
+  index: number,
+  privateKey: Buffer
+): void {
+  const prevOut = psbtPrevOuts(psbt)[index]
+  if (typeof prevOut === 'undefined') {
+    throw new Error('schnorr signing requires the spent output')
   }
-  // round up to the nearest whole number to avoid too low fees
-  txVSize = Math.ceil(txVSize)
-  return { psbt: psbt.toBase64(), vSize: txVSize }
+  const tx = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  )
+  const hashType =
+    psbt.data.inputs[index].sighashType ?? bitcoin.Transaction.SIGHASH_ALL
+  const hash = tx.hashForCashSignature(
+    index,
+    prevOut.script,
+    prevOut.value,
+    hashType
+  )
+  const signature = Buffer.concat([
+    bchSchnorrSign(hash, privateKey),
+    Buffer.from([hashType])
+  ])
+  psbt.updateInput(index, {
+    finalScriptSig: bitcoin.script.compile([
+      signature,
+      privateKeyToPoint(privateKey)
+    ])
+  })
+}
+
+function isReplayProtectionInput(psbt: bitcoin.Psbt, index: number): boolean {
+  const { redeemScript } = psbt.data.inputs[index]
+  return (
+    typeof redeemScript !== 'undefined' &&
+    isReplayProtectionScript(redeemScript.toString('hex'))
+  )
+}
+
+// Replay protected outputs check a fixed checkdatasig signature ahead of the
+// key, which the psbt finalizer does not know, so the script sig is built and
+// finalized here. It only holds the signature and the redeem script.
+function signReplayProtectionInput(
+  psbt: bitcoin.Psbt,
+  index: number,
+  privateKey: Buffer,
+  coin: Coin
+): void {
+  const prevOut = psbtPrevOuts(psbt)[index]
+  const { redeemScript, sighashType } = psbt.data.inputs[index]
+  if (typeof prevOut === 'undefined' || typeof redeemScript === 'undefined') {
+    throw new Error('replay protection signing requires the spent output')
+  }
+  const tx = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  )
+  const hashType = sighashType ?? bitcoin.Transaction.SIGHASH_ALL
+  const hash = tx.hashForCashSignature(
+    index,
+    redeemScript,
+    prevOut.value,
+    hashType
+  )
+  const signature =
+    coin.schnorrSignatures === true
+      ? Buffer.concat([
+          bchSchnorrSign(hash, privateKey),
+          Buffer.from([hashType])
+        ])
+      : bitcoin.script.signature.encode(ecc.sign(hash, privateKey), hashType)
+  psbt.updateInput(index, {
+    finalScriptSig: bitcoin.script.compile([signature, redeemScript])
+  })
+}
+
+// Adds a partial signature to the input, unless the key already signed it.
+// Returns whether a signature was added.
+function addPartialSignature(
+  psbt: bitcoin.Psbt,
+  index: number,
+  privateKey: Buffer,
+  sighashFunction?: (data: Buffer) => Buffer
+): boolean {
+  const keyPair = bitcoin.ECPair.fromPrivateKey(privateKey)
+  const partialSig = psbt.data.inputs[index].partialSig ?? []
+  if (partialSig.some(sig => sig.pubkey.equals(keyPair.publicKey))) {
+    return false
+  }
+  psbt.signInput(
+    index,
+    keyPair,
+    bitcoin.Psbt.DEFAULT_SIGHASHES,
+    sighashFunction
+  )
+  psbt.validateSignaturesOfInput(index)
+  return true
 }
 
 export async function signTx(args: SignTxArgs): Promise<SignTxReturn> {
   const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
   const coin = getCoinFromString(args.coin)
 
+  // coins with their own transaction format are signed outside of the psbt
+  if (typeof coin.zcash !== 'undefined' || coin.decred === true) {
+    const tx = bitcoin.Transaction.fromBuffer(
+      psbt.data.globalMap.unsignedTx.toBuffer()
+    )
+    const prevOuts = psbtPrevOuts(psbt).map(prevOut => {
+      if (typeof prevOut === 'undefined') {
+        throw new Error('signing requires every spent output')
+      }
+      return prevOut
+    })
+    const privateKeys = args.privateKeys.map(key => Buffer.from(key, 'hex'))
+    return typeof coin.zcash !== 'undefined'
+      ? signZcashTx({ tx, prevOuts, privateKeys, params: coin.zcash })
+      : signDecredTx({ tx, prevOuts, privateKeys })
+  }
+
   for (let i = 0; i < psbt.inputCount; i++) {
     const privateKey = Buffer.from(args.privateKeys[i], 'hex')
+    if (isTaprootInput(psbt, i)) {
+      signTaprootInput(psbt, i, privateKey)
+      continue
+    }
+    if (isReplayProtectionInput(psbt, i)) {
+      signReplayProtectionInput(psbt, i, privateKey, coin)
+      continue
+    }
+    if (coin.schnorrSignatures === true && isP2pkhInput(psbt, i)) {
+      signSchnorrInput(psbt, i, privateKey)
+      continue
+    }
     psbt.signInput(
       i,
       bitcoin.ECPair.fromPrivateKey(privateKey),
@@ -1120,3 +2338,137 @@ export async function signTx(args: SignTxArgs): Promise<SignTxReturn> {
     hex: tx.toHex()
   }
 }
+
+// Adds this cosigner's signatures without finalizing, so the psbt can be
+// passed on until the multisig threshold of every input is met
+export async function signMultisigPsbt(
+  args: SignTxArgs
+): Promise<SignMultisigPsbtReturn> {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const coin = getCoinFromString(args.coin)
+
+  for (let i = 0; i < psbt.inputCount; i++) {
+    addPartialSignature(
+      psbt,
+      i,
+      Buffer.from(args.privateKeys[i], 'hex'),
+      coin.sighashFunction
+    )
+  }
+
+  const complete = psbt.data.inputs.every(input => {
+    const script = input.witnessScript ?? input.redeemScript
+    if (typeof script === 'undefined') return false
+    const { m } = bitcoin.payments.p2ms({ output: script })
+    return (input.partialSig ?? []).length >= (m ?? Infinity)
+  })
+  return { psbtBase64: psbt.toBase64(), complete }
+}
+
+// Signs the inputs of a psbt from any source that a private key is given for.
+// Inputs that are already finalized or signed by the key are skipped, and
+// apart from taproot inputs nothing is finalized, so other signers can still
+// add their signatures.
+export async function signPsbt(args: SignPsbtArgs): Promise<SignPsbtReturn> {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const coin = getCoinFromString(args.coin)
+
+  const signedInputs: number[] = []
+  for (let i = 0; i < psbt.inputCount; i++) {
+    const privateKey = args.privateKeys[i]
+    if (typeof privateKey === 'undefined' || isFinalizedInput(psbt, i)) {
+      continue
+    }
+    if (isTaprootInput(psbt, i)) {
+      signTaprootInput(psbt, i, Buffer.from(privateKey, 'hex'))
+      signedInputs.push(i)
+      continue
+    }
+    if (
+      addPartialSignature(
+        psbt,
+        i,
+        Buffer.from(privateKey, 'hex'),
+        coin.sighashFunction
+      )
+    ) {
+      signedInputs.push(i)
+    }
+  }
+  return { psbtBase64: psbt.toBase64(), signedInputs }
+}
+
+// Merges the signatures and other fields of psbts for the same transaction
+export function combinePsbts(args: CombinePsbtsArgs): string {
+  const [first, ...rest] = args.psbtsBase64.map(psbtBase64 =>
+    bitcoin.Psbt.fromBase64(psbtBase64)
+  )
+  if (typeof first === 'undefined') {
+    throw new Error('No psbts to combine')
+  }
+  return first.combine(...rest).toBase64()
+}
+
+// Finalizes every input that is not finalized yet and extracts the transaction
+export async function finalizePsbt(
+  args: FinalizePsbtArgs
+): Promise<SignTxReturn> {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  for (let i = 0; i < psbt.inputCount; i++) {
+    if (!isFinalizedInput(psbt, i)) psbt.finalizeInput(i)
+  }
+  const tx = psbt.extractTransaction()
+  return {
+    id: tx.getId(),
+    hex: tx.toHex()
+  }
+}
+
+// Returns the script pubkey spent by every psbt input, so that a wallet can
+// look up which of the inputs it owns
+export function getPsbtInputScriptPubkeys(
+  args: PsbtInputScriptPubkeysArgs
+): Array<string | undefined> {
+  return psbtPrevOuts(bitcoin.Psbt.fromBase64(args.psbtBase64)).map(prevOut =>
+    prevOut?.script.toString('hex')
+  )
+}
+
+// Adds the key origins of the given inputs and outputs, so that hardware
+// wallets and other signers can find their keys. Taproot inputs and outputs
+// are skipped, since their derivations use separate psbt fields.
+export function addPsbtBip32Derivation(
+  args: AddPsbtBip32DerivationArgs
+): string {
+  const psbt = bitcoin.Psbt.fromBase64(args.psbtBase64)
+  const toPsbtDerivation = (
+    derivation: Bip32Derivation
+  ): { masterFingerprint: Buffer; path: string; pubkey: Buffer } => ({
+    masterFingerprint: Buffer.from(derivation.masterFingerprint, 'hex'),
+    path: derivation.path,
+    pubkey: Buffer.from(derivation.pubkey, 'hex')
+  })
+  const isKnownPubkey = (
+    existing: Array<{ pubkey: Buffer }> | undefined,
+    derivation: Bip32Derivation
+  ): boolean =>
+    (existing ?? []).some(
+      known => known.pubkey.toString('hex') === derivation.pubkey
+    )
+
+  args.inputs.forEach((derivation, i) => {
+    if (typeof derivation === 'undefined' || isTaprootInput(psbt, i)) return
+    if (isKnownPubkey(psbt.data.inputs[i].bip32Derivation, derivation)) return
+    psbt.updateInput(i, { bip32Derivation: [toPsbtDerivation(derivation)] })
+  })
+  const tx = bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  )
+  args.outputs.forEach((derivation, i) => {
+    if (typeof derivation === 'undefined' || isTaprootScript(tx.outs[i].script))
+      return
+    if (isKnownPubkey(psbt.data.outputs[i].bip32Derivation, derivation)) return
+    psbt.updateOutput(i, { bip32Derivation: [toPsbtDerivation(derivation)] })
+  })
+  return psbt.toBase64()
+}
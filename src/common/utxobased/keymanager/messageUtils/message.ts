@@ -0,0 +1,250 @@
+import * as bitcoin from 'altcoin-js'
+import BN from 'bn.js'
+import * as ecc from 'tiny-secp256k1'
+
+import {
+  CURVE_ORDER,
+  FIELD_SIZE,
+  toBuffer32
+} from '../secp256k1Utils/secp256k1'
+import { schnorrSign, schnorrVerify, taggedHash } from '../taprootUtils/schnorr'
+import {
+  encodeCompactSize,
+  encodeVarSlice,
+  SIGHASH_DEFAULT,
+  taprootSighash,
+  tweakPrivateKey
+} from '../taprootUtils/taproot'
+
+// Message signatures for wallet addresses. Legacy addresses use the compact
+// recoverable signatures of Bitcoin Core's signmessage, segwit addresses use
+// BIP322 simple signatures.
+// https://github.com/bitcoin/bips/blob/master/bip-0137.mediawiki
+// https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+
+export interface RecoverableSignature {
+  signature: Buffer // 64 byte r and s
+  recoveryId: number
+}
+
+// hashes a message the way signmessage does, the prefix already starts with its length
+export const magicHash = (
+  message: string,
+  messagePrefix: string,
+  hashFunction: (data: Buffer) => Buffer = bitcoin.crypto.hash256
+): Buffer =>
+  hashFunction(
+    Buffer.concat([
+      Buffer.from(messagePrefix, 'utf8'),
+      encodeVarSlice(Buffer.from(message, 'utf8'))
+    ])
+  )
+
+// Q = r^-1 (sR - eG), where R is the curve point with the x coordinate r
+export const recoverPubkey = (
+  hash: Buffer,
+  signature: Buffer,
+  recoveryId: number,
+  compressed = true
+): Buffer | null => {
+  if (signature.length !== 64 || recoveryId < 0 || recoveryId > 3) return null
+  const r = new BN(signature.slice(0, 32))
+  const s = new BN(signature.slice(32, 64))
+  if (r.isZero() || s.isZero() || r.gte(CURVE_ORDER) || s.gte(CURVE_ORDER)) {
+    return null
+  }
+  const x = recoveryId > 1 ? r.add(CURVE_ORDER) : r
+  if (x.gte(FIELD_SIZE)) return null
+  const R = Buffer.concat([
+    Buffer.from([0x02 | (recoveryId & 1)]),
+    toBuffer32(x)
+  ])
+  if (!ecc.isPoint(R)) return null
+
+  const rInv = r.invm(CURVE_ORDER)
+  const e = new BN(hash).umod(CURVE_ORDER)
+  const u1 = CURVE_ORDER.sub(e).mul(rInv).umod(CURVE_ORDER)
+  const u2 = s.mul(rInv).umod(CURVE_ORDER)
+  const u2R = ecc.pointMultiply(R, toBuffer32(u2), compressed)
+  if (u1.isZero()) return u2R
+  const u1G = ecc.pointFromScalar(toBuffer32(u1), compressed)
+  if (u1G == null || u2R == null) return null
+  return ecc.pointAdd(u1G, u2R, compressed)
+}
+
+export const signRecoverable = (
+  hash: Buffer,
+  privateKey: Buffer
+): RecoverableSignature => {
+  const publicKey = ecc.pointFromScalar(privateKey, true)
+  if (publicKey == null) {
+    throw new Error('Invalid private key')
+  }
+  const signature = ecc.sign(hash, privateKey)
+  for (let recoveryId = 0; recoveryId < 4; recoveryId++) {
+    const recovered = recoverPubkey(hash, signature, recoveryId)
+    if (recovered?.equals(publicKey) === true) {
+      return { signature, recoveryId }
+    }
+  }
+  throw new Error('Failed to find the signature recovery id')
+}
+
+export const bip322MessageHash = (message: string): Buffer =>
+  taggedHash('BIP0322-signed-message', Buffer.from(message, 'utf8'))
+
+// the virtual transaction paying to the address that signs the message
+const bip322ToSpend = (
+  scriptPubkey: Buffer,
+  message: string
+): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.version = 0
+  tx.addInput(
+    Buffer.alloc(32, 0),
+    0xffffffff,
+    0,
+    bitcoin.script.compile([bitcoin.opcodes.OP_0, bip322MessageHash(message)])
+  )
+  tx.addOutput(scriptPubkey, 0)
+  return tx
+}
+
+// the virtual transaction spending toSpend, whose witness is the signature
+const bip322ToSign = (
+  scriptPubkey: Buffer,
+  message: string
+): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.version = 0
+  tx.addInput(bip322ToSpend(scriptPubkey, message).getHash(), 0, 0)
+  tx.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN]), 0)
+  return tx
+}
+
+const p2wpkhSighash = (
+  tx: bitcoin.Transaction,
+  scriptPubkey: Buffer
+): Buffer => {
+  const scriptCode = bitcoin.payments.p2pkh({ hash: scriptPubkey.slice(2) })
+    .output
+  if (typeof scriptCode === 'undefined') {
+    throw new Error('Invalid p2wpkh script pubkey')
+  }
+  return tx.hashForWitnessV0(0, scriptCode, 0, bitcoin.Transaction.SIGHASH_ALL)
+}
+
+const isP2WPKH = (scriptPubkey: Buffer): boolean =>
+  scriptPubkey.length === 22 && scriptPubkey[0] === bitcoin.opcodes.OP_0
+
+const isP2TR = (scriptPubkey: Buffer): boolean =>
+  scriptPubkey.length === 34 && scriptPubkey[0] === bitcoin.opcodes.OP_1
+
+const encodeWitness = (witness: Buffer[]): Buffer =>
+  Buffer.concat([
+    encodeCompactSize(witness.length),
+    ...witness.map(encodeVarSlice)
+  ])
+
+const decodeWitness = (data: Buffer): Buffer[] => {
+  let offset = 0
+  const readCompactSize = (): number => {
+    const first = data.readUInt8(offset)
+    offset += 1
+    if (first < 0xfd) return first
+    if (first === 0xfd) {
+      offset += 2
+      return data.readUInt16LE(offset - 2)
+    }
+    if (first === 0xfe) {
+      offset += 4
+      return data.readUInt32LE(offset - 4)
+    }
+    throw new Error('Invalid witness encoding')
+  }
+  const witness: Buffer[] = []
+  const count = readCompactSize()
+  for (let i = 0; i < count; i++) {
+    const length = readCompactSize()
+    if (offset + length > data.length) {
+      throw new Error('Invalid witness encoding')
+    }
+    witness.push(data.slice(offset, offset + length))
+    offset += length
+  }
+  if (offset !== data.length) {
+    throw new Error('Invalid witness encoding')
+  }
+  return witness
+}
+
+// returns the serialized witness stack of the signing transaction
+export const bip322SignSimple = (
+  message: string,
+  scriptPubkey: Buffer,
+  privateKey: Buffer
+): Buffer => {
+  const tx = bip322ToSign(scriptPubkey, message)
+  if (isP2WPKH(scriptPubkey)) {
+    const publicKey = ecc.pointFromScalar(privateKey, true)
+    if (publicKey == null) {
+      throw new Error('Invalid private key')
+    }
+    const signature = bitcoin.script.signature.encode(
+      ecc.sign(p2wpkhSighash(tx, scriptPubkey), privateKey),
+      bitcoin.Transaction.SIGHASH_ALL
+    )
+    return encodeWitness([signature, publicKey])
+  }
+  if (isP2TR(scriptPubkey)) {
+    const hash = taprootSighash(tx, 0, [scriptPubkey], [0], SIGHASH_DEFAULT)
+    return encodeWitness([schnorrSign(hash, tweakPrivateKey(privateKey))])
+  }
+  throw new Error('BIP322 simple signatures require a p2wpkh or p2tr address')
+}
+
+export const bip322VerifySimple = (
+  message: string,
+  scriptPubkey: Buffer,
+  signature: Buffer
+): boolean => {
+  const tx = bip322ToSign(scriptPubkey, message)
+  const witness = decodeWitness(signature)
+  if (isP2WPKH(scriptPubkey)) {
+    if (witness.length !== 2) return false
+    const [encodedSignature, publicKey] = witness
+    if (
+      publicKey.length !== 33 ||
+      !bitcoin.crypto.hash160(publicKey).equals(scriptPubkey.slice(2))
+    ) {
+      return false
+    }
+    const decoded = bitcoin.script.signature.decode(encodedSignature)
+    if (decoded.hashType !== bitcoin.Transaction.SIGHASH_ALL) return false
+    return ecc.verify(
+      p2wpkhSighash(tx, scriptPubkey),
+      publicKey,
+      decoded.signature
+    )
+  }
+  if (isP2TR(scriptPubkey)) {
+    if (witness.length !== 1) return false
+    const [schnorrSignature] = witness
+    if (schnorrSignature.length !== 64 && schnorrSignature.length !== 65) {
+      return false
+    }
+    const hashType =
+      schnorrSignature.length === 65 ? schnorrSignature[64] : SIGHASH_DEFAULT
+    // an explicit hash type byte must not repeat the default
+    if (schnorrSignature.length === 65 && hashType === SIGHASH_DEFAULT) {
+      return false
+    }
+    const hash = taprootSighash(tx, 0, [scriptPubkey], [0], hashType)
+    return schnorrVerify(
+      hash,
+      scriptPubkey.slice(2),
+      schnorrSignature.slice(0, 64)
+    )
+  }
+  return false
+}
@@ -0,0 +1,15 @@
+import BN from 'bn.js'
+
+// Constants and helpers for the scalar arithmetic on secp256k1 the signature
+// schemes do with bn.js, next to the point operations of tiny-secp256k1
+
+export const CURVE_ORDER = new BN(
+  'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+  16
+)
+export const FIELD_SIZE = new BN(
+  'fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f',
+  16
+)
+
+export const toBuffer32 = (num: BN): Buffer => num.toArrayLike(Buffer, 'be', 32)
@@ -0,0 +1,314 @@
+import * as bitcoin from 'altcoin-js'
+import { bech32m } from 'bech32'
+import * as ecc from 'tiny-secp256k1'
+
+import {
+  evenYPrivateKey,
+  liftX,
+  taggedHash,
+  toXOnly
+} from '../taprootUtils/schnorr'
+import { scriptPubkeyToWitnessProgram } from '../taprootUtils/taproot'
+
+// Silent payments (BIP352), version 0 addresses without labels
+// https://github.com/bitcoin/bips/blob/master/bip-0352.mediawiki
+
+const SILENT_PAYMENT_VERSION = 0
+const RESERVED_VERSION = 31
+const KEYS_SIZE = 66
+// silent payment addresses are longer than the 90 characters bech32m allows
+const ADDRESS_LIMIT = 1023
+// the internal key of taproot outputs without a key path
+const NUMS_KEY = Buffer.from(
+  '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+  'hex'
+)
+const ANNEX_TAG = 0x50
+
+export interface SilentPaymentKeys {
+  scanPubkey: Buffer
+  spendPubkey: Buffer
+}
+
+export interface SilentPaymentInput {
+  // the key of the output key for taproot inputs, which is the tweaked key
+  // for bip86 outputs, or left out for inputs that are not eligible
+  privateKey?: Buffer
+  taproot: boolean
+  txid: string
+  vout: number
+}
+
+export interface SilentPaymentOutput {
+  vout: number
+  tweak: Buffer // added to the spend key to spend the output
+}
+
+export const encodeSilentPaymentAddress = (
+  keys: SilentPaymentKeys,
+  prefix: string
+): string =>
+  bech32m.encode(
+    prefix,
+    [
+      SILENT_PAYMENT_VERSION,
+      ...bech32m.toWords(Buffer.concat([keys.scanPubkey, keys.spendPubkey]))
+    ],
+    ADDRESS_LIMIT
+  )
+
+export const decodeSilentPaymentAddress = (
+  address: string,
+  prefix: string
+): SilentPaymentKeys => {
+  const decoded = bech32m.decode(address, ADDRESS_LIMIT)
+  if (decoded.prefix !== prefix) {
+    throw new Error('Invalid silent payment address prefix')
+  }
+  const [version, ...words] = decoded.words
+  const data = Buffer.from(bech32m.fromWords(words))
+  // later versions may append data to the keys, except for the reserved one
+  if (
+    version === RESERVED_VERSION ||
+    (version === SILENT_PAYMENT_VERSION
+      ? data.length !== KEYS_SIZE
+      : data.length < KEYS_SIZE)
+  ) {
+    throw new Error('Invalid silent payment address')
+  }
+  const scanPubkey = data.slice(0, 33)
+  const spendPubkey = data.slice(33, KEYS_SIZE)
+  if (!ecc.isPoint(scanPubkey) || !ecc.isPoint(spendPubkey)) {
+    throw new Error('Invalid silent payment address')
+  }
+  return { scanPubkey, spendPubkey }
+}
+
+const serializeOutpoint = (txid: Buffer, vout: number): Buffer => {
+  const buffer = Buffer.alloc(36)
+  txid.copy(buffer, 0)
+  buffer.writeUInt32LE(vout, 32)
+  return buffer
+}
+
+// commits the shared secrets to the smallest outpoint of the transaction
+const inputHash = (outpoints: Buffer[], sumPubkey: Buffer): Buffer => {
+  const smallest = outpoints.reduce((a, b) =>
+    Buffer.compare(a, b) <= 0 ? a : b
+  )
+  const hash = taggedHash(
+    'BIP0352/Inputs',
+    Buffer.concat([smallest, sumPubkey])
+  )
+  if (!ecc.isPrivate(hash)) {
+    throw new Error('Invalid silent payment input hash')
+  }
+  return hash
+}
+
+const multiply = (point: Buffer, ...scalars: Buffer[]): Buffer =>
+  scalars.reduce((result, scalar) => {
+    const product = ecc.pointMultiply(result, scalar, true)
+    if (product == null) {
+      throw new Error('Invalid silent payment shared secret')
+    }
+    return product
+  }, point)
+
+// the x-only key of the k-th output paid with a shared secret, and the
+// tweak the spend key takes to pay it
+const outputKey = (
+  spendPubkey: Buffer,
+  sharedSecret: Buffer,
+  k: number
+): { key: Buffer; tweak: Buffer } => {
+  const index = Buffer.alloc(4)
+  index.writeUInt32BE(k, 0)
+  const tweak = taggedHash(
+    'BIP0352/SharedSecret',
+    Buffer.concat([sharedSecret, index])
+  )
+  const key = ecc.isPrivate(tweak)
+    ? ecc.pointAddScalar(spendPubkey, tweak, true)
+    : null
+  if (key == null) {
+    throw new Error('Invalid silent payment shared secret')
+  }
+  return { key: toXOnly(key), tweak }
+}
+
+// The sender pays P = B_spend + t_k·G, with t_k derived from the ECDH of the
+// sum of the eligible input keys and B_scan. Returns the x-only output key of
+// every recipient, numbering the outputs to the same scan key.
+export const silentPaymentOutputKeys = (args: {
+  inputs: SilentPaymentInput[]
+  recipients: SilentPaymentKeys[]
+}): Buffer[] => {
+  let sum: Buffer | null | undefined
+  for (const input of args.inputs) {
+    if (input.privateKey == null) continue
+    // taproot outputs commit to the key with the even y coordinate
+    const privateKey = input.taproot
+      ? evenYPrivateKey(input.privateKey)
+      : input.privateKey
+    sum = sum == null ? privateKey : ecc.privateAdd(sum, privateKey)
+    if (sum == null) {
+      throw new Error('Silent payment input keys cancel out')
+    }
+  }
+  if (sum == null) {
+    throw new Error('Silent payments need an input with a single key')
+  }
+  const sumPrivateKey = sum
+  const sumPubkey = ecc.pointFromScalar(sumPrivateKey, true)
+  if (sumPubkey == null) throw new Error('Invalid private key')
+  const hash = inputHash(
+    args.inputs.map(input =>
+      serializeOutpoint(Buffer.from(input.txid, 'hex').reverse(), input.vout)
+    ),
+    sumPubkey
+  )
+
+  const outputCounts: { [scanPubkey: string]: number } = {}
+  return args.recipients.map(recipient => {
+    const scanPubkey = recipient.scanPubkey.toString('hex')
+    const k = outputCounts[scanPubkey] ?? 0
+    outputCounts[scanPubkey] = k + 1
+    const sharedSecret = multiply(recipient.scanPubkey, sumPrivateKey, hash)
+    return outputKey(recipient.spendPubkey, sharedSecret, k).key
+  })
+}
+
+const isTaprootScript = (script: Buffer): boolean =>
+  script.length === 34 &&
+  script[0] === bitcoin.opcodes.OP_1 &&
+  script[1] === 0x20
+
+const isCompressedPubkey = (pubkey: Buffer | undefined): pubkey is Buffer =>
+  pubkey != null &&
+  pubkey.length === 33 &&
+  (pubkey[0] === 0x02 || pubkey[0] === 0x03) &&
+  ecc.isPoint(pubkey)
+
+// The public key an eligible input spends with, or undefined for inputs that
+// do not count towards the shared secret, such as multisig or script spends
+export const silentPaymentInputPubkey = (
+  input: bitcoin.TxInput,
+  prevoutScript: Buffer
+): Buffer | undefined => {
+  const { witness } = input
+  const lastItem = witness[witness.length - 1]
+  // p2tr
+  if (isTaprootScript(prevoutScript)) {
+    const stack =
+      witness.length > 1 && lastItem[0] === ANNEX_TAG
+        ? witness.slice(0, -1)
+        : witness
+    // script path spends of outputs without a key path
+    const controlBlock = stack[stack.length - 1]
+    if (stack.length > 1 && controlBlock.slice(1, 33).equals(NUMS_KEY)) {
+      return
+    }
+    try {
+      return liftX(prevoutScript.slice(2))
+    } catch (e) {
+      return
+    }
+  }
+  // p2wpkh
+  if (
+    prevoutScript.length === 22 &&
+    prevoutScript[0] === bitcoin.opcodes.OP_0 &&
+    prevoutScript[1] === 0x14
+  ) {
+    return isCompressedPubkey(lastItem) ? lastItem : undefined
+  }
+  // p2sh-p2wpkh
+  if (
+    prevoutScript.length === 23 &&
+    prevoutScript[0] === bitcoin.opcodes.OP_HASH160
+  ) {
+    const redeemScript = input.script.slice(1)
+    const isP2wpkh =
+      input.script.length === 23 &&
+      redeemScript[0] === bitcoin.opcodes.OP_0 &&
+      redeemScript[1] === 0x14
+    return isP2wpkh && isCompressedPubkey(lastItem) ? lastItem : undefined
+  }
+  // p2pkh, where the key is found by its hash to allow malleated script sigs
+  if (
+    prevoutScript.length === 25 &&
+    prevoutScript[0] === bitcoin.opcodes.OP_DUP
+  ) {
+    const pubkeyHash = prevoutScript.slice(3, 23)
+    for (let end = input.script.length; end >= 33; end--) {
+      const pubkey = input.script.slice(end - 33, end)
+      if (bitcoin.crypto.hash160(pubkey).equals(pubkeyHash)) {
+        return isCompressedPubkey(pubkey) ? pubkey : undefined
+      }
+    }
+  }
+}
+
+// The outputs of a transaction paying the spend key, found with the ECDH of
+// the scan key and the sum of the eligible input keys. Transactions spending
+// outputs of unknown witness versions are skipped.
+export const scanSilentPaymentTransaction = (args: {
+  tx: bitcoin.Transaction
+  prevoutScripts: Array<Buffer | undefined> // the outputs spent by the inputs
+  scanPrivateKey: Buffer
+  spendPubkey: Buffer
+}): SilentPaymentOutput[] => {
+  const { tx, prevoutScripts, scanPrivateKey, spendPubkey } = args
+  const outputs = tx.outs
+    .map((output, vout) => ({ vout, script: output.script }))
+    .filter(output => isTaprootScript(output.script))
+  if (outputs.length === 0) return []
+
+  let sumPubkey: Buffer | null | undefined
+  for (let i = 0; i < tx.ins.length; i++) {
+    const prevoutScript = prevoutScripts[i]
+    if (prevoutScript == null) continue
+    try {
+      if (scriptPubkeyToWitnessProgram(prevoutScript).version > 1) return []
+    } catch (e) {}
+    const pubkey = silentPaymentInputPubkey(tx.ins[i], prevoutScript)
+    if (pubkey == null) continue
+    sumPubkey = sumPubkey == null ? pubkey : ecc.pointAdd(sumPubkey, pubkey)
+    // the input keys cancel out
+    if (sumPubkey == null) return []
+  }
+  if (sumPubkey == null) return []
+
+  const hash = inputHash(
+    tx.ins.map(input => serializeOutpoint(input.hash, input.index)),
+    sumPubkey
+  )
+  const sharedSecret = multiply(sumPubkey, hash, scanPrivateKey)
+  const found: SilentPaymentOutput[] = []
+  for (let k = 0; ; k++) {
+    const { key, tweak } = outputKey(spendPubkey, sharedSecret, k)
+    const output = outputs.find(output => output.script.slice(2).equals(key))
+    if (output == null) return found
+    found.push({ vout: output.vout, tweak })
+  }
+}
+
+// the public key of an output paid to the spend key with the tweak
+export const silentPaymentPubkey = (
+  spendPubkey: Buffer,
+  tweak: Buffer
+): Buffer => {
+  const pubkey = ecc.pointAddScalar(spendPubkey, tweak, true)
+  if (pubkey == null) throw new Error('Invalid silent payment tweak')
+  return pubkey
+}
+
+export const silentPaymentPrivateKey = (
+  spendPrivateKey: Buffer,
+  tweak: Buffer
+): Buffer => {
+  const privateKey = ecc.privateAdd(spendPrivateKey, tweak)
+  if (privateKey == null) throw new Error('Invalid silent payment tweak')
+  return privateKey
+}
@@ -0,0 +1,437 @@
+import createHmac from 'create-hmac'
+import { pbkdf2Sync } from 'pbkdf2'
+
+import { SLIP39_WORDLIST } from './wordlist'
+
+// SLIP-39 Shamir backups, which split a master secret into groups of mnemonic
+// shares. A threshold of groups, each with a threshold of its member shares,
+// restores the master secret, which is used as the bip32 seed.
+// https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+
+const RADIX_BITS = 10
+const ID_LENGTH_BITS = 15
+const CHECKSUM_LENGTH_WORDS = 3
+const MIN_MNEMONIC_LENGTH_WORDS = 20
+const MIN_STRENGTH_BYTES = 16
+const MAX_SHARE_COUNT = 16
+const BASE_ITERATION_COUNT = 10000
+const ROUND_COUNT = 4
+const SECRET_INDEX = 255
+const DIGEST_INDEX = 254
+const DIGEST_LENGTH_BYTES = 4
+const RS1024_GENERATOR = [
+  0xe0e040,
+  0x1c1c080,
+  0x3838100,
+  0x7070200,
+  0xe0e0009,
+  0x1c0c2412,
+  0x38086c24,
+  0x3090fc48,
+  0x21b1f890,
+  0x3f3f120
+]
+
+export interface Slip39Group {
+  threshold: number // member shares needed to restore the group
+  count: number // member shares of the group
+}
+
+export interface SplitSlip39Args {
+  masterSecret: Buffer
+  passphrase?: string // printable ascii, encrypts the master secret
+  groupThreshold: number // groups needed to restore the master secret
+  groups: Slip39Group[]
+  iterationExponent?: number // scales the pbkdf2 rounds, defaults to 1
+  random: (length: number) => Buffer
+}
+
+export interface CombineSlip39Args {
+  mnemonics: string[]
+  passphrase?: string
+}
+
+interface Share {
+  identifier: number
+  extendable: boolean
+  iterationExponent: number
+  groupIndex: number
+  groupThreshold: number
+  groupCount: number
+  memberIndex: number
+  memberThreshold: number
+  value: Buffer
+}
+
+interface SharePoint {
+  x: number
+  value: Buffer
+}
+
+const WORD_INDEXES = new Map(
+  SLIP39_WORDLIST.map((word, index) => [word, index])
+)
+
+// exponent and logarithm tables of GF(256) with the Rijndael polynomial
+const [EXP_TABLE, LOG_TABLE] = ((): [number[], number[]] => {
+  const exp: number[] = []
+  const log: number[] = new Array(256).fill(0)
+  let poly = 1
+  for (let i = 0; i < 255; i++) {
+    exp.push(poly)
+    log[poly] = i
+    // multiply by x + 1 and reduce by x^8 + x^4 + x^3 + x + 1
+    poly = (poly << 1) ^ poly
+    if ((poly & 0x100) !== 0) poly ^= 0x11b
+  }
+  return [exp, log]
+})()
+
+const customizationString = (extendable: boolean): string =>
+  extendable ? 'shamir_extendable' : 'shamir'
+
+const rs1024Polymod = (values: number[]): number => {
+  let chk = 1
+  for (const value of values) {
+    const b = chk >>> 20
+    chk = (((chk & 0xfffff) << 10) ^ value) >>> 0
+    for (let i = 0; i < 10; i++) {
+      if (((b >>> i) & 1) !== 0) chk = (chk ^ RS1024_GENERATOR[i]) >>> 0
+    }
+  }
+  return chk
+}
+
+const rs1024Values = (extendable: boolean, data: number[]): number[] => [
+  ...Buffer.from(customizationString(extendable)),
+  ...data
+]
+
+const rs1024Checksum = (extendable: boolean, data: number[]): number[] => {
+  const polymod =
+    rs1024Polymod([
+      ...rs1024Values(extendable, data),
+      ...new Array(CHECKSUM_LENGTH_WORDS).fill(0)
+    ]) ^ 1
+  return [2, 1, 0].map(i => (polymod >>> (RADIX_BITS * i)) & 1023)
+}
+
+// share values are padded with leading zero bits to a multiple of the radix
+const bytesToWords = (bytes: Buffer): number[] => {
+  const wordCount = Math.ceil((bytes.length * 8) / RADIX_BITS)
+  let bits = '0'.repeat(wordCount * RADIX_BITS - bytes.length * 8)
+  for (const byte of bytes) bits += byte.toString(2).padStart(8, '0')
+  const words: number[] = []
+  for (let i = 0; i < wordCount; i++) {
+    words.push(parseInt(bits.slice(i * RADIX_BITS, (i + 1) * RADIX_BITS), 2))
+  }
+  return words
+}
+
+const wordsToBytes = (words: number[]): Buffer => {
+  const bits = words
+    .map(word => word.toString(2).padStart(RADIX_BITS, '0'))
+    .join('')
+  const padding = bits.length % 16
+  if (padding > 8) throw new Error('Invalid SLIP-39 mnemonic length')
+  if (bits.slice(0, padding).includes('1')) {
+    throw new Error('Invalid SLIP-39 mnemonic padding')
+  }
+  const bytes: number[] = []
+  for (let i = padding; i < bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2))
+  }
+  return Buffer.from(bytes)
+}
+
+const encodeShare = (share: Share): string => {
+  const idExp =
+    (share.identifier << 5) |
+    ((share.extendable ? 1 : 0) << 4) |
+    share.iterationExponent
+  const params =
+    (share.groupIndex << 16) |
+    ((share.groupThreshold - 1) << 12) |
+    ((share.groupCount - 1) << 8) |
+    (share.memberIndex << 4) |
+    (share.memberThreshold - 1)
+  const data = [
+    idExp >>> RADIX_BITS,
+    idExp & 1023,
+    params >>> RADIX_BITS,
+    params & 1023,
+    ...bytesToWords(share.value)
+  ]
+  return [...data, ...rs1024Checksum(share.extendable, data)]
+    .map(index => SLIP39_WORDLIST[index])
+    .join(' ')
+}
+
+const decodeShare = (mnemonic: string): Share => {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/)
+  const data = words.map(word => {
+    const index = WORD_INDEXES.get(word)
+    if (index == null) throw new Error(`Invalid SLIP-39 word ${word}`)
+    return index
+  })
+  if (data.length < MIN_MNEMONIC_LENGTH_WORDS) {
+    throw new Error('Invalid SLIP-39 mnemonic length')
+  }
+  const idExp = (data[0] << RADIX_BITS) | data[1]
+  const extendable = ((idExp >>> 4) & 1) === 1
+  if (rs1024Polymod(rs1024Values(extendable, data)) !== 1) {
+    throw new Error('Invalid SLIP-39 mnemonic checksum')
+  }
+  const params = (data[2] << RADIX_BITS) | data[3]
+  const share: Share = {
+    identifier: idExp >>> 5,
+    extendable,
+    iterationExponent: idExp & 15,
+    groupIndex: (params >>> 16) & 15,
+    groupThreshold: ((params >>> 12) & 15) + 1,
+    groupCount: ((params >>> 8) & 15) + 1,
+    memberIndex: (params >>> 4) & 15,
+    memberThreshold: (params & 15) + 1,
+    value: wordsToBytes(data.slice(4, -CHECKSUM_LENGTH_WORDS))
+  }
+  if (share.groupThreshold > share.groupCount) {
+    throw new Error('Invalid SLIP-39 group threshold')
+  }
+  if (share.value.length < MIN_STRENGTH_BYTES) {
+    throw new Error('Invalid SLIP-39 mnemonic length')
+  }
+  return share
+}
+
+const interpolate = (points: SharePoint[], x: number): Buffer => {
+  const existing = points.find(point => point.x === x)
+  if (existing != null) return existing.value
+  const logProduct = points.reduce(
+    (sum, point) => sum + LOG_TABLE[point.x ^ x],
+    0
+  )
+  const result = Buffer.alloc(points[0].value.length)
+  for (const point of points) {
+    // LOG_TABLE[0] is 0, so the point itself drops out of the sum
+    const logBasis =
+      logProduct -
+      LOG_TABLE[point.x ^ x] -
+      points.reduce((sum, other) => sum + LOG_TABLE[point.x ^ other.x], 0)
+    for (let i = 0; i < result.length; i++) {
+      if (point.value[i] !== 0) {
+        const log = (LOG_TABLE[point.value[i]] + logBasis) % 255
+        result[i] ^= EXP_TABLE[log < 0 ? log + 255 : log]
+      }
+    }
+  }
+  return result
+}
+
+const createDigest = (randomPart: Buffer, secret: Buffer): Buffer =>
+  createHmac('sha256', randomPart)
+    .update(secret)
+    .digest()
+    .slice(0, DIGEST_LENGTH_BYTES)
+
+const splitSecret = (
+  threshold: number,
+  count: number,
+  secret: Buffer,
+  random: (length: number) => Buffer
+): SharePoint[] => {
+  if (threshold === 1) {
+    return new Array(count).fill(0).map((_, x) => ({ x, value: secret }))
+  }
+  const points: SharePoint[] = []
+  for (let x = 0; x < threshold - 2; x++) {
+    points.push({ x, value: random(secret.length) })
+  }
+  const randomPart = random(secret.length - DIGEST_LENGTH_BYTES)
+  const basePoints = [
+    ...points,
+    {
+      x: DIGEST_INDEX,
+      value: Buffer.concat([createDigest(randomPart, secret), randomPart])
+    },
+    { x: SECRET_INDEX, value: secret }
+  ]
+  for (let x = threshold - 2; x < count; x++) {
+    points.push({ x, value: interpolate(basePoints, x) })
+  }
+  return points
+}
+
+const recoverSecret = (threshold: number, points: SharePoint[]): Buffer => {
+  if (threshold === 1) return points[0].value
+  const secret = interpolate(points, SECRET_INDEX)
+  const digestShare = interpolate(points, DIGEST_INDEX)
+  const digest = digestShare.slice(0, DIGEST_LENGTH_BYTES)
+  if (
+    !digest.equals(createDigest(digestShare.slice(DIGEST_LENGTH_BYTES), secret))
+  ) {
+    throw new Error('Invalid SLIP-39 shares digest')
+  }
+  return secret
+}
+
+// Runs the four round Feistel network that encrypts the master secret,
+// backwards to decrypt it
+const feistel = (
+  secret: Buffer,
+  passphrase: string,
+  share: Pick<Share, 'identifier' | 'extendable' | 'iterationExponent'>,
+  rounds: number[]
+): Buffer => {
+  if (!/^[\x20-\x7e]*$/.test(passphrase)) {
+    throw new Error('The SLIP-39 passphrase must be printable ascii')
+  }
+  const salt = share.extendable
+    ? Buffer.alloc(0)
+    : Buffer.concat([
+        Buffer.from(customizationString(false)),
+        Buffer.from([share.identifier >>> 8, share.identifier & 0xff])
+      ])
+  const iterations =
+    (BASE_ITERATION_COUNT << share.iterationExponent) / ROUND_COUNT
+  let left = secret.slice(0, secret.length / 2)
+  let right = secret.slice(secret.length / 2)
+  for (const round of rounds) {
+    const f = pbkdf2Sync(
+      Buffer.concat([Buffer.from([round]), Buffer.from(passphrase)]),
+      Buffer.concat([salt, right]),
+      iterations,
+      right.length,
+      'sha256'
+    )
+    const next = Buffer.from(left.map((byte, i) => byte ^ f[i]))
+    left = right
+    right = next
+  }
+  return Buffer.concat([right, left])
+}
+
+export const splitSlip39 = (args: SplitSlip39Args): string[][] => {
+  const { masterSecret, groupThreshold, groups, random } = args
+  const iterationExponent = args.iterationExponent ?? 1
+  if (
+    masterSecret.length < MIN_STRENGTH_BYTES ||
+    masterSecret.length % 2 !== 0
+  ) {
+    throw new Error(
+      'The master secret must be at least 128 bits and a multiple of 16 bits'
+    )
+  }
+  if (groups.length > MAX_SHARE_COUNT) {
+    throw new Error(`There may be at most ${MAX_SHARE_COUNT} groups`)
+  }
+  if (groupThreshold < 1 || groupThreshold > groups.length) {
+    throw new Error('Invalid SLIP-39 group threshold')
+  }
+  for (const { threshold, count } of groups) {
+    if (threshold < 1 || threshold > count || count > MAX_SHARE_COUNT) {
+      throw new Error('Invalid SLIP-39 member threshold')
+    }
+    // a group of several copies of the same share only looks safer
+    if (threshold === 1 && count > 1) {
+      throw new Error('Groups with a member threshold of 1 take one share')
+    }
+  }
+  if (iterationExponent < 0 || iterationExponent > 15) {
+    throw new Error('Invalid SLIP-39 iteration exponent')
+  }
+
+  const identifier = random(2).readUInt16BE(0) & ((1 << ID_LENGTH_BITS) - 1)
+  const params = { identifier, extendable: true, iterationExponent }
+  const encryptedSecret = feistel(masterSecret, args.passphrase ?? '', params, [
+    0,
+    1,
+    2,
+    3
+  ])
+  const groupPoints = splitSecret(
+    groupThreshold,
+    groups.length,
+    encryptedSecret,
+    random
+  )
+  return groups.map(({ threshold, count }, groupIndex) =>
+    splitSecret(threshold, count, groupPoints[groupIndex].value, random).map(
+      ({ x, value }) =>
+        encodeShare({
+          ...params,
+          groupIndex,
+          groupThreshold,
+          groupCount: groups.length,
+          memberIndex: x,
+          memberThreshold: threshold,
+          value
+        })
+    )
+  )
+}
+
+export const combineSlip39 = (args: CombineSlip39Args): Buffer => {
+  const shares = args.mnemonics.map(decodeShare)
+  if (shares.length === 0) throw new Error('No SLIP-39 shares to combine')
+  const [first] = shares
+  for (const share of shares) {
+    if (
+      share.identifier !== first.identifier ||
+      share.extendable !== first.extendable ||
+      share.iterationExponent !== first.iterationExponent ||
+      share.groupThreshold !== first.groupThreshold ||
+      share.groupCount !== first.groupCount ||
+      share.value.length !== first.value.length
+    ) {
+      throw new Error('The SLIP-39 shares belong to different backups')
+    }
+  }
+
+  const groups = new Map<number, Share[]>()
+  for (const share of shares) {
+    const members = groups.get(share.groupIndex) ?? []
+    if (
+      members.some(member => member.memberThreshold !== share.memberThreshold)
+    ) {
+      throw new Error('The SLIP-39 shares of a group differ in threshold')
+    }
+    // the same share may be given twice
+    if (!members.some(member => member.memberIndex === share.memberIndex)) {
+      members.push(share)
+    }
+    groups.set(share.groupIndex, members)
+  }
+  const groupPoints: SharePoint[] = []
+  for (const [groupIndex, members] of groups) {
+    const { memberThreshold } = members[0]
+    if (members.length < memberThreshold) continue
+    groupPoints.push({
+      x: groupIndex,
+      value: recoverSecret(
+        memberThreshold,
+        members
+          .slice(0, memberThreshold)
+          .map(member => ({ x: member.memberIndex, value: member.value }))
+      )
+    })
+  }
+  if (groupPoints.length < first.groupThreshold) {
+    throw new Error('Insufficient SLIP-39 shares to restore the master secret')
+  }
+
+  const encryptedSecret = recoverSecret(
+    first.groupThreshold,
+    groupPoints.slice(0, first.groupThreshold)
+  )
+  return feistel(encryptedSecret, args.passphrase ?? '', first, [3, 2, 1, 0])
+}
+
+// tells SLIP-39 shares apart from other mnemonics by their words
+export const isSlip39Mnemonic = (mnemonic: string): boolean => {
+  try {
+    decodeShare(mnemonic)
+    return true
+  } catch (e) {
+    return false
+  }
+}
@@ -0,0 +1,129 @@
+import * as bitcoin from 'altcoin-js'
+import BN from 'bn.js'
+import * as ecc from 'tiny-secp256k1'
+
+import {
+  CURVE_ORDER,
+  FIELD_SIZE,
+  toBuffer32
+} from '../secp256k1Utils/secp256k1'
+
+// BIP340 Schnorr signatures over secp256k1, implemented on top of the
+// elliptic curve primitives of tiny-secp256k1
+// https://github.com/bitcoin/bips/blob/master/bip-0340.mediawiki
+
+const ZERO32 = Buffer.alloc(32, 0)
+
+const hasEvenY = (point: Buffer): boolean => point[0] === 0x02
+
+export const taggedHash = (tag: string, data: Buffer): Buffer => {
+  const tagHash = bitcoin.crypto.sha256(Buffer.from(tag, 'utf8'))
+  return bitcoin.crypto.sha256(Buffer.concat([tagHash, tagHash, data]))
+}
+
+// returns the 32 byte x coordinate of a compressed or x-only public key
+export const toXOnly = (pubkey: Buffer): Buffer =>
+  pubkey.length === 32 ? pubkey : pubkey.slice(1, 33)
+
+// lifts an x-only public key to the point with the even y coordinate
+export const liftX = (xOnly: Buffer): Buffer => {
+  const point = Buffer.concat([Buffer.from([0x02]), xOnly])
+  if (!ecc.isPoint(point)) {
+    throw new Error('Invalid x-only public key')
+  }
+  return point
+}
+
+// negates the private key if its public key has an odd y coordinate
+export const evenYPrivateKey = (privateKey: Buffer): Buffer => {
+  const point = ecc.pointFromScalar(privateKey, true)
+  if (point == null) {
+    throw new Error('Invalid private key')
+  }
+  if (hasEvenY(point)) return privateKey
+  return toBuffer32(CURVE_ORDER.sub(new BN(privateKey)))
+}
+
+export const schnorrSign = (
+  hash: Buffer,
+  privateKey: Buffer,
+  auxRand: Buffer = ZERO32
+): Buffer => {
+  if (hash.length !== 32 || auxRand.length !== 32) {
+    throw new Error('Schnorr signing expects a 32 byte hash and aux data')
+  }
+  const publicKey = ecc.pointFromScalar(privateKey, true)
+  if (publicKey == null) {
+    throw new Error('Invalid private key')
+  }
+  const d = new BN(evenYPrivateKey(privateKey))
+  const px = toXOnly(publicKey)
+
+  const auxHash = taggedHash('BIP0340/aux', auxRand)
+  const t = Buffer.alloc(32)
+  const dBuffer = toBuffer32(d)
+  for (let i = 0; i < 32; i++) {
+    t[i] = dBuffer[i] ^ auxHash[i]
+  }
+
+  const k0 = new BN(
+    taggedHash('BIP0340/nonce', Buffer.concat([t, px, hash]))
+  ).umod(CURVE_ORDER)
+  if (k0.isZero()) {
+    throw new Error('Schnorr nonce generation failed')
+  }
+  const R = ecc.pointFromScalar(toBuffer32(k0), true)
+  if (R == null) {
+    throw new Error('Schnorr nonce generation failed')
+  }
+  const k = hasEvenY(R) ? k0 : CURVE_ORDER.sub(k0)
+  const rx = toXOnly(R)
+
+  const e = new BN(
+    taggedHash('BIP0340/challenge', Buffer.concat([rx, px, hash]))
+  ).umod(CURVE_ORDER)
+  const s = k.add(e.mul(d)).umod(CURVE_ORDER)
+
+  const signature = Buffer.concat([rx, toBuffer32(s)])
+  if (!schnorrVerify(hash, px, signature)) {
+    throw new Error('Created an invalid schnorr signature')
+  }
+  return signature
+}
+
+export const schnorrVerify = (
+  hash: Buffer,
+  publicKey: Buffer,
+  signature: Buffer
+): boolean => {
+  if (hash.length !== 32 || signature.length !== 64) return false
+  let P: Buffer
+  try {
+    P = liftX(toXOnly(publicKey))
+  } catch (e) {
+    return false
+  }
+  const rx = signature.slice(0, 32)
+  const r = new BN(rx)
+  const s = new BN(signature.slice(32, 64))
+  if (r.gte(FIELD_SIZE) || s.gte(CURVE_ORDER)) return false
+
+  const e = new BN(
+    taggedHash('BIP0340/challenge', Buffer.concat([rx, toXOnly(P), hash]))
+  ).umod(CURVE_ORDER)
+
+  // R = s*G - e*P
+  const sG = s.isZero() ? null : ecc.pointFromScalar(toBuffer32(s))
+  const minusE = CURVE_ORDER.sub(e).umod(CURVE_ORDER)
+  const minusEP = minusE.isZero()
+    ? null
+    : ecc.pointMultiply(P, toBuffer32(minusE))
+  let R: Buffer | null
+  if (sG == null) R = minusEP
+  else if (minusEP == null) R = sG
+  else R = ecc.pointAdd(sG, minusEP, true)
+
+  if (R == null) return false
+  R = ecc.pointCompress(R, true)
+  return hasEvenY(R) && toXOnly(R).equals(rx)
+}
@@ -0,0 +1,220 @@
+import * as bitcoin from 'altcoin-js'
+import { bech32, bech32m } from 'bech32'
+import * as ecc from 'tiny-secp256k1'
+
+import { evenYPrivateKey, liftX, taggedHash, toXOnly } from './schnorr'
+
+// Taproot key path spending (BIP341) and segwit v1+ address encoding (BIP350)
+// https://github.com/bitcoin/bips/blob/master/bip-0341.mediawiki
+// https://github.com/bitcoin/bips/blob/master/bip-0350.mediawiki
+
+export const SIGHASH_DEFAULT = 0x00
+const SIGHASH_OUTPUT_MASK = 0x03
+const SIGHASH_INPUT_MASK = 0x80
+
+export interface SegwitAddress {
+  version: number
+  program: Buffer
+}
+
+// BIP86 outputs commit to the internal key only, without a script tree
+export const tapTweakHash = (internalPubkey: Buffer): Buffer =>
+  taggedHash('TapTweak', toXOnly(internalPubkey))
+
+// returns the 32 byte x-only output key for a compressed internal public key
+export const tweakPublicKey = (internalPubkey: Buffer): Buffer => {
+  const tweaked = ecc.pointAddScalar(
+    liftX(toXOnly(internalPubkey)),
+    tapTweakHash(internalPubkey),
+    true
+  )
+  if (tweaked == null) {
+    throw new Error('Failed to tweak taproot public key')
+  }
+  return toXOnly(tweaked)
+}
+
+export const tweakPrivateKey = (privateKey: Buffer): Buffer => {
+  const internalPubkey = ecc.pointFromScalar(privateKey, true)
+  if (internalPubkey == null) {
+    throw new Error('Invalid private key')
+  }
+  const tweaked = ecc.privateAdd(
+    evenYPrivateKey(privateKey),
+    tapTweakHash(internalPubkey)
+  )
+  if (tweaked == null) {
+    throw new Error('Failed to tweak taproot private key')
+  }
+  return tweaked
+}
+
+export const segwitAddressEncode = (
+  address: SegwitAddress,
+  prefix: string
+): string => {
+  const words = [address.version, ...bech32.toWords(address.program)]
+  return address.version === 0
+    ? bech32.encode(prefix, words)
+    : bech32m.encode(prefix, words)
+}
+
+export const segwitAddressDecode = (
+  address: string,
+  prefix: string
+): SegwitAddress => {
+  // witness version 0 uses bech32, every later version uses bech32m
+  let decoded = bech32.decodeUnsafe(address)
+  if (typeof decoded === 'undefined' || decoded.words[0] !== 0) {
+    decoded = bech32m.decode(address)
+  }
+  if (decoded.prefix !== prefix) {
+    throw new Error('Invalid segwit address prefix')
+  }
+  const version = decoded.words[0]
+  const program = Buffer.from(bech32.fromWords(decoded.words.slice(1)))
+  if (
+    version > 16 ||
+    program.length < 2 ||
+    program.length > 40 ||
+    (version === 0 && program.length !== 20 && program.length !== 32)
+  ) {
+    throw new Error('Invalid segwit address program')
+  }
+  return { version, program }
+}
+
+export const witnessProgramToScriptPubkey = (address: SegwitAddress): Buffer =>
+  bitcoin.script.compile([
+    address.version === 0
+      ? bitcoin.opcodes.OP_0
+      : bitcoin.opcodes.OP_1 + address.version - 1,
+    address.program
+  ])
+
+export const scriptPubkeyToWitnessProgram = (
+  scriptPubkey: Buffer
+): SegwitAddress => {
+  const opcode = scriptPubkey[0]
+  const programLength = scriptPubkey[1]
+  if (
+    (opcode !== bitcoin.opcodes.OP_0 &&
+      (opcode < bitcoin.opcodes.OP_1 || opcode > bitcoin.opcodes.OP_16)) ||
+    programLength < 2 ||
+    programLength > 40 ||
+    scriptPubkey.length !== programLength + 2
+  ) {
+    throw new Error('Invalid witness program script pubkey')
+  }
+  return {
+    version:
+      opcode === bitcoin.opcodes.OP_0 ? 0 : opcode - bitcoin.opcodes.OP_1 + 1,
+    program: scriptPubkey.slice(2)
+  }
+}
+
+export const encodeCompactSize = (n: number): Buffer => {
+  let buf: Buffer
+  if (n < 0xfd) {
+    buf = Buffer.alloc(1)
+    buf.writeUInt8(n, 0)
+  } else if (n <= 0xffff) {
+    buf = Buffer.alloc(3)
+    buf.writeUInt8(0xfd, 0)
+    buf.writeUInt16LE(n, 1)
+  } else {
+    buf = Buffer.alloc(5)
+    buf.writeUInt8(0xfe, 0)
+    buf.writeUInt32LE(n, 1)
+  }
+  return buf
+}
+
+export const encodeVarSlice = (slice: Buffer): Buffer =>
+  Buffer.concat([encodeCompactSize(slice.length), slice])
+
+const encodeUInt32 = (n: number): Buffer => {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32LE(n, 0)
+  return buf
+}
+
+const encodeUInt64 = (n: number): Buffer => {
+  const buf = Buffer.alloc(8)
+  buf.writeUInt32LE(n % 0x100000000, 0)
+  buf.writeUInt32LE(Math.floor(n / 0x100000000), 4)
+  return buf
+}
+
+const encodeOutpoint = (input: bitcoin.TxInput): Buffer =>
+  Buffer.concat([input.hash, encodeUInt32(input.index)])
+
+const encodeOutput = (output: bitcoin.TxOutput): Buffer =>
+  Buffer.concat([encodeUInt64(output.value), encodeVarSlice(output.script)])
+
+// BIP341 signature message for a key path spend without annex
+export const taprootSighash = (
+  tx: bitcoin.Transaction,
+  inputIndex: number,
+  prevoutScripts: Buffer[],
+  values: number[],
+  hashType: number = SIGHASH_DEFAULT
+): Buffer => {
+  if (
+    prevoutScripts.length !== tx.ins.length ||
+    values.length !== tx.ins.length
+  ) {
+    throw new Error('Taproot sighash requires all spent outputs')
+  }
+  const outputType =
+    hashType === SIGHASH_DEFAULT
+      ? bitcoin.Transaction.SIGHASH_ALL
+      : hashType & SIGHASH_OUTPUT_MASK
+  const anyoneCanPay = (hashType & SIGHASH_INPUT_MASK) !== 0
+  const outputs = tx.outs
+
+  const parts: Buffer[] = [
+    Buffer.from([0x00, hashType]),
+    encodeUInt32(tx.version),
+    encodeUInt32(tx.locktime)
+  ]
+  if (!anyoneCanPay) {
+    const sha256 = bitcoin.crypto.sha256
+    parts.push(
+      sha256(Buffer.concat(tx.ins.map(encodeOutpoint))),
+      sha256(Buffer.concat(values.map(encodeUInt64))),
+      sha256(Buffer.concat(prevoutScripts.map(encodeVarSlice))),
+      sha256(Buffer.concat(tx.ins.map(input => encodeUInt32(input.sequence))))
+    )
+  }
+  if (
+    outputType !== bitcoin.Transaction.SIGHASH_NONE &&
+    outputType !== bitcoin.Transaction.SIGHASH_SINGLE
+  ) {
+    parts.push(bitcoin.crypto.sha256(Buffer.concat(outputs.map(encodeOutput))))
+  }
+  // spend type: no annex, key path spend
+  parts.push(Buffer.from([0x00]))
+  if (anyoneCanPay) {
+    const input = tx.ins[inputIndex]
+    parts.push(
+      encodeOutpoint(input),
+      encodeUInt64(values[inputIndex]),
+      encodeVarSlice(prevoutScripts[inputIndex]),
+      encodeUInt32(input.sequence)
+    )
+  } else {
+    parts.push(encodeUInt32(inputIndex))
+  }
+  if (outputType === bitcoin.Transaction.SIGHASH_SINGLE) {
+    if (inputIndex >= outputs.length) {
+      throw new Error('SIGHASH_SINGLE input has no matching output')
+    }
+    parts.push(bitcoin.crypto.sha256(encodeOutput(outputs[inputIndex])))
+  }
+  return taggedHash('TapSighash', Buffer.concat(parts))
+}
+
+// serializes a single element witness stack holding the schnorr signature
+export const keyPathWitness = (signature: Buffer): Buffer =>
+  Buffer.concat([encodeCompactSize(1), encodeVarSlice(signature)])
@@ -2,3 +2,11 @@ export * from './utxopicker/types'
 export * from './utxopicker/accumulative'
 export * from './utxopicker/subtractFee'
 export * from './utxopicker/forceUseUtxo'
+export * from './utxopicker/branchAndBound'
+export * from './utxopicker/maxSpendable'
+export {
+  costOfChange,
+  outputBytes,
+  transactionBytes,
+  waste
+} from './utxopicker/utils'
@@ -4,7 +4,13 @@ import * as utils from './utils'
 // worst-case: O(n)
 
 export function accumulative(args: UtxoPickerArgs): Result {
-  const { utxos, targets, feeRate, changeScript } = args
+  const {
+    utxos,
+    targets,
+    feeRate,
+    changeScript,
+    sizeEstimator = utils.bitcoinSizeEstimator
+  } = args
 
   if (!isFinite(utils.uintOrNaN(feeRate))) {
     throw new Error('No rate provided')
@@ -23,7 +29,7 @@ export function accumulative(args: UtxoPickerArgs): Result {
     const utxo = utxos[i]
 
     // skip detrimental input
-    const utxoFee = feeRate * utils.inputBytes(utxo)
+    const utxoFee = feeRate * sizeEstimator.inputBytes(utxo)
     if (utxoFee > utxo.value) {
       if (i === utxos.length - 1) {
         break
@@ -35,18 +41,18 @@ export function accumulative(args: UtxoPickerArgs): Result {
     inputs.push(utxo)
     inValue += utxo.value
 
-    const bytes = utils.transactionBytes(inputs, outputs)
+    const bytes = sizeEstimator.transactionBytes(inputs, outputs)
     console.log('tx byte size - accum', bytes)
     const fee = bytes * feeRate
 
     // go again?
     if (inValue < targetValue + fee) continue
 
-    return utils.finalize(inputs, outputs, feeRate, changeScript)
+    return utils.finalize(inputs, outputs, feeRate, changeScript, sizeEstimator)
   }
 
   return {
     changeUsed: false,
-    fee: feeRate * utils.transactionBytes(inputs, outputs)
+    fee: feeRate * sizeEstimator.transactionBytes(inputs, outputs)
   }
 }
@@ -0,0 +1,105 @@
+import { Output, Result, UTXO, UtxoPickerArgs } from './types'
+import * as utils from './utils'
+// search for a set of inputs that pays the targets without change, wasting
+// less than the cost of a change output on fees, as in Bitcoin Core
+// worst-case: O(2^n), bounded by TOTAL_TRIES
+
+const TOTAL_TRIES = 100000
+
+export function branchAndBound(args: UtxoPickerArgs): Result {
+  const {
+    utxos,
+    targets,
+    feeRate,
+    sizeEstimator = utils.bitcoinSizeEstimator
+  } = args
+
+  if (!isFinite(utils.uintOrNaN(feeRate))) {
+    throw new Error('No rate provided')
+  }
+
+  const outputs: Output[] = targets.map(target => ({
+    ...target,
+    script: Buffer.from(target.script, 'hex')
+  }))
+
+  // the value of the inputs after paying for their own size
+  const pool = utxos
+    .map(utxo => ({
+      utxo,
+      value: utxo.value - feeRate * sizeEstimator.inputBytes(utxo)
+    }))
+    .filter(({ value }) => value > 0)
+    .sort((a, b) => b.value - a.value)
+
+  const outValue = utils.sumOrNaN(outputs)
+  const target =
+    outValue + feeRate * sizeEstimator.transactionBytes([], outputs)
+  const costOfChange = utils.costOfChange(args)
+
+  let currentValue = 0
+  let availableValue = pool.reduce((sum, { value }) => sum + value, 0)
+  const selection: number[] = []
+  let bestSelection: UTXO[] | undefined
+  let bestWaste = Infinity
+
+  for (let tries = 0, index = 0; tries < TOTAL_TRIES; ++tries, ++index) {
+    let backtrack = false
+    if (
+      currentValue + availableValue < target ||
+      currentValue > target + costOfChange
+    ) {
+      backtrack = true
+    } else if (currentValue >= target) {
+      // the excess goes to the fee, which the target only estimates without
+      // the size the inputs add besides their own, such as the segwit marker
+      const inputs = selection.map(index => pool[index].utxo)
+      const waste =
+        utils.sumOrNaN(inputs) -
+        outValue -
+        feeRate * sizeEstimator.transactionBytes(inputs, outputs)
+      if (waste >= 0 && waste <= bestWaste) {
+        bestSelection = inputs
+        bestWaste = waste
+      }
+      backtrack = true
+    }
+
+    if (backtrack) {
+      const last = selection[selection.length - 1]
+      if (last == null) break
+      // give back the inputs left out since the last one included,
+      // then try leaving that one out instead
+      for (--index; index > last; --index) {
+        availableValue += pool[index].value
+      }
+      currentValue -= pool[index].value
+      selection.pop()
+    } else {
+      const { value } = pool[index]
+      availableValue -= value
+      // skip including an input of the same value as the one just left out,
+      // which was already searched
+      const last = selection[selection.length - 1]
+      if (
+        last == null ||
+        last === index - 1 ||
+        value !== pool[index - 1].value
+      ) {
+        selection.push(index)
+        currentValue += value
+      }
+    }
+  }
+
+  if (bestSelection == null) {
+    return { changeUsed: false, fee: 0 }
+  }
+  const inValue = utils.sumOrNaN(bestSelection)
+  return {
+    inputs: bestSelection,
+    outputs,
+    changeUsed: false,
+    fee: inValue - outValue
+  }
+}
@@ -5,7 +5,14 @@ import * as utils from './utils'
 // worst-case: O(n)
 
 export function forceUseUtxo(args: UtxoPickerArgs): Result {
-  const { utxos, useUtxos, targets, feeRate, changeScript } = args
+  const {
+    utxos,
+    useUtxos,
+    targets,
+    feeRate,
+    changeScript,
+    sizeEstimator = utils.bitcoinSizeEstimator
+  } = args
 
   if (!isFinite(utils.uintOrNaN(feeRate))) {
     throw new Error('No rate provided')
@@ -19,18 +26,18 @@ export function forceUseUtxo(args: UtxoPickerArgs): Result {
   const inputs: UTXO[] = useUtxos ?? []
   let inValue = inputs.reduce((n, { value }) => n + value, 0)
   const targetValue = utils.sumOrNaN(targets)
-  const bytes = utils.transactionBytes(inputs, outputs)
+  const bytes = sizeEstimator.transactionBytes(inputs, outputs)
   const fee = bytes * feeRate
   // if the new feeRate is already covered by lowering the change amount, return
   if (inValue >= targetValue + fee) {
-    return utils.finalize(inputs, outputs, feeRate, changeScript)
+    return utils.finalize(inputs, outputs, feeRate, changeScript, sizeEstimator)
   }
 
   for (let i = 0; i < utxos.length; ++i) {
     const utxo = utxos[i]
 
     // skip detrimental input
-    const utxoFee = feeRate * utils.inputBytes(utxo)
+    const utxoFee = feeRate * sizeEstimator.inputBytes(utxo)
     if (utxoFee > utxo.value) {
       if (i === utxos.length - 1) {
         break
@@ -42,17 +49,17 @@ export function forceUseUtxo(args: UtxoPickerArgs): Result {
     inputs.push(utxo)
     inValue += utxo.value
 
-    const bytes = utils.transactionBytes(inputs, outputs)
+    const bytes = sizeEstimator.transactionBytes(inputs, outputs)
     const fee = bytes * feeRate
 
     // go again?
     if (inValue < targetValue + fee) continue
 
-    return utils.finalize(inputs, outputs, feeRate, changeScript)
+    return utils.finalize(inputs, outputs, feeRate, changeScript, sizeEstimator)
   }
 
   return {
     changeUsed: false,
-    fee: feeRate * utils.transactionBytes(inputs, outputs)
+    fee: feeRate * sizeEstimator.transactionBytes(inputs, outputs)
   }
 }
@@ -0,0 +1,43 @@
+import { Output, UtxoPickerArgs } from './types'
+import * as utils from './utils'
+// the largest value of the first target that the inputs pay for, along with
+// the other targets and the fee, without change
+// the utxos to use are always spent, the others only when they are worth
+// more than the fee of spending them, as the pickers skip them otherwise
+// worst-case: O(n)
+
+export function maxSpendable(
+  args: Omit<UtxoPickerArgs, 'changeScript'>
+): number {
+  const {
+    utxos,
+    useUtxos = [],
+    targets,
+    feeRate,
+    sizeEstimator = utils.bitcoinSizeEstimator
+  } = args
+
+  if (!isFinite(utils.uintOrNaN(feeRate))) {
+    throw new Error('No rate provided')
+  }
+  if (targets.length === 0) {
+    throw new Error('No target provided')
+  }
+
+  const outputs: Output[] = targets.map(target => ({
+    ...target,
+    script: Buffer.from(target.script, 'hex')
+  }))
+
+  const inputs = [
+    ...useUtxos,
+    ...utxos.filter(
+      utxo => utxo.value > feeRate * sizeEstimator.inputBytes(utxo)
+    )
+  ]
+  if (inputs.length === 0) return 0
+
+  const fee = feeRate * sizeEstimator.transactionBytes(inputs, outputs)
+  const otherValue = utils.sumOrNaN(targets.slice(1))
+  return Math.max(utils.sumOrNaN(inputs) - otherValue - fee, 0)
+}
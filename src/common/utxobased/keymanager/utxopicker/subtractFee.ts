@@ -2,14 +2,19 @@ import { Output, Result, UtxoPickerArgs } from './types'
 import * as utils from './utils'
 
 export function subtractFee(args: UtxoPickerArgs): Result {
-  const { utxos, targets, feeRate } = args
+  const {
+    utxos,
+    targets,
+    feeRate,
+    sizeEstimator = utils.bitcoinSizeEstimator
+  } = args
 
   const outputs: Output[] = targets.map(target => ({
     ...target,
     script: Buffer.from(target.script, 'hex')
   }))
 
-  const fee = feeRate * utils.transactionBytes(utxos, outputs)
+  const fee = feeRate * sizeEstimator.transactionBytes(utxos, outputs)
   targets[0].value -= fee
   outputs[0].value -= fee
   return { inputs: utxos, outputs, fee, changeUsed: false }
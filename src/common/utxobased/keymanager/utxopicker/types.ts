@@ -10,6 +10,7 @@ export interface UTXO extends PsbtInput {
   value: number
   script: Buffer
   scriptType: ScriptTypeEnum
+  schnorr?: boolean // signed with a schnorr signature instead of an ECDSA one
 }
 
 export interface Output {
@@ -23,12 +24,21 @@ export interface Target {
   value: number
 }
 
+// the serialized sizes fees are paid for, which differ for coins with their
+// own transaction format
+export interface SizeEstimator {
+  inputBytes: (input: UTXO) => number
+  outputBytes: (output: Output) => number
+  transactionBytes: (inputs: UTXO[], outputs: Output[]) => number
+}
+
 export interface UtxoPickerArgs {
   utxos: UTXO[]
   useUtxos?: UTXO[]
   targets: Target[]
   feeRate: number
   changeScript: string
+  sizeEstimator?: SizeEstimator // the bitcoin sizes by default
 }
 
 export interface Result {
@@ -1,106 +1,218 @@
-/* eslint-disable no-fallthrough */
-/* eslint-disable no-duplicate-case */
 import { ScriptTypeEnum } from '../keymanager'
-import { Input, Output, Result, UTXO } from './types'
+import {
+  Input,
+  Output,
+  Result,
+  SizeEstimator,
+  UTXO,
+  UtxoPickerArgs
+} from './types'
 
-const WITNESS_SCALE = 4
-const OP_CODE_VSIZE = WITNESS_SCALE - 1
-const OP_CODE_SIZE = 1
-const SIGNATURE_SIZE = 73
+// Sizes are counted in weight units, where witness data weighs a unit per
+// byte and everything else four, and a virtual byte is four weight units
+const WITNESS_SCALE_FACTOR = 4
+// the outpoint and the sequence
+const INPUT_BASE_SIZE = 32 + 4 + 4
+// the value
+const OUTPUT_BASE_SIZE = 8
+// the version and the lock time
+const TX_BASE_SIZE = 4 + 4
+// the marker and the flag of transactions with witness data
+const SEGWIT_HEADER_WEIGHT = 2
+// the largest DER encoded signature with a low s value + sighash type
+const SIGNATURE_SIZE = 71 + 1
+// bitcoin cash schnorr signature + sighash type
+const SCHNORR_SIGNATURE_SIZE = 64 + 1
+// taproot signatures with SIGHASH_DEFAULT leave out the sighash type
+const TAPROOT_SIGNATURE_SIZE = 64
 const PUB_KEY_SIZE = 33
-const SCRIPT_HASH_SIZE = 23
-const PREVOUT_SIZE = 40
+const P2WPKH_PROGRAM_SIZE = 2 + 20
+const P2WSH_PROGRAM_SIZE = 2 + 32
+// the checkdatasig template of replay protected outputs
+const REPLAY_PROTECTION_SCRIPT_SIZE = 142
+const OP_1 = 0x51
+const OP_16 = 0x60
+const OP_CHECKMULTISIG = 0xae
+// utxos that do not carry their multisig script are assumed to be 2-of-3
+const DEFAULT_MULTISIG_THRESHOLD = 2
+const DEFAULT_MULTISIG_SCRIPT_SIZE = 1 + 3 * (1 + PUB_KEY_SIZE) + 1 + 1
 
 export const sizeVarint = (num: number): number =>
   num < 0xfd ? 1 : num <= 0xffff ? 3 : num <= 0xffffffff ? 5 : 9
 
-export function inputBytes(input: UTXO): number {
-  const base = PREVOUT_SIZE
+// the size of the script pushing the data
+const pushSize = (size: number): number =>
+  size < 0x4c ? 1 + size : size <= 0xff ? 2 + size : 3 + size
+
+// the signatures required by a multisig script
+const multisigThreshold = (script?: Buffer): number => {
+  if (
+    script == null ||
+    script[0] < OP_1 ||
+    script[0] > OP_16 ||
+    script[script.length - 1] !== OP_CHECKMULTISIG
+  ) {
+    return DEFAULT_MULTISIG_THRESHOLD
+  }
+  return script[0] - OP_1 + 1
+}
 
-  let scriptSize = sizeVarint(input.script.length)
+// the script sig and the witness items of a multisig input, which start
+// with an empty item for the extra element OP_CHECKMULTISIG pops
+const multisigItems = (
+  script: Buffer | undefined,
+  signatureSize: number
+): number[] => [
+  0,
+  ...new Array(multisigThreshold(script)).fill(signatureSize),
+  script?.length ?? DEFAULT_MULTISIG_SCRIPT_SIZE
+]
+
+interface InputScripts {
+  scriptSig: number[] // the sizes of the pushed items
+  witness?: number[] // the sizes of the witness items of segwit inputs
+}
+
+function inputScripts(input: UTXO): InputScripts {
+  const signatureSize =
+    input.schnorr === true ? SCHNORR_SIGNATURE_SIZE : SIGNATURE_SIZE
   switch (input.scriptType) {
+    case ScriptTypeEnum.p2pk:
+      return { scriptSig: [signatureSize] }
     case ScriptTypeEnum.p2pkh:
-    case ScriptTypeEnum.p2wpkh:
-    case ScriptTypeEnum.p2wpkhp2sh:
-      // signature + public key
-      scriptSize += OP_CODE_SIZE + PUB_KEY_SIZE + OP_CODE_SIZE + SIGNATURE_SIZE
-    case ScriptTypeEnum.p2wpkhp2sh:
-      scriptSize /= WITNESS_SCALE
-      scriptSize += SCRIPT_HASH_SIZE * WITNESS_SCALE
+      return { scriptSig: [signatureSize, PUB_KEY_SIZE] }
     case ScriptTypeEnum.p2sh:
-    case ScriptTypeEnum.p2wsh:
-      // 2-of-3 multisig input
-      scriptSize += 253
+      return { scriptSig: multisigItems(input.redeemScript, signatureSize) }
+    case ScriptTypeEnum.replayProtection:
+      return { scriptSig: [signatureSize] }
+    case ScriptTypeEnum.replayProtectionP2SH:
+      return { scriptSig: [signatureSize, REPLAY_PROTECTION_SCRIPT_SIZE] }
     case ScriptTypeEnum.p2wpkh:
+      return { scriptSig: [], witness: [SIGNATURE_SIZE, PUB_KEY_SIZE] }
     case ScriptTypeEnum.p2wpkhp2sh:
+      return {
+        scriptSig: [P2WPKH_PROGRAM_SIZE],
+        witness: [SIGNATURE_SIZE, PUB_KEY_SIZE]
+      }
     case ScriptTypeEnum.p2wsh:
-      scriptSize += OP_CODE_VSIZE
-      scriptSize /= WITNESS_SCALE
-      scriptSize = scriptSize | 0
+      return {
+        scriptSig: [],
+        witness: multisigItems(input.witnessScript, SIGNATURE_SIZE)
+      }
+    case ScriptTypeEnum.p2wshp2sh:
+      return {
+        scriptSig: [P2WSH_PROGRAM_SIZE],
+        witness: multisigItems(input.witnessScript, SIGNATURE_SIZE)
+      }
+    case ScriptTypeEnum.p2tr:
+      // key path spends only carry the signature
+      return { scriptSig: [], witness: [TAPROOT_SIGNATURE_SIZE] }
   }
+}
 
-  return base + scriptSize
+const isWitnessInput = (input: UTXO): boolean =>
+  inputScripts(input).witness != null
+
+export function inputWeight(input: UTXO): number {
+  const { scriptSig, witness } = inputScripts(input)
+  // pushing an empty item takes the OP_0 alone
+  const scriptSigSize = scriptSig.reduce(
+    (sum, size) => sum + (size === 0 ? 1 : pushSize(size)),
+    0
+  )
+  const baseSize = INPUT_BASE_SIZE + sizeVarint(scriptSigSize) + scriptSigSize
+  const witnessSize =
+    witness == null
+      ? 0
+      : witness.reduce(
+          (sum, size) => sum + sizeVarint(size) + size,
+          sizeVarint(witness.length)
+        )
+  return baseSize * WITNESS_SCALE_FACTOR + witnessSize
+}
+
+export function inputBytes(input: UTXO): number {
+  return Math.ceil(inputWeight(input) / WITNESS_SCALE_FACTOR)
 }
 
 export function outputBytes(output: Output): number {
-  const base = 8 + sizeVarint(output.script.length)
+  return (
+    OUTPUT_BASE_SIZE + sizeVarint(output.script.length) + output.script.length
+  )
+}
 
-  let scriptSize = 0
-  switch (output.scriptType) {
-    case ScriptTypeEnum.p2pkh:
-      scriptSize = 25
-      break
-    case ScriptTypeEnum.p2wpkh:
-      scriptSize = 22
-      break
-    case ScriptTypeEnum.p2sh:
-      scriptSize = 23
-      break
-    case ScriptTypeEnum.p2wsh:
-      scriptSize = 34
-      break
+export function transactionWeight(inputs: UTXO[], outputs: Output[]): number {
+  let weight =
+    (TX_BASE_SIZE + sizeVarint(inputs.length) + sizeVarint(outputs.length)) *
+    WITNESS_SCALE_FACTOR
+  weight += inputs.reduce((sum, input) => sum + inputWeight(input), 0)
+  weight += outputs.reduce(
+    (sum, output) => sum + outputBytes(output) * WITNESS_SCALE_FACTOR,
+    0
+  )
+
+  // inputs without witness data still count their empty witness once any
+  // input has some
+  const witnessInputs = inputs.filter(isWitnessInput).length
+  if (witnessInputs > 0) {
+    weight += SEGWIT_HEADER_WEIGHT + inputs.length - witnessInputs
   }
 
-  return base + scriptSize
+  return weight
 }
 
-export function dustThreshold(output: Output, feeRate: number): number {
-  return outputBytes(output) * feeRate
+// the virtual size, which fees are paid for
+export function transactionBytes(inputs: UTXO[], outputs: Output[]): number {
+  return Math.ceil(transactionWeight(inputs, outputs) / WITNESS_SCALE_FACTOR)
 }
 
-function witnessCount(inputs: UTXO[]): number {
-  return inputs.reduce((sum, input) => {
-    if (
-      input.scriptType === ScriptTypeEnum.p2wsh ||
-      input.scriptType === ScriptTypeEnum.p2wpkhp2sh ||
-      input.scriptType === ScriptTypeEnum.p2wpkh
-    ) {
-      sum++
-    }
+export const bitcoinSizeEstimator: SizeEstimator = {
+  inputBytes,
+  outputBytes,
+  transactionBytes
+}
 
-    return sum
-  }, 0)
+export function dustThreshold(
+  output: Output,
+  feeRate: number,
+  sizeEstimator: SizeEstimator = bitcoinSizeEstimator
+): number {
+  return sizeEstimator.outputBytes(output) * feeRate
 }
 
-export function transactionBytes(inputs: UTXO[], outputs: Output[]): number {
-  let total = 0
-
-  // Calculate the size, minus the input scripts.
-  total += 4
-  total += sizeVarint(inputs.length)
-  total += sizeVarint(outputs.length)
-  total += 4
-
-  const numWitnesses = witnessCount(inputs)
-  if (numWitnesses > 0) {
-    total += 2
-    total += numWitnesses
+// The fee of adding a change output and of spending it later, which it is
+// assumed to cost as much as the average input of the wallet
+export function costOfChange(args: UtxoPickerArgs): number {
+  const { utxos, feeRate, changeScript } = args
+  const sizeEstimator = args.sizeEstimator ?? bitcoinSizeEstimator
+  const changeOutput: Output = {
+    script: Buffer.from(changeScript, 'hex'),
+    value: 0
   }
+  const spendBytes =
+    utxos.length > 0
+      ? Math.ceil(
+          utxos.reduce((sum, utxo) => sum + sizeEstimator.inputBytes(utxo), 0) /
+            utxos.length
+        )
+      : 0
+  return feeRate * (sizeEstimator.outputBytes(changeOutput) + spendBytes)
+}
 
-  total += inputs.reduce((a, x) => a + inputBytes(x), 0)
-  total += outputs.reduce((a, x) => a + outputBytes(x), 0)
-
-  return total
+// The fee paid beyond the size of the transaction, or the cost of the change
+// output for transactions with change. Lower is better.
+export function waste(
+  result: Result,
+  feeRate: number,
+  costOfChange: number,
+  sizeEstimator: SizeEstimator = bitcoinSizeEstimator
+): number {
+  if (result.inputs == null || result.outputs == null) return Infinity
+  if (result.changeUsed) return costOfChange
+  return (
+    result.fee -
+    feeRate * sizeEstimator.transactionBytes(result.inputs, result.outputs)
+  )
 }
 
 export function uintOrNaN(v: number): number {
@@ -122,28 +234,30 @@ export function finalize(
   inputs: Input[],
   outputs: Output[],
   feeRate: number,
-  changeScript: string
+  changeScript: string,
+  sizeEstimator: SizeEstimator = bitcoinSizeEstimator
 ): Result {
   const inValue = sumOrNaN(inputs)
   const outValue = sumOrNaN(outputs)
-  let fee = feeRate * transactionBytes(inputs, outputs)
+  let fee = feeRate * sizeEstimator.transactionBytes(inputs, outputs)
 
   const changeValue = inValue - (outValue + fee)
   const changeOutput: Output = {
     script: Buffer.from(changeScript, 'hex'),
     value: changeValue
   }
-  const changeFee = feeRate * outputBytes(changeOutput)
+  const changeFee = feeRate * sizeEstimator.outputBytes(changeOutput)
   changeOutput.value -= changeFee
   let changeUsed = false
-  if (changeOutput.value > dustThreshold(changeOutput, feeRate)) {
+  if (
+    changeOutput.value > dustThreshold(changeOutput, feeRate, sizeEstimator)
+  ) {
     outputs.push(changeOutput)
     fee += changeFee
     changeUsed = true
   } else {
     fee += changeValue
   }
-  console.log('bytes: ', transactionBytes(inputs, outputs))
 
   return { inputs, outputs, changeUsed, fee }
 }
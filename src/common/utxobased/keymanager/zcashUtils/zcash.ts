@@ -0,0 +1,349 @@
+import * as bitcoin from 'altcoin-js'
+import { blake2bFinal, blake2bInit, blake2bUpdate } from 'blakejs'
+import * as ecc from 'tiny-secp256k1'
+
+// Transparent Zcash transactions in the v4 (Sapling) and v5 (NU5) formats,
+// without any shielded parts. Their signatures commit to a BLAKE2b sighash
+// that includes the consensus branch id of the current network upgrade.
+// https://zips.z.cash/zip-0243
+// https://zips.z.cash/zip-0244
+
+export interface ZcashTxParams {
+  version: number // 4 for sapling or 5 for nu5 transactions
+  consensusBranchId: number
+  expiryHeight?: number // the transactions never expire by default
+}
+
+export interface ZcashOutput {
+  script: Buffer
+  value: number
+}
+
+const OVERWINTERED = 0x80000000
+const SAPLING_VERSION_GROUP_ID = 0x892f2085
+const NU5_VERSION_GROUP_ID = 0x26a7270a
+const PERSONALIZATION_SIZE = 16
+const ZERO_HASH = Buffer.alloc(32)
+
+const uint32 = (num: number): Buffer => {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32LE(num >>> 0, 0)
+  return buffer
+}
+
+const int64 = (num: number): Buffer => {
+  const buffer = Buffer.alloc(8)
+  buffer.writeUInt32LE(num % 0x100000000, 0)
+  buffer.writeUInt32LE(Math.floor(num / 0x100000000), 4)
+  return buffer
+}
+
+const compactSize = (num: number): Buffer => {
+  if (num < 0xfd) return Buffer.from([num])
+  if (num <= 0xffff) {
+    const buffer = Buffer.from([0xfd, 0, 0])
+    buffer.writeUInt16LE(num, 1)
+    return buffer
+  }
+  return Buffer.concat([Buffer.from([0xfe]), uint32(num)])
+}
+
+const varSlice = (data: Buffer): Buffer =>
+  Buffer.concat([compactSize(data.length), data])
+
+// blakejs has no personalization parameter, so the personalization is xored
+// into the initial state like the rest of the blake2b parameter block
+export const blake2b256 = (
+  personalization: Buffer,
+  ...data: Buffer[]
+): Buffer => {
+  if (personalization.length !== PERSONALIZATION_SIZE) {
+    throw new Error('Invalid blake2b personalization')
+  }
+  const ctx = blake2bInit(32)
+  for (let i = 0; i < 4; i++) {
+    ctx.h[12 + i] ^= personalization.readUInt32LE(i * 4)
+  }
+  for (const item of data) blake2bUpdate(ctx, item)
+  return Buffer.from(blake2bFinal(ctx))
+}
+
+const tag = (name: string): Buffer => Buffer.from(name, 'ascii')
+
+// personalizations that commit to the consensus branch
+const branchTag = (name: string, params: ZcashTxParams): Buffer =>
+  Buffer.concat([tag(name), uint32(params.consensusBranchId)])
+
+const header = (params: ZcashTxParams): Buffer =>
+  uint32(params.version | OVERWINTERED)
+
+const expiryHeight = (params: ZcashTxParams): Buffer =>
+  uint32(params.expiryHeight ?? 0)
+
+const serializeOutpoint = (input: bitcoin.TxInput): Buffer =>
+  Buffer.concat([input.hash, uint32(input.index)])
+
+const serializeOutput = (output: ZcashOutput): Buffer =>
+  Buffer.concat([int64(output.value), varSlice(output.script)])
+
+const serializeTransparent = (tx: bitcoin.Transaction): Buffer =>
+  Buffer.concat([
+    compactSize(tx.ins.length),
+    ...tx.ins.map(input =>
+      Buffer.concat([
+        serializeOutpoint(input),
+        varSlice(input.script),
+        uint32(input.sequence)
+      ])
+    ),
+    compactSize(tx.outs.length),
+    ...tx.outs.map(serializeOutput)
+  ])
+
+// the inputs and outputs of the bitcoin transaction in the zcash format,
+// with empty shielded parts
+export const serializeZcashTx = (
+  tx: bitcoin.Transaction,
+  params: ZcashTxParams
+): Buffer => {
+  const noShieldedParts = Buffer.from([0, 0, 0])
+  switch (params.version) {
+    case 4:
+      return Buffer.concat([
+        header(params),
+        uint32(SAPLING_VERSION_GROUP_ID),
+        serializeTransparent(tx),
+        uint32(tx.locktime),
+        expiryHeight(params),
+        int64(0), // value balance
+        noShieldedParts // spends, outputs and joinsplits
+      ])
+    case 5:
+      return Buffer.concat([
+        header(params),
+        uint32(NU5_VERSION_GROUP_ID),
+        uint32(params.consensusBranchId),
+        uint32(tx.locktime),
+        expiryHeight(params),
+        serializeTransparent(tx),
+        noShieldedParts // sapling spends, sapling outputs and orchard actions
+      ])
+    default:
+      throw new Error('Unsupported zcash transaction version')
+  }
+}
+
+// Reads an output of a transaction in any zcash format. Only the transparent
+// parts ahead of the outputs are parsed.
+export const zcashTxOutput = (txHex: string, vout: number): ZcashOutput => {
+  const buffer = Buffer.from(txHex, 'hex')
+  let offset = 0
+  const readSlice = (length: number): Buffer => {
+    if (offset + length > buffer.length) {
+      throw new Error('Invalid zcash transaction')
+    }
+    offset += length
+    return buffer.slice(offset - length, offset)
+  }
+  const readUInt32 = (): number => readSlice(4).readUInt32LE(0)
+  const readCompactSize = (): number => {
+    const size = readSlice(1)[0]
+    if (size === 0xfd) return readSlice(2).readUInt16LE(0)
+    if (size === 0xfe) return readUInt32()
+    if (size === 0xff) throw new Error('Invalid zcash transaction')
+    return size
+  }
+
+  const txHeader = readUInt32()
+  // the version group id
+  if ((txHeader & OVERWINTERED) !== 0) readUInt32()
+  // v5 moves the branch id, lock time and expiry height ahead of the inputs
+  if ((txHeader & ~OVERWINTERED) >= 5) readSlice(12)
+  const inputCount = readCompactSize()
+  for (let i = 0; i < inputCount; i++) {
+    readSlice(36)
+    readSlice(readCompactSize())
+    readUInt32()
+  }
+  const outputCount = readCompactSize()
+  for (let i = 0; i < outputCount; i++) {
+    const value = readUInt32() + readUInt32() * 0x100000000
+    const script = readSlice(readCompactSize())
+    if (i === vout) return { script, value }
+  }
+  throw new Error('Zcash transaction output not found')
+}
+
+const prevoutsDigest = (name: string, tx: bitcoin.Transaction): Buffer =>
+  blake2b256(tag(name), ...tx.ins.map(serializeOutpoint))
+
+const sequenceDigest = (name: string, tx: bitcoin.Transaction): Buffer =>
+  blake2b256(tag(name), ...tx.ins.map(input => uint32(input.sequence)))
+
+const outputsDigest = (name: string, tx: bitcoin.Transaction): Buffer =>
+  blake2b256(tag(name), ...tx.outs.map(serializeOutput))
+
+// zip 243
+const saplingSighash = (
+  tx: bitcoin.Transaction,
+  index: number,
+  prevOut: ZcashOutput,
+  hashType: number,
+  params: ZcashTxParams
+): Buffer => {
+  const input = tx.ins[index]
+  return blake2b256(
+    branchTag('ZcashSigHash', params),
+    header(params),
+    uint32(SAPLING_VERSION_GROUP_ID),
+    prevoutsDigest('ZcashPrevoutHash', tx),
+    sequenceDigest('ZcashSequencHash', tx),
+    outputsDigest('ZcashOutputsHash', tx),
+    ZERO_HASH, // joinsplits
+    ZERO_HASH, // shielded spends
+    ZERO_HASH, // shielded outputs
+    uint32(tx.locktime),
+    expiryHeight(params),
+    int64(0), // value balance
+    uint32(hashType),
+    serializeOutpoint(input),
+    varSlice(prevOut.script),
+    int64(prevOut.value),
+    uint32(input.sequence)
+  )
+}
+
+// zip 244, which shares the digest tree of the txid
+const nu5Digest = (
+  tx: bitcoin.Transaction,
+  transparentDigest: Buffer,
+  params: ZcashTxParams
+): Buffer =>
+  blake2b256(
+    branchTag('ZcashTxHash_', params),
+    blake2b256(
+      tag('ZTxIdHeadersHash'),
+      header(params),
+      uint32(NU5_VERSION_GROUP_ID),
+      uint32(params.consensusBranchId),
+      uint32(tx.locktime),
+      expiryHeight(params)
+    ),
+    transparentDigest,
+    blake2b256(tag('ZTxIdSaplingHash')),
+    blake2b256(tag('ZTxIdOrchardHash'))
+  )
+
+const nu5Sighash = (
+  tx: bitcoin.Transaction,
+  index: number,
+  prevOuts: ZcashOutput[],
+  hashType: number,
+  params: ZcashTxParams
+): Buffer => {
+  const input = tx.ins[index]
+  const prevOut = prevOuts[index]
+  const transparentDigest = blake2b256(
+    tag('ZTxIdTranspaHash'),
+    Buffer.from([hashType]),
+    prevoutsDigest('ZTxIdPrevoutHash', tx),
+    blake2b256(
+      tag('ZTxTrAmountsHash'),
+      ...prevOuts.map(({ value }) => int64(value))
+    ),
+    blake2b256(
+      tag('ZTxTrScriptsHash'),
+      ...prevOuts.map(({ script }) => varSlice(script))
+    ),
+    sequenceDigest('ZTxIdSequencHash', tx),
+    outputsDigest('ZTxIdOutputsHash', tx),
+    blake2b256(
+      tag('Zcash___TxInHash'),
+      serializeOutpoint(input),
+      int64(prevOut.value),
+      varSlice(prevOut.script),
+      uint32(input.sequence)
+    )
+  )
+  return nu5Digest(tx, transparentDigest, params)
+}
+
+export const zcashSighash = (args: {
+  tx: bitcoin.Transaction
+  index: number
+  prevOuts: ZcashOutput[] // the outputs spent by every input
+  hashType: number
+  params: ZcashTxParams
+}): Buffer => {
+  const { tx, index, prevOuts, hashType, params } = args
+  if (hashType !== bitcoin.Transaction.SIGHASH_ALL) {
+    throw new Error('Zcash transactions are only signed with SIGHASH_ALL')
+  }
+  switch (params.version) {
+    case 4:
+      return saplingSighash(tx, index, prevOuts[index], hashType, params)
+    case 5:
+      return nu5Sighash(tx, index, prevOuts, hashType, params)
+    default:
+      throw new Error('Unsupported zcash transaction version')
+  }
+}
+
+export const zcashTxid = (
+  tx: bitcoin.Transaction,
+  params: ZcashTxParams
+): string => {
+  // v5 transaction ids leave out the signatures
+  const hash =
+    params.version === 5
+      ? nu5Digest(
+          tx,
+          blake2b256(
+            tag('ZTxIdTranspaHash'),
+            ...(tx.ins.length + tx.outs.length > 0
+              ? [
+                  prevoutsDigest('ZTxIdPrevoutHash', tx),
+                  sequenceDigest('ZTxIdSequencHash', tx),
+                  outputsDigest('ZTxIdOutputsHash', tx)
+                ]
+              : [])
+          ),
+          params
+        )
+      : bitcoin.crypto.hash256(serializeZcashTx(tx, params))
+  return Buffer.from(hash).reverse().toString('hex')
+}
+
+// Signs every input of the transaction, which must spend the p2pkh output
+// of the private key at the same index
+export const signZcashTx = (args: {
+  tx: bitcoin.Transaction
+  prevOuts: ZcashOutput[]
+  privateKeys: Buffer[]
+  params: ZcashTxParams
+}): { id: string; hex: string } => {
+  const { prevOuts, privateKeys, params } = args
+  const tx = args.tx.clone()
+  const hashType = bitcoin.Transaction.SIGHASH_ALL
+  const scriptSigs = tx.ins.map((_input, index) => {
+    const pubkey = ecc.pointFromScalar(privateKeys[index], true)
+    if (pubkey == null) throw new Error('Invalid private key')
+    const { output } = bitcoin.payments.p2pkh({ pubkey })
+    if (output == null || !output.equals(prevOuts[index].script)) {
+      throw new Error('Zcash signing only supports p2pkh inputs')
+    }
+    const hash = zcashSighash({ tx, index, prevOuts, hashType, params })
+    return bitcoin.script.compile([
+      bitcoin.script.signature.encode(
+        ecc.sign(hash, privateKeys[index]),
+        hashType
+      ),
+      pubkey
+    ])
+  })
+  scriptSigs.forEach((script, index) => tx.setInputScript(index, script))
+  return {
+    id: zcashTxid(tx, params),
+    hex: serializeZcashTx(tx, params).toString('hex')
+  }
+}
@@ -4,6 +4,7 @@ import { EngineEmitter, EngineEvent } from '../../plugin/makeEngineEmitter'
 import {
   addressMessage,
   addressUtxosMessage,
+  blockMessage,
   broadcastTxMessage,
   infoMessage,
   PartialTask,
@@ -88,6 +89,13 @@ export interface ITransaction {
   }>
 }
 
+// a page of the transactions of a block
+export interface IBlock extends ITransactionPaginationResponse {
+  hash: string
+  height: number
+  txs?: ITransaction[]
+}
+
 interface IUTXO {
   txid: string
   vout: number
@@ -166,6 +174,8 @@ export interface BlockBook {
 
   fetchTransaction: (hash: string) => Promise<ITransaction>
 
+  fetchBlock: (height: number, page?: number) => Promise<IBlock>
+
   broadcastTx: (
     transaction: EdgeTransaction
   ) => Promise<ITransactionBroadcastResponse>
@@ -202,6 +212,7 @@ export function makeBlockBook(config: BlockBookConfig): BlockBook {
     watchBlocks,
     fetchAddressUtxos,
     fetchTransaction,
+    fetchBlock,
     broadcastTx
   }
 
@@ -257,6 +268,10 @@ export function makeBlockBook(config: BlockBookConfig): BlockBook {
     return await promisifyWsMessage(transactionMessage(hash))
   }
 
+  async function fetchBlock(height: number, page = 1): Promise<IBlock> {
+    return await promisifyWsMessage(blockMessage(height, page))
+  }
+
   async function fetchAddress(
     address: string,
     opts: IAccountOpts = {}
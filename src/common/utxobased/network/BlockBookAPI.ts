@@ -41,6 +41,13 @@ export const transactionMessage = (hash: string): PartialTask => {
   }
 }
 
+export const blockMessage = (height: number, page: number): PartialTask => {
+  return {
+    method: 'getBlock',
+    params: { id: `${height}`, page }
+  }
+}
+
 export const broadcastTxMessage = (
   transaction: EdgeTransaction
 ): PartialTask => {
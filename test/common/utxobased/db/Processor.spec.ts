@@ -90,4 +90,36 @@ describe('Processor', function () {
     const emptyAddress = await processor.fetchAddressByScriptPubkey('justatest')
     expect(emptyAddress).to.equal(undefined)
   })
+
+  it('tags utxos', async () => {
+    const frozenId = `${'ab'.repeat(32)}_0`
+    const labeledId = `${'cd'.repeat(32)}_1`
+    await processor.updateUtxoTags({ id: frozenId, data: { frozen: true } })
+    await processor.updateUtxoTags({
+      id: labeledId,
+      data: { label: 'treasury' }
+    })
+    await processor.updateUtxoTags({
+      id: labeledId,
+      data: { frozen: true }
+    })
+    expect(await processor.fetchUtxoTags([frozenId, labeledId])).to.eql([
+      { frozen: true },
+      { frozen: true, label: 'treasury' }
+    ])
+
+    // the tags are kept when the wallet resyncs
+    await processor.clearAll()
+    processor = await makeProcessor({ disklet, emitter })
+    await processor.updateUtxoTags({ id: frozenId, data: { frozen: false } })
+    await processor.updateUtxoTags({
+      id: labeledId,
+      data: { label: undefined }
+    })
+    expect(await processor.fetchUtxoTags([frozenId, labeledId])).to.eql([
+      undefined,
+      { frozen: true }
+    ])
+    expect(await processor.fetchUtxoTags([])).to.eql([])
+  })
 })
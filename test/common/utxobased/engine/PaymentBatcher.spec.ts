@@ -0,0 +1,324 @@
+import * as chai from 'chai'
+import { expect } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { makeMemoryDisklet } from 'disklet'
+import { EdgeLog, EdgeTransaction } from 'edge-core-js'
+import { afterEach, describe, it } from 'mocha'
+
+import {
+  makePaymentBatcher,
+  mergePaymentMetadata,
+  PaymentBatcher,
+  QueuedPayment
+} from '../../../../src/common/utxobased/engine/makePaymentBatcher'
+
+chai.use(chaiAsPromised)
+
+const log: EdgeLog = Object.assign(() => undefined, {
+  warn: () => undefined,
+  error: () => undefined
+})
+
+const address = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+
+const sleep = async (ms: number): Promise<void> =>
+  await new Promise(resolve => setTimeout(resolve, ms))
+
+describe('PaymentBatcher', function () {
+  let batchers: PaymentBatcher[]
+  let batches: QueuedPayment[][]
+  let broadcasts: string[]
+  // the block heights of the transactions the wallet knows
+  let walletTxs: { [txid: string]: number }
+  let failing: boolean
+  let saveFailing: boolean
+  let rejecting: boolean
+
+  const makeBatcher = async (
+    storage: { [key: string]: string } = {}
+  ): Promise<PaymentBatcher> => {
+    const batcher = await makePaymentBatcher({
+      disklet: makeMemoryDisklet(storage),
+      log,
+      // a p2wpkh output
+      outputBytes: () => 31,
+      makeBatch: async payments => {
+        if (failing) throw new Error('Insufficient funds')
+        batches.push(payments.map(payment => ({ ...payment })))
+        const txid = `txid${batches.length}`
+        const transaction: EdgeTransaction = {
+          currencyCode: 'BTC',
+          nativeAmount: '0',
+          networkFee: '0',
+          blockHeight: 0,
+          date: 0,
+          txid,
+          signedTx: `signed ${txid}`,
+          ourReceiveAddresses: [],
+          metadata: mergePaymentMetadata(payments)
+        }
+        return transaction
+      },
+      broadcastBatch: async ({ txid }) => {
+        broadcasts.push(txid)
+        if (rejecting) throw new Error('bad-txns-inputs-missingorspent')
+        // the wallet saves the transaction after its broadcast
+        if (saveFailing) throw new Error('Failed to save the transaction')
+        walletTxs[txid] = 0
+      },
+      isRejection: error =>
+        error instanceof Error && error.message.startsWith('bad-txns'),
+      fetchTxBlockHeight: async txid => walletTxs[txid]
+    })
+    batchers.push(batcher)
+    return batcher
+  }
+
+  beforeEach(() => {
+    batchers = []
+    batches = []
+    broadcasts = []
+    walletTxs = {}
+    failing = false
+    saveFailing = false
+    rejecting = false
+  })
+
+  afterEach(() => {
+    for (const batcher of batchers) batcher.stop()
+  })
+
+  it('sends the batch once it counts enough payments', async () => {
+    const batcher = await makeBatcher()
+    await batcher.start()
+    await batcher.setTriggers({ maxCount: 2 })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    expect(batches).to.eql([])
+    await batcher.enqueue({
+      publicAddress: address,
+      nativeAmount: '2000',
+      metadata: { name: 'Bob' }
+    })
+    expect(batches.length).to.equal(1)
+    expect(batches[0].map(({ nativeAmount }) => nativeAmount)).to.eql([
+      '1000',
+      '2000'
+    ])
+    expect(broadcasts).to.eql(['txid1'])
+    expect(batcher.payments.map(({ txid }) => txid)).to.eql(['txid1', 'txid1'])
+    expect(batcher.payments.map(({ status }) => status)).to.eql([
+      'sent',
+      'sent'
+    ])
+    expect(batcher.payments[1].metadata).to.eql({ name: 'Bob' })
+
+    // sent payments are left out of the next batch
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '3000' })
+    expect(batches.length).to.equal(1)
+  })
+
+  it('sends the batch once its outputs get too large', async () => {
+    const batcher = await makeBatcher()
+    await batcher.start()
+    await batcher.setTriggers({ maxBytes: 62 })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    expect(batches.length).to.equal(0)
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    expect(batches.length).to.equal(1)
+  })
+
+  it('sends the batch once it gets too old', async () => {
+    const batcher = await makeBatcher()
+    await batcher.setTriggers({ maxAge: 20 })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    await sleep(40)
+    // the batch waits for the engine to start
+    expect(batches.length).to.equal(0)
+    await batcher.start()
+    expect(batches.length).to.equal(1)
+  })
+
+  it('waits for the start to send', async () => {
+    const batcher = await makeBatcher()
+    await batcher.setTriggers({ maxCount: 1 })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    expect(batches.length).to.equal(0)
+    await expect(batcher.flush()).to.be.rejectedWith(
+      'The payment batcher is not started'
+    )
+    await batcher.start()
+    expect(batches.length).to.equal(1)
+
+    batcher.stop()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    expect(batches.length).to.equal(1)
+  })
+
+  it('keeps the queue across restarts', async () => {
+    const storage = {}
+    const batcher = await makeBatcher(storage)
+    const { id } = await batcher.enqueue({
+      publicAddress: address,
+      nativeAmount: '1000'
+    })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '2000' })
+    await batcher.remove(id)
+
+    const restarted = await makeBatcher(storage)
+    expect(restarted.payments.map(({ nativeAmount }) => nativeAmount)).to.eql([
+      '2000'
+    ])
+    await restarted.start()
+    expect(await restarted.flush()).to.equal('txid1')
+    expect((await makeBatcher(storage)).payments[0].txid).to.equal('txid1')
+    expect(await restarted.flush()).to.equal(undefined)
+  })
+
+  it('keeps the payments queued when the batch fails', async () => {
+    const batcher = await makeBatcher()
+    await batcher.start()
+    failing = true
+    await batcher.setTriggers({ maxCount: 1 })
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    await expect(batcher.flush()).to.be.rejectedWith('Insufficient funds')
+    expect(batcher.payments[0].status).to.equal('queued')
+    expect(batcher.payments[0].txid).to.equal(undefined)
+    failing = false
+    expect(await batcher.flush()).to.equal('txid1')
+  })
+
+  it('broadcasts the signed batch again after a failed save', async () => {
+    const storage = {}
+    const batcher = await makeBatcher(storage)
+    await batcher.start()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    saveFailing = true
+    await expect(batcher.flush()).to.be.rejectedWith(
+      'Failed to save the transaction'
+    )
+    expect(broadcasts).to.eql(['txid1'])
+    expect(batcher.payments[0]).to.include({ status: 'sending', txid: 'txid1' })
+    await expect(batcher.remove(batcher.payments[0].id)).to.be.rejectedWith(
+      'The payment is being sent'
+    )
+    batcher.stop()
+
+    // the restart broadcasts the same transaction rather than a new batch
+    saveFailing = false
+    const restarted = await makeBatcher(storage)
+    await restarted.start()
+    expect(batches.length).to.equal(1)
+    expect(broadcasts).to.eql(['txid1', 'txid1'])
+    expect(restarted.payments[0]).to.include({ status: 'sent', txid: 'txid1' })
+  })
+
+  it('checks the batch being sent against the wallet', async () => {
+    const storage = {}
+    const batcher = await makeBatcher(storage)
+    await batcher.start()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    saveFailing = true
+    await expect(batcher.flush()).to.be.rejected
+    batcher.stop()
+
+    // the wallet found the transaction on the network
+    walletTxs.txid1 = 0
+    const restarted = await makeBatcher(storage)
+    await restarted.start()
+    expect(broadcasts).to.eql(['txid1'])
+    expect(restarted.payments[0]).to.include({ status: 'sent', txid: 'txid1' })
+  })
+
+  it('queues the payments again when the network rejects the batch', async () => {
+    const storage = {}
+    const batcher = await makeBatcher(storage)
+    await batcher.start()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    rejecting = true
+    await expect(batcher.flush()).to.be.rejectedWith(
+      'bad-txns-inputs-missingorspent'
+    )
+    expect(batcher.payments[0].status).to.equal('queued')
+    expect(batcher.payments[0].txid).to.equal(undefined)
+    await expect(batcher.flush()).to.be.rejectedWith(
+      'bad-txns-inputs-missingorspent'
+    )
+    expect(batches.length).to.equal(2)
+    expect(broadcasts).to.eql(['txid1', 'txid2'])
+
+    // the abandoned batch is neither broadcast again nor stuck
+    batcher.stop()
+    const restarted = await makeBatcher(storage)
+    await restarted.start()
+    expect(broadcasts).to.eql(['txid1', 'txid2'])
+    expect(await restarted.remove(restarted.payments[0].id)).to.equal(true)
+    expect(restarted.payments).to.eql([])
+  })
+
+  it('forgets the payments once their batch confirms', async () => {
+    const batcher = await makeBatcher()
+    await batcher.start()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '1000' })
+    await batcher.flush()
+    await batcher.enqueue({ publicAddress: address, nativeAmount: '2000' })
+
+    await batcher.update()
+    expect(batcher.payments.length).to.equal(2)
+    walletTxs.txid1 = 100
+    await batcher.update()
+    expect(batcher.payments.map(({ nativeAmount }) => nativeAmount)).to.eql([
+      '2000'
+    ])
+  })
+
+  it('rejects invalid payments', async () => {
+    const batcher = await makeBatcher()
+    await expect(
+      batcher.enqueue({ publicAddress: address, nativeAmount: '0' })
+    ).to.be.rejectedWith('Invalid spend target')
+    await expect(batcher.setTriggers({ maxCount: 0 })).to.be.rejectedWith(
+      'Invalid batch trigger'
+    )
+    expect(await batcher.remove('7')).to.equal(false)
+  })
+
+  it('merges the metadata of the payments', () => {
+    const payment = (
+      metadata: QueuedPayment['metadata'],
+      id = '0'
+    ): QueuedPayment => ({
+      id,
+      publicAddress: address,
+      nativeAmount: '1000',
+      metadata,
+      queuedAt: 0,
+      status: 'queued'
+    })
+    expect(mergePaymentMetadata([payment(undefined)])).to.equal(undefined)
+    expect(
+      mergePaymentMetadata([payment({ name: 'Bob' }), payment(undefined)])
+    ).to.eql({ name: 'Bob' })
+    expect(
+      mergePaymentMetadata([
+        payment({
+          name: 'Bob',
+          category: 'Expense:Payroll',
+          notes: 'March',
+          exchangeAmount: { 'iso:USD': 10 }
+        }),
+        payment({
+          name: 'Alice',
+          category: 'Expense:Payroll',
+          bizId: 1,
+          exchangeAmount: { 'iso:USD': 5.5 }
+        }),
+        payment({ name: 'Bob', notes: 'April', bizId: 2 })
+      ])
+    ).to.eql({
+      name: 'Bob, Alice',
+      category: 'Expense:Payroll',
+      notes: 'March\nApril',
+      exchangeAmount: { 'iso:USD': 15.5 }
+    })
+  })
+})
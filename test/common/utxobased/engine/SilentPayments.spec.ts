@@ -0,0 +1,58 @@
+import { expect } from 'chai'
+import { makeMemoryDisklet } from 'disklet'
+import { describe, it } from 'mocha'
+
+import { makeSilentPayments } from '../../../../src/common/utxobased/engine/makeSilentPayments'
+
+describe('SilentPayments', function () {
+  it('keeps the first start height', async () => {
+    const storage = {}
+    const silentPayments = await makeSilentPayments({
+      disklet: makeMemoryDisklet(storage)
+    })
+    expect(silentPayments.startHeight).to.equal(undefined)
+    await silentPayments.setStartHeight(800000)
+    await silentPayments.setStartHeight(900000)
+    expect(silentPayments.startHeight).to.equal(800000)
+
+    const restarted = await makeSilentPayments({
+      disklet: makeMemoryDisklet(storage)
+    })
+    expect(restarted.startHeight).to.equal(800000)
+    expect(restarted.scannedHeight).to.equal(undefined)
+  })
+
+  it('rescans from the start height', async () => {
+    const silentPayments = await makeSilentPayments({
+      disklet: makeMemoryDisklet()
+    })
+    // nothing to rescan before the scan starts
+    await silentPayments.rescan()
+    expect(silentPayments.scannedHeight).to.equal(undefined)
+
+    await silentPayments.setStartHeight(800000)
+    await silentPayments.setScannedHeight(800100)
+    await silentPayments.setScannedHeight(800050)
+    expect(silentPayments.scannedHeight).to.equal(800100)
+    await silentPayments.rescan()
+    expect(silentPayments.scannedHeight).to.equal(799999)
+
+    // rescanning earlier blocks moves the start height back
+    await silentPayments.rescan(700000)
+    expect(silentPayments.startHeight).to.equal(700000)
+    expect(silentPayments.scannedHeight).to.equal(699999)
+    await silentPayments.rescan(750000)
+    expect(silentPayments.startHeight).to.equal(700000)
+    expect(silentPayments.scannedHeight).to.equal(749999)
+  })
+
+  it('keeps the tweaks found', async () => {
+    const silentPayments = await makeSilentPayments({
+      disklet: makeMemoryDisklet()
+    })
+    expect(await silentPayments.addTweak('01')).to.equal(true)
+    expect(await silentPayments.addTweak('01')).to.equal(false)
+    await silentPayments.rescan(700000)
+    expect(silentPayments.tweaks).to.eql(['01'])
+  })
+})
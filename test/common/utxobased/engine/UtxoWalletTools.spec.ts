@@ -1,7 +1,35 @@
 import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import * as ecc from 'tiny-secp256k1'
 
-import { NetworkEnum } from '../../../../src/common/plugin/types'
-import { makeUtxoWalletTools } from '../../../../src/common/utxobased/engine/makeUtxoWalletTools'
+import {
+  CurrencyFormat,
+  NetworkEnum
+} from '../../../../src/common/plugin/types'
+import { REPLAY_PROTECTION_BRANCH } from '../../../../src/common/utxobased/engine/constants'
+import {
+  makeUtxoWalletTools,
+  MultisigKeyFormat,
+  UtxoKeyFormat,
+  UTXOPluginWalletTools
+} from '../../../../src/common/utxobased/engine/makeUtxoWalletTools'
+import {
+  addOwnMultisigXpub,
+  deriveXpubsFromKeys,
+  getElectrumSeedFormat,
+  getWalletDescriptors,
+  getWalletMasterSecret,
+  getWalletSupportedFormats,
+  isWatchOnly,
+  makeWatchOnlyKeys,
+  validateMultisigKeys
+} from '../../../../src/common/utxobased/engine/utils'
+import { cdsScriptTemplates } from '../../../../src/common/utxobased/keymanager/bitcoincashUtils/checkdatasig'
+import { ScriptTypeEnum } from '../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  combineSlip39,
+  splitSlip39
+} from '../../../../src/common/utxobased/keymanager/slip39Utils/slip39'
 
 describe('wallet tools tests', () => {
   const walletTools = makeUtxoWalletTools({
@@ -43,6 +71,36 @@ describe('wallet tools tests', () => {
       'a9143fb6e95812e57bb4691f9a4a628862a61a4f769b87'
     )
   })
+  it('Get Bip32Derivation test', () => {
+    const derivation = walletTools.getBip32Derivation({
+      format: 'bip49',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(derivation).to.eql({
+      masterFingerprint: '73c5da0a',
+      path: "m/49'/0'/0'/0/0",
+      pubkey:
+        '039b3b694b8fc5b5e07fb069c783cac754f5d38c3e08bed1960e31fdb1dda35c24'
+    })
+  })
+  it('Get PrivateKey test', () => {
+    const path = { format: 'bip49' as const, changeIndex: 0, addressIndex: 0 }
+    const privateKey = walletTools.getPrivateKey({
+      path,
+      xprivKeys: {
+        bip49:
+          'yprvAHwhK6RbpuS3dgCYHM5jc2ZvEKd7Bi61u9FVhYMpgMSuZS613T1xxQeKTffhrHY79hZ5PsskBjcc6C2V7DrnsMsNaGDaWev3GLRQRgV7hxF'
+      }
+    })
+    const pubkey = ecc.pointFromScalar(Buffer.from(privateKey, 'hex'), true)
+    expect(pubkey?.toString('hex')).to.equal(
+      '039b3b694b8fc5b5e07fb069c783cac754f5d38c3e08bed1960e31fdb1dda35c24'
+    )
+    expect(() => walletTools.getPrivateKey({ path, xprivKeys: {} })).to.throw(
+      'xpriv with format bip49 does not exist'
+    )
+  })
 })
 
 describe('wallet tools wif test', () => {
@@ -83,3 +141,548 @@ describe('wallet tools wif test', () => {
     // expect(address.legacyAddress).to.eqls('lol!')
   })
 })
+
+describe('wallet tools multisig test', () => {
+  const multisig = {
+    threshold: 2,
+    // cosigner order must not change the derived scripts (bip67)
+    xpubs: [
+      'xpub6DnEBNkSJKBYQmsbhS1sP9cNdtU5c9PLFGCjTJmxicxc13WB8zNNGQazabQpyFAGW5bV9tMko4uBxDxjUKL6dSAcx1tEbgEHtgSqyRsekh6',
+      'xpub6DkFAXWQ2dHxq2vatrt9qyA3bXYU4ToWQwCHbf5XB2mSTexcHZCeKS1VZYcPoBd5X8yVcbXFHJR9R8UCVpt82VX1VhR28mCyxUFL4r6KFrf',
+      'xpub6FQya7zGhR92kacYsNnjreouvnHJMpXYsUXnW6NJJAJRCKsa26TzDy4LdnGhEurr3d6y1J8PJ7EEMKQp74XTqYvmGJNogYXSKDszYHtF8mX'
+    ],
+    scriptType: ScriptTypeEnum.p2wsh
+  }
+  const walletTools = makeUtxoWalletTools({
+    keys: { format: 'bip48', multisig },
+    coin: 'bitcoin',
+    network: NetworkEnum.Mainnet
+  })
+  const validate = (changes: Partial<MultisigKeyFormat>): MultisigKeyFormat =>
+    validateMultisigKeys({
+      multisig: { ...multisig, ...changes },
+      coin: 'bitcoin',
+      network: NetworkEnum.Mainnet
+    })
+
+  it('Get Address test', () => {
+    const address = walletTools.getAddress({
+      format: 'bip48',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(address.address).to.eqls(
+      'bc1qm43n7nnev58aj3nrznz2xscgv98t7gxycq5pmp20a5vzfp5t0q2s7r6twa'
+    )
+  })
+  it('Get ScriptPubkey test', () => {
+    const scriptPubkey = walletTools.getScriptPubkey({
+      format: 'bip48',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(scriptPubkey.scriptPubkey).to.eqls(
+      '0020dd633f4e79650fd9466314c4a34308614ebf20c4c0281d854fed1824868b7815'
+    )
+    expect(scriptPubkey.witnessScript).to.eqls(
+      '5221028e818df63d6f2dce9308d7455fd4c85cbb39d703608b8fbed647d75e262322d82103229cb34fe3eb1af43b6dd2a2e1b31681039b71d9303ded36b3128ef359e379bd2103dc1953c2756c7c58d4f48ca1bbba767f414fd236bf4d662b67721ac626c514e053ae'
+    )
+  })
+  it('Validates the multisig keys', () => {
+    expect(validate({})).to.eql(multisig)
+    expect(validate({ threshold: 1, scriptType: ScriptTypeEnum.p2sh })).to.eql({
+      ...multisig,
+      threshold: 1,
+      scriptType: ScriptTypeEnum.p2sh
+    })
+    expect(() => validate({ threshold: 0 })).to.throw(
+      'Invalid multisig threshold'
+    )
+    expect(() => validate({ threshold: 4 })).to.throw(
+      'Invalid multisig threshold'
+    )
+    expect(() => validate({ scriptType: ScriptTypeEnum.p2wpkh })).to.throw(
+      'Invalid multisig script type'
+    )
+    expect(() =>
+      validate({ xpubs: new Array(16).fill(multisig.xpubs[0]) })
+    ).to.throw('Invalid multisig xpubs')
+    expect(() =>
+      validate({ xpubs: [...multisig.xpubs.slice(1), 'xpub'] })
+    ).to.throw('Invalid extended public key')
+  })
+  it('Adds its own xpub to the cosigners', () => {
+    const keys: UtxoKeyFormat = {
+      format: 'bip48',
+      bitcoinKey:
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      multisig: { ...multisig, xpubs: [multisig.xpubs[0], multisig.xpubs[2]] }
+    }
+    const result = addOwnMultisigXpub({
+      keys,
+      coin: 'bitcoin',
+      network: NetworkEnum.Mainnet
+    })
+    // the key of the mnemonic at m/48'/0'/0'/2'
+    expect(result.xpubs).to.eql([
+      multisig.xpubs[0],
+      multisig.xpubs[2],
+      multisig.xpubs[1]
+    ])
+    expect(
+      addOwnMultisigXpub({
+        keys: { ...keys, multisig: result },
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet
+      })
+    ).to.eql(result)
+  })
+  it('Rejects a multisig xpub without its cosigners', () => {
+    expect(() =>
+      makeWatchOnlyKeys({
+        key: multisig.xpubs[0],
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet,
+        format: 'bip48'
+      })
+    ).to.throw('Multisig wallets need the keys of every cosigner')
+  })
+})
+
+describe('wallet tools watch-only test', () => {
+  const zpub =
+    'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+  const keys = makeWatchOnlyKeys({
+    key: zpub,
+    coin: 'bitcoin',
+    network: NetworkEnum.Mainnet
+  })
+  const walletTools = makeUtxoWalletTools({
+    keys,
+    coin: 'bitcoin',
+    network: NetworkEnum.Mainnet
+  })
+
+  it('Makes keys from an xpub', () => {
+    expect(keys).to.eql({
+      format: 'bip84',
+      coinType: undefined,
+      bitcoinXpub: { bip84: zpub }
+    })
+    expect(isWatchOnly({ keys, coin: 'bitcoin' })).to.equal(true)
+    expect(getWalletSupportedFormats({ keys, coin: 'bitcoin' })).to.eql([
+      'bip84'
+    ])
+  })
+  it('Makes keys from a descriptor', () => {
+    expect(
+      makeWatchOnlyKeys({
+        key:
+          "wpkh([73c5da0a/84'/0'/0']xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V/<0;1>/*)#hpg6d6w2",
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet
+      })
+    ).to.eql({
+      format: 'bip84',
+      coinType: 0,
+      account: 0,
+      bitcoinXpub: { bip84: zpub }
+    })
+  })
+  it('Converts an xpub of the legacy version to the format', () => {
+    expect(
+      makeWatchOnlyKeys({
+        key:
+          'xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V',
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet,
+        format: 'bip84'
+      })
+    ).to.eql({
+      format: 'bip84',
+      coinType: undefined,
+      bitcoinXpub: { bip84: zpub }
+    })
+  })
+  it('Rejects an xpub of another format', () => {
+    expect(() =>
+      makeWatchOnlyKeys({
+        key: zpub,
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet,
+        format: 'bip49'
+      })
+    ).to.throw('Invalid extended public key')
+  })
+  it('Get Address test', () => {
+    const address = walletTools.getAddress({
+      format: 'bip84',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(address.address).to.eqls(
+      'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+    )
+  })
+  it('Get Bip32Derivation test', () => {
+    expect(
+      walletTools.getBip32Derivation({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      })
+    ).to.equal(undefined)
+  })
+})
+
+describe('wallet tools passphrase test', () => {
+  const makeKeys = (passphrase?: string): UtxoKeyFormat => {
+    const keys: UtxoKeyFormat = {
+      format: 'bip84',
+      bitcoinKey:
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      coinType: 0,
+      passphrase
+    }
+    keys.bitcoinXpub = deriveXpubsFromKeys({
+      keys,
+      coin: 'bitcoin',
+      network: NetworkEnum.Mainnet
+    })
+    return keys
+  }
+  const getFirstAddress = (keys: UtxoKeyFormat): string =>
+    makeUtxoWalletTools({
+      keys,
+      coin: 'bitcoin',
+      network: NetworkEnum.Mainnet
+    }).getAddress({ format: 'bip84', changeIndex: 0, addressIndex: 0 }).address
+
+  it('Derives other keys with a passphrase', () => {
+    const keys = makeKeys('TREZOR')
+    expect(keys.bitcoinXpub).to.eql({
+      bip84:
+        'zpub6rXDN3yuixCtvAyzKn3uWLDr8qXKEQ2orduEL5AAysdHZmuPVUL2vbMQDEhp8L9hRsgM8J8idDNPdZjrob8R5e7x7UoYXVdfjDG96TLa7La',
+      bip49:
+        'ypub6XRZqAj8R959SPF3UeP8gLsosvY7dskBv68N1rtd6pBwRwvAYJob7XS2VdxawoSdBdNEi32eQatwPBm412BZyfig481iqZKgseAZbdQdmMK'
+    })
+    expect(getFirstAddress(keys)).to.eqls(
+      'bc1qv5rmq0kt9yz3pm36wvzct7p3x6mtgehjul0feu'
+    )
+  })
+  it('Get Bip32Derivation test', () => {
+    expect(
+      makeUtxoWalletTools({
+        keys: makeKeys('TREZOR'),
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet
+      }).getBip32Derivation({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      })?.masterFingerprint
+    ).to.equal('b4e3f5ed')
+  })
+  it('Treats an empty passphrase like none', () => {
+    expect(getFirstAddress(makeKeys(''))).to.eqls(getFirstAddress(makeKeys()))
+  })
+})
+
+describe('wallet tools account test', () => {
+  const keys: UtxoKeyFormat = {
+    format: 'bip84',
+    bitcoinKey:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    coinType: 0,
+    account: 1
+  }
+  const args = { keys, coin: 'bitcoin', network: NetworkEnum.Mainnet }
+  keys.bitcoinXpub = deriveXpubsFromKeys(args)
+  const walletTools = makeUtxoWalletTools(args)
+
+  it('Get Address test', () => {
+    const address = walletTools.getAddress({
+      format: 'bip84',
+      changeIndex: 0,
+      addressIndex: 0
+    })
+    expect(address.address).to.eqls(
+      'bc1qku0qh0mc00y8tk0n65x2tqw4trlspak0fnjmfz'
+    )
+  })
+  it('Get Bip32Derivation test', () => {
+    expect(
+      walletTools.getBip32Derivation({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      })?.path
+    ).to.equal("m/84'/0'/1'/0/0")
+  })
+  it('Round trips the account through descriptors', () => {
+    const [descriptor] = getWalletDescriptors(args)
+    expect(descriptor).to.contain("[73c5da0a/84'/0'/1']")
+    expect(
+      makeWatchOnlyKeys({
+        key: descriptor,
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet
+      })
+    ).to.eql({
+      format: 'bip84',
+      coinType: 0,
+      account: 1,
+      bitcoinXpub: { bip84: keys.bitcoinXpub.bip84 }
+    })
+  })
+})
+
+describe('wallet tools derivation path test', () => {
+  const makeWalletTools = (
+    format: CurrencyFormat,
+    derivationPath: string
+  ): {
+    keys: UtxoKeyFormat
+    walletTools: ReturnType<typeof makeUtxoWalletTools>
+  } => {
+    const keys: UtxoKeyFormat = {
+      format,
+      bitcoinKey:
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      coinType: 0,
+      derivationPath
+    }
+    const args = { keys, coin: 'bitcoin', network: NetworkEnum.Mainnet }
+    keys.bitcoinXpub = deriveXpubsFromKeys(args)
+    return { keys, walletTools: makeUtxoWalletTools(args) }
+  }
+
+  it('Matches the standard path with a template', () => {
+    const { walletTools } = makeWalletTools('bip44', 'm/44h/0h/{account}h')
+    expect(
+      walletTools.getAddress({
+        format: 'bip44',
+        changeIndex: 0,
+        addressIndex: 0
+      }).address
+    ).to.eqls('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA')
+  })
+  it('Derives a segwit wallet at a custom path alone', () => {
+    const { keys, walletTools } = makeWalletTools(
+      'bip84',
+      "m/84'/0'/2147483644'"
+    )
+    expect(Object.keys(keys.bitcoinXpub)).to.eql(['bip84'])
+    expect(getWalletSupportedFormats({ keys, coin: 'bitcoin' })).to.eql([
+      'bip84'
+    ])
+    expect(
+      walletTools.getBip32Derivation({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      })?.path
+    ).to.equal("m/84'/0'/2147483644'/0/0")
+  })
+  it('Derives a wallet from the root key', () => {
+    const { keys, walletTools } = makeWalletTools('bip84', 'm')
+    expect(
+      walletTools.getBip32Derivation({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      })?.path
+    ).to.equal('m/0/0')
+    expect(
+      getWalletDescriptors({
+        keys,
+        coin: 'bitcoin',
+        network: NetworkEnum.Mainnet
+      })[0]
+    ).to.match(/^wpkh\(\[73c5da0a\]xpub/)
+  })
+  it('Rejects invalid paths', () => {
+    expect(() => makeWalletTools('bip84', "84'/0'/0'")).to.throw(
+      "Invalid derivation path 84'/0'/0'"
+    )
+    expect(() => makeWalletTools('bip84', "m/84'/x/0'")).to.throw(
+      "Invalid derivation path m/84'/x/0'"
+    )
+  })
+})
+
+describe('wallet tools electrum seed test', () => {
+  const mnemonic =
+    'bitter grass shiver impose acquire brush forget axis eager alone wine silver'
+  const format = getElectrumSeedFormat(mnemonic)
+  const keys: UtxoKeyFormat = {
+    format,
+    bitcoinKey: mnemonic,
+    electrumSeed: true
+  }
+  const args = { keys, coin: 'bitcoin', network: NetworkEnum.Mainnet }
+  keys.bitcoinXpub = deriveXpubsFromKeys(args)
+  const walletTools = makeUtxoWalletTools(args)
+
+  it('Maps the seed to its format', () => {
+    expect(format).to.equal('bip84')
+    expect(getWalletSupportedFormats(args)).to.eql(['bip84'])
+  })
+  it('Get Address test', () => {
+    expect(
+      walletTools.getAddress({
+        format: 'bip84',
+        changeIndex: 0,
+        addressIndex: 0
+      }).address
+    ).to.eqls('bc1q3g5tmkmlvxryhh843v4dz026avatc0zzr6h3af')
+    expect(
+      walletTools.getAddress({
+        format: 'bip84',
+        changeIndex: 1,
+        addressIndex: 0
+      }).address
+    ).to.eqls('bc1qdy94n2q5qcp0kg7v9yzwe6wvfkhnvyzje7nx2p')
+  })
+})
+
+describe('wallet tools slip39 test', () => {
+  const args = {
+    keys: {
+      format: 'bip84' as const,
+      bitcoinKey:
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      coinType: 0,
+      passphrase: 'TREZOR'
+    },
+    coin: 'bitcoin',
+    network: NetworkEnum.Mainnet
+  }
+
+  it('Restores the same keys from the shares', () => {
+    const [shares] = splitSlip39({
+      masterSecret: getWalletMasterSecret(args),
+      groupThreshold: 1,
+      groups: [{ threshold: 2, count: 3 }],
+      random: randomBytes
+    })
+    const keys: UtxoKeyFormat = {
+      format: 'bip84',
+      bitcoinKey: combineSlip39({ mnemonics: shares.slice(1) }).toString(
+        'base64'
+      ),
+      coinType: 0,
+      slip39Seed: true
+    }
+    expect(deriveXpubsFromKeys({ ...args, keys }).bip84).to.equal(
+      deriveXpubsFromKeys(args).bip84
+    )
+  })
+})
+
+describe('wallet tools payment code test', () => {
+  const makeWalletTools = (bitcoinKey: string): UTXOPluginWalletTools =>
+    makeUtxoWalletTools({
+      keys: { format: 'bip84', bitcoinKey, coinType: 0 },
+      coin: 'bitcoin',
+      network: NetworkEnum.Mainnet
+    })
+  // the wallets of the bip47 test vectors
+  const alice = makeWalletTools(
+    'response seminar brave tip suit recall often sound stick owner lottery motion'
+  )
+  const bob = makeWalletTools(
+    'reward upper indicate eight swift arch injury crystal super wrestle already dentist'
+  )
+
+  it('Get notification address test', () => {
+    expect(
+      alice.getAddress({ format: 'bip47', changeIndex: 0, addressIndex: 0 })
+        .address
+    ).to.equal('1JDdmqFLhpzcUwPeinhJbUPw4Co3aWLyzW')
+    expect(
+      alice.getPaymentCodeNotificationAddress(bob.getPaymentCode()).address
+    ).to.equal('1ChvUUvht2hUQufHBXF8NgLhW8SwE2ecGV')
+    expect(() =>
+      alice.getAddress({ format: 'bip47', changeIndex: 0, addressIndex: 1 })
+    ).to.throw('Payment codes have a single notification address')
+  })
+
+  it('Get payment code address test', () => {
+    const branch = bob.addPaymentCode(alice.getPaymentCode())
+    expect(branch).to.equal(1)
+    expect(bob.addPaymentCode(alice.getPaymentCode())).to.equal(branch)
+    const path = { format: 'bip47' as const, changeIndex: branch }
+    for (let addressIndex = 0; addressIndex < 2; addressIndex++) {
+      expect(bob.getAddress({ ...path, addressIndex }).address).to.equal(
+        alice.getPaymentCodeSendAddress({
+          paymentCode: bob.getPaymentCode(),
+          index: addressIndex
+        }).address
+      )
+    }
+    expect(bob.getAddress({ ...path, addressIndex: 0 }).address).to.equal(
+      '141fi7TY3h936vRUKh1qfUZr8rSBuYbVBK'
+    )
+    expect(bob.getBip32Derivation({ ...path, addressIndex: 0 })).to.equal(
+      undefined
+    )
+  })
+
+  it('Rejects unknown payment codes', () => {
+    expect(() =>
+      alice.getAddress({ format: 'bip47', changeIndex: 2, addressIndex: 0 })
+    ).to.throw('wallet tools: unknown payment code 2')
+    expect(() => alice.addPaymentCode('PM8TJ')).to.throw('Invalid payment code')
+  })
+})
+
+describe('wallet tools replay protection test', () => {
+  const keys: UtxoKeyFormat = {
+    format: 'bip44',
+    bitcoincashKey:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    coinType: 145
+  }
+  const walletTools = makeUtxoWalletTools({
+    keys: {
+      ...keys,
+      bitcoincashXpub: deriveXpubsFromKeys({
+        keys,
+        coin: 'bitcoincash',
+        network: NetworkEnum.Mainnet
+      })
+    },
+    coin: 'bitcoincash',
+    network: NetworkEnum.Mainnet
+  })
+  const path = {
+    format: 'bip44' as const,
+    changeIndex: REPLAY_PROTECTION_BRANCH,
+    addressIndex: 0
+  }
+
+  it('Derives replay protected p2sh addresses', () => {
+    const pubkey = walletTools.getPubkey(path)
+    const { scriptPubkey, redeemScript } = walletTools.getScriptPubkey(path)
+    expect(redeemScript).to.equal(cdsScriptTemplates.replayProtection(pubkey))
+    const { address } = walletTools.getAddress(path)
+    expect(address.startsWith('bitcoincash:p')).to.equal(true)
+    expect(walletTools.addressToScriptPubkey(address)).to.equal(scriptPubkey)
+    expect(
+      walletTools.scriptPubkeyToAddress({
+        scriptPubkey,
+        format: 'bip44',
+        changeIndex: REPLAY_PROTECTION_BRANCH
+      }).address
+    ).to.equal(address)
+  })
+
+  it('Keeps the other branches p2pkh', () => {
+    expect(
+      walletTools
+        .getAddress({ ...path, changeIndex: 0 })
+        .address.startsWith('bitcoincash:q')
+    ).to.equal(true)
+  })
+})
@@ -0,0 +1,87 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import * as ecc from 'tiny-secp256k1'
+
+import {
+  bchSchnorrSign,
+  bchSchnorrVerify
+} from '../../../../../src/common/utxobased/keymanager/bitcoincashUtils/schnorr'
+import { ScriptTypeEnum } from '../../../../../src/common/utxobased/keymanager/keymanager'
+import { inputBytes } from '../../../../../src/common/utxobased/keymanager/utxopicker/utils'
+
+describe('bitcoin cash schnorr signatures, taken from the specification test vectors', () => {
+  it('verifies vector 1', () => {
+    const publicKey = Buffer.from(
+      '0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798',
+      'hex'
+    )
+    const signature = Buffer.from(
+      '787A848E71043D280C50470E8E1532B2DD5D20EE912A45DBDD2BD1DFBF187EF67031A98831859DC34DFFEEDDA86831842CCD0079E1F92AF177F7F22CC1DCED05',
+      'hex'
+    )
+    expect(
+      bchSchnorrVerify(Buffer.alloc(32, 0), publicKey, signature)
+    ).to.equal(true)
+    expect(
+      bchSchnorrVerify(Buffer.alloc(32, 1), publicKey, signature)
+    ).to.equal(false)
+  })
+
+  it('verifies vector 2', () => {
+    const hash = Buffer.from(
+      '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89',
+      'hex'
+    )
+    const publicKey = Buffer.from(
+      '02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      'hex'
+    )
+    const signature = Buffer.from(
+      '2A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1D1E51A22CCEC35599B8F266912281F8365FFC2D035A230434A1A64DC59F7013FD',
+      'hex'
+    )
+    expect(bchSchnorrVerify(hash, publicKey, signature)).to.equal(true)
+    // the signature commits to the public key
+    expect(
+      bchSchnorrVerify(
+        hash,
+        Buffer.from(
+          '03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+          'hex'
+        ),
+        signature
+      )
+    ).to.equal(false)
+  })
+
+  it('signs deterministically', () => {
+    const privateKey = Buffer.from(
+      'b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef',
+      'hex'
+    )
+    const hash = Buffer.alloc(32, 7)
+    const signature = bchSchnorrSign(hash, privateKey)
+    expect(signature.length).to.equal(64)
+    expect(bchSchnorrSign(hash, privateKey).equals(signature)).to.equal(true)
+    expect(
+      bchSchnorrVerify(
+        hash,
+        ecc.pointFromScalar(privateKey, true) as Buffer,
+        signature
+      )
+    ).to.equal(true)
+  })
+
+  it('estimates the smaller size of schnorr signed inputs', () => {
+    const input = {
+      hash: Buffer.alloc(32),
+      index: 0,
+      value: 10000,
+      script: Buffer.alloc(25),
+      scriptType: ScriptTypeEnum.p2pkh
+    }
+    expect(
+      inputBytes(input) - inputBytes({ ...input, schnorr: true })
+    ).to.equal(7)
+  })
+})
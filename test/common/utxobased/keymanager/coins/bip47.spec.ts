@@ -0,0 +1,134 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { isPaymentCode } from '../../../../../src/common/utxobased/keymanager/bip47Utils/bip47'
+import {
+  BIP43PurposeTypeEnum,
+  parsePaymentCodeNotification,
+  paymentCodeNotificationScript,
+  paymentCodeToNotificationPubkey,
+  paymentCodeToReceivePubkey,
+  paymentCodeToSendPubkey,
+  seedOrMnemonicToXPriv,
+  xprivToPaymentCode
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+// test vectors of bip47
+const bitcoin47 = { network: NetworkEnum.Mainnet, coin: 'bitcoin' }
+const paymentCodeArgs = (
+  seed: string
+): { xpriv: string; network: NetworkEnum; coin: string } => ({
+  ...bitcoin47,
+  xpriv: seedOrMnemonicToXPriv({
+    ...bitcoin47,
+    seed,
+    type: BIP43PurposeTypeEnum.PaymentCode
+  })
+})
+const alice = paymentCodeArgs(
+  'response seminar brave tip suit recall often sound stick owner lottery motion'
+)
+const bob = paymentCodeArgs(
+  'reward upper indicate eight swift arch injury crystal super wrestle already dentist'
+)
+const alicePaymentCode =
+  'PM8TJTLJbPRGxSbc8EJi42Wrr6QbNSaSSVJ5Y3E4pbCYiTHUskHg13935Ubb7q8tx9GVbh2UuRnBc3WSyJHhUrw8KhprKnn9eDznYGieTzFcwQRya4GA'
+const bobPaymentCode =
+  'PM8TJS2JxQ5ztXUpBBRnpTbcUXbUHy2T1abfrb3KkAAtMEGNbey4oumH7Hc578WgQJhPjBxteQ5GHHToTYHE3A1w6p7tU6KSoFmWBVbFGjKPisZDbP97'
+
+const p2pkhAddress = (pubkey: string): string | undefined =>
+  bitcoin.payments.p2pkh({ pubkey: Buffer.from(pubkey, 'hex') }).address
+
+describe('bip47 payment codes', () => {
+  it('derives the payment codes of the wallets', () => {
+    expect(xprivToPaymentCode(alice)).to.equal(alicePaymentCode)
+    expect(xprivToPaymentCode(bob)).to.equal(bobPaymentCode)
+    expect(isPaymentCode(alicePaymentCode)).to.equal(true)
+    expect(
+      isPaymentCode(alicePaymentCode.replace('PM8TJT', 'PM8TJS'))
+    ).to.equal(false)
+  })
+
+  it('derives the notification addresses', () => {
+    expect(
+      p2pkhAddress(paymentCodeToNotificationPubkey(alicePaymentCode))
+    ).to.equal('1JDdmqFLhpzcUwPeinhJbUPw4Co3aWLyzW')
+    expect(
+      p2pkhAddress(paymentCodeToNotificationPubkey(bobPaymentCode))
+    ).to.equal('1ChvUUvht2hUQufHBXF8NgLhW8SwE2ecGV')
+  })
+
+  it('derives the same payment addresses for the sender and recipient', () => {
+    const addresses = [
+      '141fi7TY3h936vRUKh1qfUZr8rSBuYbVBK',
+      '12u3Uued2fuko2nY4SoSFGCoGLCBUGPkk6',
+      '1FsBVhT5dQutGwaPePTYMe5qvYqqjxyftc'
+    ]
+    addresses.forEach((address, index) => {
+      const sendPubkey = paymentCodeToSendPubkey({
+        ...alice,
+        paymentCode: bobPaymentCode,
+        index
+      })
+      expect(p2pkhAddress(sendPubkey)).to.equal(address)
+      expect(
+        paymentCodeToReceivePubkey({
+          ...bob,
+          paymentCode: alicePaymentCode,
+          index
+        })
+      ).to.equal(sendPubkey)
+    })
+  })
+
+  describe('notification transaction', () => {
+    // Kx983SRhAZpAhj7Aac1wUXMJ6XZeyJKqCxJJ49dxEbYCT4a1ozRD
+    const privateKey =
+      '1b7a10f45118e2519a8dd46ef81591c1ae501d082b6610fdda3de7a3c932880d'
+    const outpoint = {
+      txid: '9c6000d597c5008f7bfc2618aed5e4a6ae57677aab95078aae708e1cab11f486',
+      vout: 1
+    }
+    const script = paymentCodeNotificationScript({
+      ...alice,
+      ...outpoint,
+      paymentCode: bobPaymentCode,
+      privateKey
+    })
+
+    it('blinds the payment code of the sender', () => {
+      expect(script).to.equal(
+        '6a4c50010002063e4eb95e62791b06c50e1a3a942e1ecaaa9afbbeb324d16ae6821e091611fa96c0cf048f607fe51a0327f5e2528979311c78cb2de0d682c61e1180fc3d543b00000000000000000000000000'
+      )
+    })
+
+    it('lets the recipient read the payment code of the sender', () => {
+      const tx = new bitcoin.Transaction()
+      // a p2pkh input with a placeholder signature and the designated key
+      const designatedPubkey = Buffer.from(
+        '0272d83d8a1fa323feab1c085157a0791b46eba34afb8bfbfaeb3a3fcc3f2c9ad8',
+        'hex'
+      )
+      tx.addInput(
+        Buffer.from(outpoint.txid, 'hex').reverse(),
+        outpoint.vout,
+        0xffffffff,
+        bitcoin.script.compile([Buffer.alloc(71, 1), designatedPubkey])
+      )
+      tx.addOutput(
+        bitcoin.address.toOutputScript('1ChvUUvht2hUQufHBXF8NgLhW8SwE2ecGV'),
+        546
+      )
+      tx.addOutput(Buffer.from(script, 'hex'), 0)
+
+      expect(
+        parsePaymentCodeNotification({ ...bob, txHex: tx.toHex() })
+      ).to.equal(alicePaymentCode)
+      expect(
+        parsePaymentCodeNotification({ ...alice, txHex: tx.toHex() })
+      ).to.equal(undefined)
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { IUTXO } from '../../../../../src/common/utxobased/db/types'
+import {
+  makeTx,
+  ScriptTypeEnum
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  branchAndBound,
+  costOfChange,
+  UTXO
+} from '../../../../../src/common/utxobased/keymanager/utxopicker'
+import { transactionBytes } from '../../../../../src/common/utxobased/keymanager/utxopicker/utils'
+
+const address = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+const script = '0014751e76e8199196d454941c45d1b3a323f1433bd6'
+const values = [100000, 60000, 35000, 20000, 7000]
+
+const makeUtxo = (value: number, vout: number): UTXO => ({
+  hash: Buffer.alloc(32, vout + 1),
+  index: vout,
+  value,
+  script: Buffer.from(script, 'hex'),
+  scriptType: ScriptTypeEnum.p2wpkh,
+  witnessUtxo: { script: Buffer.from(script, 'hex'), value }
+})
+
+const makeIUtxo = (value: number, vout: number): IUTXO => ({
+  id: `${'ab'.repeat(32)}_${vout}`,
+  txid: 'ab'.repeat(32),
+  vout,
+  value: value.toString(),
+  scriptPubkey: script,
+  script,
+  scriptType: ScriptTypeEnum.p2wpkh,
+  blockHeight: 1,
+  spent: false
+})
+
+const feeRate = 2
+const utxos = values.map(makeUtxo)
+// the target paid exactly by the inputs, after the fee
+const exactTarget = (inputs: UTXO[]): number =>
+  inputs.reduce((sum, utxo) => sum + utxo.value, 0) -
+  feeRate *
+    transactionBytes(inputs, [{ script: Buffer.from(script, 'hex'), value: 0 }])
+
+describe('branch and bound coin selection', () => {
+  it('finds a set of inputs without change', () => {
+    const value = exactTarget([utxos[1], utxos[3]])
+    const result = branchAndBound({
+      utxos,
+      targets: [{ script, value }],
+      feeRate,
+      changeScript: script
+    })
+    expect(result.changeUsed).to.equal(false)
+    expect(result.inputs?.map(({ value }) => value)).to.have.members([
+      60000,
+      20000
+    ])
+    expect(result.outputs?.length).to.equal(1)
+  })
+
+  it('gives the excess below the cost of change to the fee', () => {
+    const args = { utxos, targets: [], feeRate, changeScript: script }
+    const excess = Math.floor(costOfChange(args) / 2)
+    const value = exactTarget([utxos[0]]) - excess
+    const result = branchAndBound({ ...args, targets: [{ script, value }] })
+    expect(result.changeUsed).to.equal(false)
+    expect(result.inputs?.map(({ value }) => value)).to.eql([100000])
+    expect(result.fee).to.equal(100000 - value)
+  })
+
+  it('fails without a changeless set of inputs', () => {
+    const result = branchAndBound({
+      utxos: utxos.slice(0, 1),
+      targets: [{ script, value: 50000 }],
+      feeRate,
+      changeScript: script
+    })
+    expect(result.inputs).to.equal(undefined)
+  })
+})
+
+describe('makeTx coin selection', () => {
+  const spend = async (value: number): Promise<ReturnType<typeof makeTx>> =>
+    await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [],
+      utxos: values.map(makeIUtxo),
+      targets: [{ address, value }],
+      feeRate,
+      setRBF: false,
+      coin: 'bitcoin',
+      freshChangeAddress: address
+    })
+
+  it('prefers a transaction without change', async () => {
+    const tx = await spend(exactTarget([utxos[2], utxos[4]]))
+    expect(tx.changeUsed).to.equal(false)
+    expect(tx.inputs.map(({ value }) => value)).to.have.members([35000, 7000])
+  })
+
+  it('falls back to accumulating inputs with change', async () => {
+    const tx = await spend(50000)
+    expect(tx.changeUsed).to.equal(true)
+    expect(tx.outputs.length).to.equal(2)
+  })
+})
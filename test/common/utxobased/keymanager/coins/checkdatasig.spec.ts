@@ -1,15 +1,51 @@
 import { expect } from 'chai'
 import { describe, it } from 'mocha'
 
-import { cdsScriptTemplates } from '../../../../../src/common/utxobased/keymanager/bitcoincashUtils/checkdatasig'
+import {
+  cdsScriptTemplates,
+  isReplayProtectionScript
+} from '../../../../../src/common/utxobased/keymanager/bitcoincashUtils/checkdatasig'
+import {
+  pubkeyToScriptPubkey,
+  ScriptTypeEnum
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
 
 describe('bitcoin cash checkdatasig scripting tests', () => {
-  const redeemScript = cdsScriptTemplates.replayProtection(
+  const pubkey =
     '038282263212c609d9ea2a6e3e172de238d8c39cabd5ac1ca10646e23fd5f51508'
-  )
+  const redeemScript = cdsScriptTemplates.replayProtection(pubkey)
   it('bitcoin cash checkdatasig redeem script test', () => {
     expect(redeemScript).to.equal(
       '4630440220256c12175e809381f97637933ed6ab97737d263eaaebca6add21bced67fd12a402205ce29ecc1369d6fc1b51977ed38faaf41119e3be1d7edfafd7cfaf0b6061bd070021038282263212c609d9ea2a6e3e172de238d8c39cabd5ac1ca10646e23fd5f51508bb21038282263212c609d9ea2a6e3e172de238d8c39cabd5ac1ca10646e23fd5f51508ac'
     )
   })
+
+  it('recognizes replay protection redeem scripts', () => {
+    expect(isReplayProtectionScript(redeemScript)).to.equal(true)
+    expect(isReplayProtectionScript(redeemScript.slice(2))).to.equal(false)
+    expect(
+      isReplayProtectionScript(
+        pubkeyToScriptPubkey({ pubkey, scriptType: ScriptTypeEnum.p2pkh })
+          .scriptPubkey
+      )
+    ).to.equal(false)
+  })
+
+  it('derives replay protected script pubkeys', () => {
+    expect(
+      pubkeyToScriptPubkey({
+        pubkey,
+        scriptType: ScriptTypeEnum.replayProtection
+      })
+    ).to.deep.equal({ scriptPubkey: redeemScript })
+    const {
+      scriptPubkey,
+      redeemScript: p2shRedeemScript
+    } = pubkeyToScriptPubkey({
+      pubkey,
+      scriptType: ScriptTypeEnum.replayProtectionP2SH
+    })
+    expect(p2shRedeemScript).to.equal(redeemScript)
+    expect(scriptPubkey).to.match(/^a914[0-9a-f]{40}87$/)
+  })
 })
@@ -0,0 +1,167 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import * as ecc from 'tiny-secp256k1'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  decredSighash,
+  decredSizeEstimator,
+  decredTxid,
+  decredTxOutput,
+  serializeDecredTx
+} from '../../../../../src/common/utxobased/keymanager/decredUtils/decred'
+import {
+  makeTx,
+  ScriptTypeEnum,
+  signTx
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+const address = 'DsmaYBuL9cgEswnx4KjeLQC2uAWUdRyVXhg'
+const script = Buffer.from(
+  '76a914e21fb547704ff606ba769b9d6d7985f4cca760f788ac',
+  'hex'
+)
+const privateKey = Buffer.alloc(32, 1)
+const pubkey = ecc.pointFromScalar(privateKey, true) as Buffer
+
+const makeTransaction = (): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.addInput(Buffer.alloc(32, 0xab), 1, 0xffffffff)
+  tx.addInput(Buffer.alloc(32, 0xcd), 0, 0xffffffff)
+  tx.addOutput(script, 4294967297)
+  return tx
+}
+const prevOuts = [
+  { script, value: 150000 },
+  { script, value: 4294967397 }
+]
+
+describe('decred transactions', () => {
+  it('serializes the prefix and the witness', () => {
+    const hex = serializeDecredTx(makeTransaction(), prevOuts).toString('hex')
+    expect(hex).to.equal(
+      [
+        '01000000', // version with the full serialization type
+        '02',
+        'ab'.repeat(32) + '01000000' + '00' + 'ffffffff',
+        'cd'.repeat(32) + '00000000' + '00' + 'ffffffff',
+        '01',
+        '0100000001000000' + '0000' + '19' + script.toString('hex'),
+        '00000000', // lock time
+        '00000000', // expiry
+        '02',
+        'f049020000000000' + '00000000' + 'ffffffff' + '00',
+        '6500000001000000' + '00000000' + 'ffffffff' + '00'
+      ].join('')
+    )
+    expect(decredTxOutput(hex, 0)).to.deep.equal({
+      script,
+      value: 4294967297
+    })
+    expect(() => decredTxOutput(hex, 1)).to.throw(
+      'Decred transaction output not found'
+    )
+  })
+
+  it('hashes the prefix for the id and the sighash', () => {
+    const tx = makeTransaction()
+    expect(decredTxid(tx)).to.equal(
+      '606313921cadf5890ab8e2d7befced7c246abcad6b2218644acf3393530e4a65'
+    )
+    expect(
+      decredSighash({
+        tx,
+        index: 1,
+        prevOutScript: script,
+        hashType: 1
+      }).toString('hex')
+    ).to.equal(
+      '4e75921d6427d105faef2670641eeeeda046d347ab655b70a310d006a60a627d'
+    )
+    // the signatures are left out of the id
+    tx.setInputScript(0, Buffer.from('00', 'hex'))
+    expect(decredTxid(tx)).to.equal(
+      '606313921cadf5890ab8e2d7befced7c246abcad6b2218644acf3393530e4a65'
+    )
+    expect(() =>
+      decredSighash({ tx, index: 1, prevOutScript: script, hashType: 0x81 })
+    ).to.throw('Decred transactions are only signed with SIGHASH_ALL')
+  })
+
+  it('builds and signs a transaction spending a p2pkh output', async () => {
+    const prevTx = serializeDecredTx(makeTransaction(), prevOuts).toString(
+      'hex'
+    )
+    const feeRate = 10
+    const { psbtBase64, fee } = await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [],
+      utxos: [
+        {
+          id: `${'ab'.repeat(32)}_0`,
+          txid: 'ab'.repeat(32),
+          vout: 0,
+          value: '4294967297',
+          scriptPubkey: script.toString('hex'),
+          script: prevTx,
+          scriptType: ScriptTypeEnum.p2pkh,
+          blockHeight: 1,
+          spent: false
+        }
+      ],
+      targets: [{ address, value: 100000 }],
+      feeRate,
+      setRBF: false,
+      coin: 'decred',
+      freshChangeAddress: address
+    })
+    const signed = await signTx({
+      psbtBase64,
+      privateKeys: [privateKey.toString('hex')],
+      coin: 'decred'
+    })
+
+    // one p2pkh input and two p2pkh outputs
+    expect(fee).to.equal(253 * feeRate)
+    const size = signed.hex.length / 2
+    expect(size).to.be.within(251, 253)
+
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64)
+    const tx = bitcoin.Transaction.fromBuffer(
+      psbt.data.globalMap.unsignedTx.toBuffer()
+    )
+    expect(signed.id).to.equal(decredTxid(tx))
+
+    // the signature script follows the 127 byte prefix, the witness count,
+    // the value, the block height and the block index
+    const signedTx = Buffer.from(signed.hex, 'hex')
+    const scriptSig = signedTx.slice(145, 145 + signedTx[144])
+    const [signature, signer] = bitcoin.script.decompile(scriptSig) as Buffer[]
+    expect(signer.equals(pubkey)).to.equal(true)
+    const decoded = bitcoin.script.signature.decode(signature)
+    const hash = decredSighash({
+      tx,
+      index: 0,
+      prevOutScript: script,
+      hashType: decoded.hashType
+    })
+    expect(ecc.verify(hash, pubkey, decoded.signature)).to.equal(true)
+  })
+
+  it('estimates the size of decred transactions', () => {
+    const input = {
+      hash: Buffer.alloc(32),
+      index: 0,
+      value: 10000,
+      script,
+      scriptType: ScriptTypeEnum.p2pkh
+    }
+    const output = { script, value: 10000 }
+    expect(decredSizeEstimator.inputBytes(input)).to.equal(166)
+    expect(decredSizeEstimator.outputBytes(output)).to.equal(36)
+    expect(decredSizeEstimator.transactionBytes([input], [output])).to.equal(
+      217
+    )
+  })
+})
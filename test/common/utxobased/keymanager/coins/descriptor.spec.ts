@@ -0,0 +1,157 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { UtxoKeyFormat } from '../../../../../src/common/utxobased/engine/makeUtxoWalletTools'
+import {
+  addOwnMultisigXpub,
+  getWalletDescriptors,
+  parseDescriptor
+} from '../../../../../src/common/utxobased/engine/utils'
+import {
+  addDescriptorChecksum,
+  descriptorChecksum,
+  parseWalletDescriptor
+} from '../../../../../src/common/utxobased/keymanager/descriptorUtils/descriptor'
+import { ScriptTypeEnum } from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+describe('descriptor checksums, taken from the bip380 test vectors', () => {
+  it('computes the checksum of a raw descriptor', () => {
+    expect(descriptorChecksum('raw(deadbeef)')).to.equal('89f8spxm')
+  })
+
+  it('computes the checksum of a key origin descriptor', () => {
+    expect(
+      addDescriptorChecksum(
+        "pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)"
+      )
+    ).to.equal(
+      "pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)#ml40v0wf"
+    )
+  })
+
+  it('rejects a descriptor with an invalid checksum', () => {
+    expect(() =>
+      parseWalletDescriptor(
+        "tr([73c5da0a/86'/0'/0']xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ/<0;1>/*)#kjk9q86d"
+      )
+    ).to.throw('Invalid descriptor checksum')
+  })
+})
+
+describe('bitcoin wallet descriptors', () => {
+  const network = NetworkEnum.Mainnet
+  const coin = 'bitcoin'
+  const segwitDescriptor =
+    "wpkh([73c5da0a/84'/0'/0']xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V/<0;1>/*)#hpg6d6w2"
+  const wrappedSegwitDescriptor =
+    "sh(wpkh([73c5da0a/49'/0'/0']xpub6C6nQwHaWbSrzs5tZ1q7m5R9cPK9eYpNMFesiXsYrgc1P8bvLLAet9JfHjYXKjToD8cBRswJXXbbFpXgwsswVPAZzKMa1jUp2kVkGVUaJa7/<0;1>/*))#wfg3f37j"
+
+  it('renders the descriptors of a segwit wallet', () => {
+    expect(
+      getWalletDescriptors({
+        keys: { bitcoinKey: mnemonic, format: 'bip84', coinType: 0 },
+        coin,
+        network
+      })
+    ).to.eql([segwitDescriptor, wrappedSegwitDescriptor])
+  })
+
+  it('renders the descriptor of a taproot wallet', () => {
+    expect(
+      getWalletDescriptors({
+        keys: { bitcoinKey: mnemonic, format: 'bip86', coinType: 0 },
+        coin,
+        network
+      })
+    ).to.eql([
+      "tr([73c5da0a/86'/0'/0']xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ/<0;1>/*)#kjk9q86c"
+    ])
+  })
+
+  it('renders the receive branch only for airbitz wallets', () => {
+    const [descriptor] = getWalletDescriptors({
+      keys: {
+        bitcoinKey: Buffer.alloc(32, 1).toString('base64'),
+        format: 'bip32'
+      },
+      coin,
+      network
+    })
+    expect(descriptor).to.equal(
+      'pkh([4ba43603/0]xpub68Sk9CDvNZ8kpgw83V5a7C9bDmZmz52xEggq1VUzqAhhP4qMNDTeaTXaa6WP5NAjy99SzzprDdpEgRei7j93nhi8LoxcbbQKjGUsV1Z2EMW/0/*)#9gdd2s2c'
+    )
+    expect(parseDescriptor({ descriptor, coin, network })).to.eql({
+      format: 'bip32',
+      coinType: undefined,
+      account: undefined,
+      xpub:
+        'xpub68Sk9CDvNZ8kpgw83V5a7C9bDmZmz52xEggq1VUzqAhhP4qMNDTeaTXaa6WP5NAjy99SzzprDdpEgRei7j93nhi8LoxcbbQKjGUsV1Z2EMW'
+    })
+  })
+
+  it('parses a descriptor into the keys of its format', () => {
+    expect(
+      parseDescriptor({ descriptor: segwitDescriptor, coin, network })
+    ).to.eql({
+      format: 'bip84',
+      coinType: 0,
+      account: 0,
+      xpub:
+        'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+    })
+    expect(
+      parseDescriptor({
+        descriptor: wrappedSegwitDescriptor.replace(/'/g, 'h').split('#')[0],
+        coin,
+        network
+      })
+    ).to.eql({
+      format: 'bip49',
+      coinType: 0,
+      account: 0,
+      xpub:
+        'ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP'
+    })
+  })
+
+  it('round trips a multisig wallet descriptor', () => {
+    const cosigner =
+      'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj'
+    const keys: UtxoKeyFormat = {
+      bitcoinKey: mnemonic,
+      format: 'bip48',
+      coinType: 0,
+      multisig: {
+        threshold: 2,
+        xpubs: [cosigner],
+        scriptType: ScriptTypeEnum.p2wsh
+      }
+    }
+    keys.multisig = addOwnMultisigXpub({ keys, coin, network })
+    const [descriptor] = getWalletDescriptors({ keys, coin, network })
+    expect(descriptor).to.match(
+      /^wsh\(sortedmulti\(2,xpub6Bos[^,]+,\[73c5da0a\/48'\/0'\/0'\/2'\]xpub/
+    )
+    expect(parseDescriptor({ descriptor, coin, network })).to.eql({
+      format: 'bip48',
+      coinType: 0,
+      account: 0,
+      multisig: keys.multisig
+    })
+  })
+
+  it('rejects keys of another network', () => {
+    expect(() =>
+      parseDescriptor({
+        descriptor:
+          "wpkh([73c5da0a/84'/1'/0']tpubDC8msFGeGuwnKG9Upg7DM2b4DaRqg3CUZa5g8v2SRQ6K4NSkxUgd7HsL2XVWbVm39yBA4LAxysQAm397zwQSQoQgewGiYZqrA9DsP4zbQ1M/<0;1>/*)#gwycrcrh",
+        coin,
+        network
+      })
+    ).to.throw()
+  })
+})
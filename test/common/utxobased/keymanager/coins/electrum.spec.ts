@@ -0,0 +1,79 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  electrumMnemonicToSeed,
+  electrumSeedType,
+  ElectrumSeedTypeEnum
+} from '../../../../../src/common/utxobased/keymanager/electrumUtils/electrum'
+import {
+  BIP43PurposeTypeEnum,
+  seedOrMnemonicToKeyOrigin,
+  seedOrMnemonicToXPriv,
+  xprivToXPub
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+// test vectors of the Electrum wallet
+const standardSeed =
+  'cycle rocket west magnet parrot shuffle foot correct salt library feed song'
+const segwitSeed =
+  'bitter grass shiver impose acquire brush forget axis eager alone wine silver'
+
+describe('electrum seeds', () => {
+  it('detects the seed type', () => {
+    expect(electrumSeedType(standardSeed)).to.equal(
+      ElectrumSeedTypeEnum.standard
+    )
+    expect(electrumSeedType(segwitSeed)).to.equal(ElectrumSeedTypeEnum.segwit)
+    expect(
+      electrumSeedType(`  ${segwitSeed.toUpperCase().replace(/ /g, '\n')} `)
+    ).to.equal(ElectrumSeedTypeEnum.segwit)
+    expect(
+      electrumSeedType(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+      )
+    ).to.equal(undefined)
+  })
+
+  it('stretches the seed extension into the seed', () => {
+    expect(electrumMnemonicToSeed(standardSeed)).to.not.eql(
+      electrumMnemonicToSeed(standardSeed, 'extension')
+    )
+  })
+
+  it('derives standard seeds at the root key', () => {
+    const args = {
+      seed: standardSeed,
+      electrumSeed: true,
+      network: NetworkEnum.Mainnet,
+      type: BIP43PurposeTypeEnum.Legacy,
+      coin: 'bitcoin'
+    }
+    expect(
+      xprivToXPub({ ...args, xpriv: seedOrMnemonicToXPriv(args) })
+    ).to.equal(
+      'xpub661MyMwAqRbcFWohJWt7PHsFEJfZAvw9ZxwQoDa4SoMgsDDM1T7WK3u9E4edkC4ugRnZ8E4xDZRpk8Rnts3Nbt97dPwT52CwBdDWroaZf8U'
+    )
+    expect(seedOrMnemonicToKeyOrigin(args).path).to.equal('')
+  })
+
+  it("derives segwit seeds at m/0'", () => {
+    const args = {
+      seed: segwitSeed,
+      electrumSeed: true,
+      network: NetworkEnum.Mainnet,
+      type: BIP43PurposeTypeEnum.Segwit,
+      coin: 'bitcoin'
+    }
+    expect(
+      xprivToXPub({ ...args, xpriv: seedOrMnemonicToXPriv(args) })
+    ).to.equal(
+      'zpub6nsHdRuY92FsMKdbn9BfjBCG6X8pyhCibNP6uDvpnw2cyrVhecvHRMa3Ne8kdJZxjxgwnpbHLkcR4bfnhHy6auHPJyDTQ3kianeuVLdkCYQ'
+    )
+    expect(seedOrMnemonicToKeyOrigin(args)).to.eql({
+      fingerprint: 'b2e35a7d',
+      path: "0'"
+    })
+  })
+})
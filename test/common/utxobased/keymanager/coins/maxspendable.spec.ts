@@ -0,0 +1,102 @@
+import * as chai from 'chai'
+import { expect } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import { InsufficientFundsError } from 'edge-core-js'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { IUTXO } from '../../../../../src/common/utxobased/db/types'
+import {
+  makeTx,
+  maxSpendable,
+  ScriptTypeEnum
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+chai.use(chaiAsPromised)
+
+const address = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+const otherAddress = '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH'
+const script = '0014751e76e8199196d454941c45d1b3a323f1433bd6'
+const feeRate = 10
+
+const makeUtxo = (value: number, vout: number): IUTXO => ({
+  id: `${'ab'.repeat(32)}_${vout}`,
+  txid: 'ab'.repeat(32),
+  vout,
+  value: value.toString(),
+  scriptPubkey: script,
+  script,
+  scriptType: ScriptTypeEnum.p2wpkh,
+  blockHeight: 1,
+  spent: false
+})
+
+// a p2wpkh input costs 68 virtual bytes, more than the dust utxo holds
+const utxos = [makeUtxo(100000, 0), makeUtxo(600, 1), makeUtxo(25000, 2)]
+
+const spend = async (
+  args: { value: number; forceUseUtxo?: IUTXO[] },
+  targets = [{ address: otherAddress, value: 1000 }]
+): Promise<ReturnType<typeof makeTx>> =>
+  await makeTx({
+    network: NetworkEnum.Mainnet,
+    forceUseUtxo: args.forceUseUtxo ?? [],
+    utxos: args.forceUseUtxo != null ? [] : utxos,
+    targets: [{ address, value: args.value }, ...targets],
+    feeRate,
+    setRBF: false,
+    coin: 'bitcoin',
+    freshChangeAddress: address
+  })
+
+describe('max spendable', () => {
+  it('spends every utxo worth more than its fee', async () => {
+    const targets = [{ address: otherAddress, value: 1000 }]
+    const max = maxSpendable({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [],
+      utxos,
+      targets: [{ address, value: 0 }, ...targets],
+      feeRate,
+      coin: 'bitcoin'
+    })
+    const tx = await spend({ value: max })
+    expect(tx.changeUsed).to.equal(false)
+    expect(tx.inputs.map(({ value }) => value)).to.have.members([100000, 25000])
+    expect(max + tx.fee + 1000).to.equal(125000)
+    await expect(spend({ value: max + 1 })).to.be.rejectedWith(
+      InsufficientFundsError
+    )
+  })
+
+  it('spends every picked utxo', async () => {
+    const forceUseUtxo = utxos.slice(1)
+    const max = maxSpendable({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo,
+      utxos: [],
+      targets: [{ address, value: 0 }],
+      feeRate,
+      coin: 'bitcoin'
+    })
+    const tx = await spend({ value: max, forceUseUtxo }, [])
+    expect(tx.inputs.length).to.equal(2)
+    expect(max + tx.fee).to.equal(25600)
+    await expect(
+      spend({ value: max + 1, forceUseUtxo }, [])
+    ).to.be.rejectedWith(InsufficientFundsError)
+  })
+
+  it('leaves nothing to spend below the fee', () => {
+    expect(
+      maxSpendable({
+        network: NetworkEnum.Mainnet,
+        forceUseUtxo: [],
+        utxos: utxos.slice(1, 2),
+        targets: [{ address, value: 0 }],
+        feeRate,
+        coin: 'bitcoin'
+      })
+    ).to.equal(0)
+  })
+})
@@ -0,0 +1,165 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  signMessage,
+  verifyMessage
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import { bip322MessageHash } from '../../../../../src/common/utxobased/keymanager/messageUtils/message'
+
+const network = NetworkEnum.Mainnet
+
+describe('legacy message signatures, taken from the bitcoinjs-message examples', () => {
+  const message = 'This is an example of a signed message.'
+  const privateKey =
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+  const address = '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV'
+  const signature =
+    'H9L5yLFjti0QTHhPyFrZCT1V/MMnBtXKmoiKDZ78NDBjERki6ZTQZdSMCtkgoNmp17By9ItJr8o7ChX0XxY91nk='
+
+  it('signs a message with a p2pkh address', () => {
+    expect(
+      signMessage({ message, privateKey, address, network, coin: 'bitcoin' })
+    ).to.equal(signature)
+  })
+
+  it('verifies the signature', () => {
+    expect(
+      verifyMessage({ message, signature, address, network, coin: 'bitcoin' })
+    ).to.equal(true)
+    expect(
+      verifyMessage({
+        message: `${message}!`,
+        signature,
+        address,
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.equal(false)
+  })
+})
+
+describe('bip322 simple message signatures, taken from the official test vectors', () => {
+  const address = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l'
+
+  it('hashes the message', () => {
+    expect(bip322MessageHash('').toString('hex')).to.equal(
+      'c90c269c4f8fcbe6880f72a721ddfbf1914268a794cbb21cfafee13770ae19f1'
+    )
+    expect(bip322MessageHash('Hello World').toString('hex')).to.equal(
+      'f0eb03b1a75ac6d9847f55c624a99169b5dccba2a31f5b23bea77ba270de0a7a'
+    )
+  })
+
+  it('verifies the signatures of a p2wpkh address', () => {
+    expect(
+      verifyMessage({
+        message: '',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        address,
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.equal(true)
+    expect(
+      verifyMessage({
+        message: 'Hello World',
+        signature:
+          'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        address,
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.equal(true)
+    expect(
+      verifyMessage({
+        message: 'Hello World',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+        address,
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.equal(false)
+  })
+})
+
+describe('message signatures for every single key address type', () => {
+  const privateKey =
+    'bb051cd0dda0246f33c5a9e133ebd8e7bc02a92af6c41adc131ccd7826c5b004'
+  const message = 'Hello World'
+  const addresses = [
+    { coin: 'bitcoin', address: '14vV3aCHBeStb5bkenkNHbe2YAFinYdXgc' },
+    { coin: 'bitcoin', address: '37qyp7jQAzqb2rCBpMvVtLDuuzKAUCVnJb' },
+    { coin: 'bitcoin', address: 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l' },
+    {
+      coin: 'bitcoin',
+      address: 'bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3'
+    },
+    { coin: 'groestlcoin', address: 'FZ6CVUvek98S2gcsXtjqk7SMCKXgMMV7KN' }
+  ]
+
+  addresses.forEach(({ coin, address }) => {
+    it(`signs and verifies a message for ${address}`, () => {
+      const signature = signMessage({
+        message,
+        privateKey,
+        address,
+        network,
+        coin
+      })
+      expect(
+        verifyMessage({ message, signature, address, network, coin })
+      ).to.equal(true)
+      expect(
+        verifyMessage({
+          message: 'Goodbye World',
+          signature,
+          address,
+          network,
+          coin
+        })
+      ).to.equal(false)
+    })
+  })
+
+  it('does not accept a signature for another address', () => {
+    const signature = signMessage({
+      message,
+      privateKey,
+      address: addresses[0].address,
+      network,
+      coin: 'bitcoin'
+    })
+    expect(
+      verifyMessage({
+        message,
+        signature,
+        address: '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV',
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.equal(false)
+  })
+
+  it('signs with the coin specific message prefix', () => {
+    const signature = signMessage({
+      message,
+      privateKey,
+      address: addresses[4].address,
+      network,
+      coin: 'groestlcoin'
+    })
+    expect(
+      signMessage({
+        message,
+        privateKey,
+        address: addresses[0].address,
+        network,
+        coin: 'bitcoin'
+      })
+    ).to.not.equal(signature)
+  })
+})
@@ -0,0 +1,146 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  AddressTypeEnum,
+  BIP43PurposeTypeEnum,
+  finalizePsbt,
+  makeTx,
+  multisigToScriptPubkey,
+  scriptPubkeyToAddress,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv,
+  signMultisigPsbt,
+  xprivToPrivateKey,
+  xprivToXPub,
+  xpubToPubkey
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+describe('bitcoin sorted multisig, taken from the bip67 test vectors', () => {
+  it('sorts the pubkeys of a 2-of-2 p2sh script', () => {
+    const { scriptPubkey, redeemScript } = multisigToScriptPubkey({
+      pubkeys: [
+        '02ff12471208c14bd580709cb2358d98975247d8765f92bc25eab3b2763ed605f8',
+        '02fe6f0a5a297eb38c391581c4413e084773ea23954d93f7753db7dc0adc188b2f'
+      ],
+      threshold: 2,
+      scriptType: ScriptTypeEnum.p2sh
+    })
+    expect(redeemScript).to.equal(
+      '522102fe6f0a5a297eb38c391581c4413e084773ea23954d93f7753db7dc0adc188b2f2102ff12471208c14bd580709cb2358d98975247d8765f92bc25eab3b2763ed605f852ae'
+    )
+    expect(
+      scriptPubkeyToAddress({
+        scriptPubkey,
+        addressType: AddressTypeEnum.p2sh,
+        network: NetworkEnum.Mainnet,
+        coin: 'bitcoin'
+      }).address
+    ).to.equal('39bgKC7RFbpoCRbtD5KEdkYKtNyhpsNa3Z')
+  })
+
+  it('rejects a threshold above the number of cosigners', () => {
+    expect(() =>
+      multisigToScriptPubkey({
+        pubkeys: [
+          '02ff12471208c14bd580709cb2358d98975247d8765f92bc25eab3b2763ed605f8'
+        ],
+        threshold: 2,
+        scriptType: ScriptTypeEnum.p2wsh
+      })
+    ).to.throw('invalid multisig threshold')
+  })
+})
+
+describe('bitcoin 2-of-3 multisig cosigning', () => {
+  const mnemonics = [
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    'legal winner thank year wave sausage worth useful legal winner thank yellow',
+    'letter advice cage absurd amount doctor acoustic avoid letter advice cage above'
+  ]
+  const path = {
+    network: NetworkEnum.Mainnet,
+    type: BIP43PurposeTypeEnum.Multisig,
+    coin: 'bitcoin',
+    bip44ChangeIndex: 0,
+    bip44AddressIndex: 0
+  }
+  const xprivs = mnemonics.map(seed =>
+    seedOrMnemonicToXPriv({
+      seed,
+      network: NetworkEnum.Mainnet,
+      type: BIP43PurposeTypeEnum.Multisig,
+      coin: 'bitcoin',
+      multisigScriptType: ScriptTypeEnum.p2wsh
+    })
+  )
+  const privateKeys = xprivs.map(xpriv => xprivToPrivateKey({ ...path, xpriv }))
+  const pubkeys = xprivs.map(xpriv =>
+    xpubToPubkey({ ...path, xpub: xprivToXPub({ ...path, xpriv }) })
+  )
+  const { scriptPubkey, witnessScript } = multisigToScriptPubkey({
+    pubkeys,
+    threshold: 2,
+    scriptType: ScriptTypeEnum.p2wsh
+  })
+
+  it('derives the bip48 p2wsh account key', () => {
+    expect(xprivToXPub({ ...path, xpriv: xprivs[0] })).to.equal(
+      'xpub6DkFAXWQ2dHxq2vatrt9qyA3bXYU4ToWQwCHbf5XB2mSTexcHZCeKS1VZYcPoBd5X8yVcbXFHJR9R8UCVpt82VX1VhR28mCyxUFL4r6KFrf'
+    )
+  })
+
+  it('finalizes once the threshold is met', async () => {
+    const { psbtBase64, fee } = await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [
+        {
+          id: `${'ab'.repeat(32)}_0`,
+          txid: 'ab'.repeat(32),
+          vout: 0,
+          value: '100000',
+          scriptPubkey,
+          script: scriptPubkey,
+          witnessScript,
+          scriptType: ScriptTypeEnum.p2wsh,
+          blockHeight: 1,
+          spent: false
+        }
+      ],
+      utxos: [],
+      targets: [
+        {
+          address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+          value: 50000
+        }
+      ],
+      feeRate: 1,
+      setRBF: false,
+      coin: 'bitcoin',
+      freshChangeAddress: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+    })
+    expect(fee).to.equal(177)
+
+    const first = await signMultisigPsbt({
+      psbtBase64,
+      privateKeys: [privateKeys[0]],
+      coin: 'bitcoin'
+    })
+    expect(first.complete).to.equal(false)
+
+    const second = await signMultisigPsbt({
+      psbtBase64: first.psbtBase64,
+      privateKeys: [privateKeys[2]],
+      coin: 'bitcoin'
+    })
+    expect(second.complete).to.equal(true)
+
+    const { id } = await finalizePsbt({
+      psbtBase64: second.psbtBase64
+    })
+    expect(id).to.equal(
+      'b2b1bf3ed6599a400cea771cd83eae03f62d509cbae85720edb47c64ec2475a5'
+    )
+  })
+})
@@ -0,0 +1,130 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { cashAddressToHash } from '../../../../../src/common/utxobased/keymanager/bitcoincashUtils/cashAddress'
+import {
+  addressToScriptPubkey,
+  AddressTypeEnum,
+  BIP43PurposeTypeEnum,
+  pubkeyToScriptPubkey,
+  scriptPubkeyToAddress,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv,
+  xprivToXPub,
+  xpubToPubkey
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+const firstScriptPubkey = (args: {
+  network: NetworkEnum
+  type: BIP43PurposeTypeEnum
+  scriptType: ScriptTypeEnum
+  coin: string
+}): string => {
+  const path = { ...args, bip44ChangeIndex: 0, bip44AddressIndex: 0 }
+  const xpriv = seedOrMnemonicToXPriv({ ...path, seed: mnemonic })
+  const pubkey = xpubToPubkey({
+    ...path,
+    xpub: xprivToXPub({ ...path, xpriv })
+  })
+  return pubkeyToScriptPubkey({ pubkey, scriptType: args.scriptType })
+    .scriptPubkey
+}
+
+describe('bitcoin test networks', () => {
+  const segwit = {
+    type: BIP43PurposeTypeEnum.Segwit,
+    scriptType: ScriptTypeEnum.p2wpkh,
+    coin: 'bitcoin'
+  }
+  const expected = {
+    [NetworkEnum.Testnet]: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+    [NetworkEnum.Signet]: 'tb1q6rz28mcfaxtmd6v789l9rrlrusdprr9pqcpvkl',
+    [NetworkEnum.Regtest]: 'bcrt1q6rz28mcfaxtmd6v789l9rrlrusdprr9pz3cppk'
+  }
+
+  for (const [network, address] of Object.entries(expected)) {
+    it(`encodes ${network} segwit addresses`, () => {
+      const scriptPubkey = firstScriptPubkey({
+        ...segwit,
+        network: network as NetworkEnum
+      })
+      expect(
+        scriptPubkeyToAddress({
+          scriptPubkey,
+          network: network as NetworkEnum,
+          addressType: AddressTypeEnum.p2wpkh,
+          coin: 'bitcoin'
+        }).address
+      ).to.equal(address)
+      expect(
+        addressToScriptPubkey({
+          address,
+          network: network as NetworkEnum,
+          coin: 'bitcoin'
+        })
+      ).to.equal(scriptPubkey)
+    })
+  }
+
+  it('rejects a testnet address on regtest', () => {
+    expect(() =>
+      addressToScriptPubkey({
+        address: expected[NetworkEnum.Testnet],
+        network: NetworkEnum.Regtest,
+        coin: 'bitcoin'
+      })
+    ).to.throw()
+  })
+})
+
+describe('bitcoin cash regtest', () => {
+  const scriptPubkey = firstScriptPubkey({
+    network: NetworkEnum.Regtest,
+    type: BIP43PurposeTypeEnum.Legacy,
+    scriptType: ScriptTypeEnum.p2pkh,
+    coin: 'bitcoincash'
+  })
+
+  it('encodes addresses with the bchreg prefix', () => {
+    const { address, legacyAddress } = scriptPubkeyToAddress({
+      scriptPubkey,
+      network: NetworkEnum.Regtest,
+      addressType: AddressTypeEnum.p2pkh,
+      coin: 'bitcoincash'
+    })
+    expect(address).to.equal(
+      'bchreg:qqaz6s295ncfs53m86qj0uw6sl8u2kuw0ypvash69n'
+    )
+    expect(legacyAddress).to.equal('mkpZhYtJu2r87Js3pDiWJDmPte2NRZ8bJV')
+    expect(
+      addressToScriptPubkey({
+        address,
+        network: NetworkEnum.Regtest,
+        coin: 'bitcoincash'
+      })
+    ).to.equal(scriptPubkey)
+  })
+
+  it('decodes addresses without a prefix', () => {
+    expect(
+      cashAddressToHash(
+        'qqaz6s295ncfs53m86qj0uw6sl8u2kuw0ypvash69n'
+      ).scriptHash.toString('hex')
+    ).to.equal(scriptPubkey.slice(6, 46))
+  })
+
+  it('rejects coins without a regtest network', () => {
+    expect(() =>
+      scriptPubkeyToAddress({
+        scriptPubkey,
+        network: NetworkEnum.Regtest,
+        addressType: AddressTypeEnum.p2pkh,
+        coin: 'litecoin'
+      })
+    ).to.throw('litecoin has no regtest network')
+  })
+})
@@ -0,0 +1,192 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import { IUTXO } from '../../../../../src/common/utxobased/db/types'
+import {
+  addPsbtBip32Derivation,
+  BIP43PurposeTypeEnum,
+  combinePsbts,
+  finalizePsbt,
+  getPsbtInputScriptPubkeys,
+  makeTx,
+  pubkeyToScriptPubkey,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv,
+  signPsbt,
+  signTx,
+  xprivToPrivateKey,
+  xprivToXPub,
+  xpubToPubkey
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const network = NetworkEnum.Mainnet
+const coin = 'bitcoin'
+const target = {
+  address: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+  value: 50000
+}
+
+const deriveKeys = (
+  type: BIP43PurposeTypeEnum,
+  bip44AddressIndex: number
+): { privateKey: string; pubkey: string } => {
+  const path = { network, type, coin, bip44ChangeIndex: 0, bip44AddressIndex }
+  const xpriv = seedOrMnemonicToXPriv({ seed: mnemonic, network, type, coin })
+  return {
+    privateKey: xprivToPrivateKey({ ...path, xpriv }),
+    pubkey: xpubToPubkey({ ...path, xpub: xprivToXPub({ ...path, xpriv }) })
+  }
+}
+
+const makeUtxo = (
+  scriptPubkey: string,
+  scriptType: ScriptTypeEnum,
+  vout: number
+): IUTXO => ({
+  id: `${'ab'.repeat(32)}_${vout}`,
+  txid: 'ab'.repeat(32),
+  vout,
+  value: '40000',
+  scriptPubkey,
+  script: scriptPubkey,
+  scriptType,
+  blockHeight: 1,
+  spent: false
+})
+
+describe('psbt signing by several signers', () => {
+  const keys = [0, 1].map(index =>
+    deriveKeys(BIP43PurposeTypeEnum.Taproot, index)
+  )
+  const scriptPubkeys = keys.map(
+    ({ pubkey }) =>
+      pubkeyToScriptPubkey({ pubkey, scriptType: ScriptTypeEnum.p2tr })
+        .scriptPubkey
+  )
+  const makePsbt = async (): Promise<string> =>
+    (
+      await makeTx({
+        network,
+        forceUseUtxo: [],
+        utxos: scriptPubkeys.map((scriptPubkey, vout) =>
+          makeUtxo(scriptPubkey, ScriptTypeEnum.p2tr, vout)
+        ),
+        targets: [target],
+        feeRate: 1,
+        setRBF: false,
+        coin,
+        freshChangeAddress: target.address
+      })
+    ).psbtBase64
+
+  it('lists the script pubkeys spent by the inputs', async () => {
+    const psbtBase64 = await makePsbt()
+    expect(getPsbtInputScriptPubkeys({ psbtBase64 })).to.eql(scriptPubkeys)
+  })
+
+  it('signs only the inputs it has keys for', async () => {
+    const psbtBase64 = await makePsbt()
+    const first = await signPsbt({
+      psbtBase64,
+      privateKeys: [keys[0].privateKey, undefined],
+      coin
+    })
+    expect(first.signedInputs).to.eql([0])
+    const second = await signPsbt({
+      psbtBase64,
+      privateKeys: [undefined, keys[1].privateKey],
+      coin
+    })
+    expect(second.signedInputs).to.eql([1])
+
+    const combined = combinePsbts({
+      psbtsBase64: [first.psbtBase64, second.psbtBase64]
+    })
+    const again = await signPsbt({
+      psbtBase64: combined,
+      privateKeys: keys.map(({ privateKey }) => privateKey),
+      coin
+    })
+    expect(again.signedInputs).to.eql([])
+
+    const { id, hex } = await finalizePsbt({ psbtBase64: combined })
+    const signed = await signTx({
+      psbtBase64,
+      privateKeys: keys.map(({ privateKey }) => privateKey),
+      coin
+    })
+    expect(id).to.equal(signed.id)
+    expect(hex).to.equal(signed.hex)
+  })
+
+  it('refuses to combine nothing', () => {
+    expect(() => combinePsbts({ psbtsBase64: [] })).to.throw(
+      'No psbts to combine'
+    )
+  })
+})
+
+describe('psbt bip32 derivations', () => {
+  const { pubkey } = deriveKeys(BIP43PurposeTypeEnum.Segwit, 0)
+  const { scriptPubkey } = pubkeyToScriptPubkey({
+    pubkey,
+    scriptType: ScriptTypeEnum.p2wpkh
+  })
+  const derivation = {
+    masterFingerprint: '73c5da0a',
+    path: "m/84'/0'/0'/0/0",
+    pubkey
+  }
+
+  it('adds the derivations of inputs and outputs', async () => {
+    const { psbtBase64, outputs } = await makeTx({
+      network,
+      forceUseUtxo: [],
+      utxos: [makeUtxo(scriptPubkey, ScriptTypeEnum.p2wpkh, 0)],
+      targets: [{ ...target, value: 20000 }],
+      feeRate: 1,
+      setRBF: false,
+      coin,
+      freshChangeAddress: 'bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el'
+    })
+    const changeDerivation = {
+      masterFingerprint: '73c5da0a',
+      path: "m/84'/0'/0'/1/0",
+      pubkey:
+        '03025324888e429ab8e3dbaf1f7802648b9cd01e9b418485c5fa4c1b9b5700e1a6'
+    }
+    const args = {
+      psbtBase64,
+      inputs: [derivation],
+      outputs: outputs.map(({ value }) =>
+        value === 20000 ? undefined : changeDerivation
+      )
+    }
+    // adding the same derivations twice leaves the psbt unchanged
+    const updated = addPsbtBip32Derivation({
+      ...args,
+      psbtBase64: addPsbtBip32Derivation(args)
+    })
+
+    const psbt = bitcoin.Psbt.fromBase64(updated)
+    expect(
+      psbt.data.inputs[0].bip32Derivation?.map(
+        ({ masterFingerprint, path }) => ({
+          masterFingerprint: masterFingerprint.toString('hex'),
+          path
+        })
+      )
+    ).to.eql([{ masterFingerprint: '73c5da0a', path: "m/84'/0'/0'/0/0" }])
+    const outputDerivations = psbt.data.outputs.map(output =>
+      output.bip32Derivation?.map(({ path }) => path)
+    )
+    expect(outputDerivations).to.have.deep.members([
+      undefined,
+      ["m/84'/0'/0'/1/0"]
+    ])
+  })
+})
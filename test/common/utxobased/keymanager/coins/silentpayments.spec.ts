@@ -0,0 +1,301 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import * as ecc from 'tiny-secp256k1'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  BIP43PurposeTypeEnum,
+  isSilentPaymentAddress,
+  scanSilentPayments,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv,
+  SilentPaymentInputArgs,
+  silentPaymentOutputScripts,
+  silentPaymentToPrivateKey,
+  silentPaymentToScriptPubkey,
+  xprivToSilentPaymentAddress
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  decodeSilentPaymentAddress,
+  encodeSilentPaymentAddress
+} from '../../../../../src/common/utxobased/keymanager/silentPaymentUtils/silentPayments'
+import { tweakPublicKey } from '../../../../../src/common/utxobased/keymanager/taprootUtils/taproot'
+
+const pubkey = (privateKey: string): Buffer => {
+  const point = ecc.pointFromScalar(Buffer.from(privateKey, 'hex'), true)
+  if (point == null) throw new Error('Invalid private key')
+  return point
+}
+
+const bitcoin352 = { network: NetworkEnum.Mainnet, coin: 'bitcoin' }
+const recipient = {
+  ...bitcoin352,
+  xpriv: seedOrMnemonicToXPriv({
+    ...bitcoin352,
+    seed:
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    type: BIP43PurposeTypeEnum.SilentPayment
+  })
+}
+
+describe('bip352 silent payment addresses', () => {
+  // the keys of the first sending test vector of bip352
+  const keys = {
+    scanPubkey: pubkey(
+      '0f694e068028a717f8af6b9411f9a133dd3565258714cc226594b34db90c1f2c'
+    ),
+    spendPubkey: pubkey(
+      '9d6ad855ce3417ef84e836892e5a56392bfba05fa5d97ccea30e266f540e08b3'
+    )
+  }
+  const address =
+    'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjuexzk6murw56suy3e0rd2cgqvycxttddwsvgxe2usfpxumr70xc9pkqwv'
+
+  it('encodes and decodes the scan and spend keys', () => {
+    expect(encodeSilentPaymentAddress(keys, 'sp')).to.equal(address)
+    const decoded = decodeSilentPaymentAddress(address, 'sp')
+    expect(decoded.scanPubkey.equals(keys.scanPubkey)).to.equal(true)
+    expect(decoded.spendPubkey.equals(keys.spendPubkey)).to.equal(true)
+  })
+
+  it('checks the prefix of the network', () => {
+    expect(
+      isSilentPaymentAddress({ address, network: NetworkEnum.Mainnet })
+    ).to.equal(true)
+    expect(
+      isSilentPaymentAddress({ address, network: NetworkEnum.Testnet })
+    ).to.equal(false)
+    expect(
+      isSilentPaymentAddress({
+        address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+        network: NetworkEnum.Mainnet
+      })
+    ).to.equal(false)
+    expect(() => decodeSilentPaymentAddress(address, 'tsp')).to.throw(
+      'Invalid silent payment address prefix'
+    )
+  })
+
+  it('derives the address of the wallet', () => {
+    const walletAddress = xprivToSilentPaymentAddress(recipient)
+    expect(walletAddress.startsWith('sp1q')).to.equal(true)
+    expect(
+      isSilentPaymentAddress({
+        address: walletAddress,
+        network: NetworkEnum.Mainnet
+      })
+    ).to.equal(true)
+  })
+})
+
+describe('bip352 silent payment transactions', () => {
+  const senderPrivateKey =
+    'eadc78165ff1f8ea94ad7cfdc54990738a4c53f6e0507b42154201b8e5dff3b1'
+  const senderPubkey = pubkey(senderPrivateKey)
+  const prevoutScript = bitcoin.payments.p2wpkh({ pubkey: senderPubkey })
+    .output as Buffer
+  const outpoint = {
+    txid: 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16',
+    vout: 0
+  }
+  const address = xprivToSilentPaymentAddress(recipient)
+
+  // a transaction spending the p2wpkh input with a placeholder signature
+  const makeTransaction = (scripts: string[]): bitcoin.Transaction => {
+    const tx = new bitcoin.Transaction()
+    tx.addInput(Buffer.from(outpoint.txid, 'hex').reverse(), outpoint.vout)
+    tx.setWitness(0, [Buffer.alloc(71, 1), senderPubkey])
+    for (const script of scripts) tx.addOutput(Buffer.from(script, 'hex'), 1000)
+    return tx
+  }
+
+  const scripts = silentPaymentOutputScripts({
+    ...bitcoin352,
+    addresses: [address, address],
+    inputs: [
+      {
+        ...outpoint,
+        privateKey: senderPrivateKey,
+        scriptType: ScriptTypeEnum.p2wpkh,
+        scriptPubkey: prevoutScript.toString('hex')
+      }
+    ]
+  })
+
+  it('pays a different taproot output to every payment', () => {
+    expect(scripts.length).to.equal(2)
+    expect(scripts[0]).to.match(/^5120[0-9a-f]{64}$/)
+    expect(scripts[0]).to.not.equal(scripts[1])
+  })
+
+  it('lets the recipient find and spend the outputs', () => {
+    const tx = makeTransaction([
+      '0014751e76e8199196d454941c45d1b3a323f1433bd6',
+      ...scripts
+    ])
+    const outputs = scanSilentPayments({
+      ...recipient,
+      txHex: tx.toHex(),
+      prevoutScripts: [prevoutScript.toString('hex')]
+    })
+    expect(outputs.map(({ vout }) => vout)).to.deep.equal([1, 2])
+    outputs.forEach(({ vout, tweak }) => {
+      const script = silentPaymentToScriptPubkey({ ...recipient, tweak })
+      expect(script).to.equal(scripts[vout - 1])
+      const privateKey = silentPaymentToPrivateKey({ ...recipient, tweak })
+      expect(pubkey(privateKey).slice(1).toString('hex')).to.equal(
+        script.slice(4)
+      )
+    })
+  })
+
+  it('ignores payments to other addresses', () => {
+    const other = {
+      ...bitcoin352,
+      xpriv: seedOrMnemonicToXPriv({
+        ...bitcoin352,
+        seed:
+          'response seminar brave tip suit recall often sound stick owner lottery motion',
+        type: BIP43PurposeTypeEnum.SilentPayment
+      })
+    }
+    const outputs = scanSilentPayments({
+      ...other,
+      txHex: makeTransaction(scripts).toHex(),
+      prevoutScripts: [prevoutScript.toString('hex')]
+    })
+    expect(outputs).to.deep.equal([])
+  })
+})
+
+describe('bip352 sending test vectors', () => {
+  // https://github.com/bitcoin/bips/blob/master/bip-0352/send_and_receive_test_vectors.json
+  const address =
+    'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjuexzk6murw56suy3e0rd2cgqvycxttddwsvgxe2usfpxumr70xc9pkqwv'
+  const outpoints = [
+    {
+      txid: 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16',
+      vout: 0
+    },
+    {
+      txid: 'a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d',
+      vout: 0
+    }
+  ]
+  const p2pkhInput = (
+    privateKey: string
+  ): Omit<SilentPaymentInputArgs, 'txid' | 'vout'> => ({
+    privateKey,
+    scriptType: ScriptTypeEnum.p2pkh,
+    scriptPubkey: (bitcoin.payments.p2pkh({ pubkey: pubkey(privateKey) })
+      .output as Buffer).toString('hex')
+  })
+  // the private keys of taproot inputs are the keys of their output keys
+  const p2trInput = (
+    privateKey: string,
+    scriptPubkey: string
+  ): Omit<SilentPaymentInputArgs, 'txid' | 'vout'> => ({
+    privateKey,
+    scriptType: ScriptTypeEnum.p2tr,
+    scriptPubkey
+  })
+
+  const vectors = [
+    {
+      comment: 'Simple send: two inputs',
+      inputs: [
+        p2pkhInput(
+          'eadc78165ff1f8ea94ad7cfdc54990738a4c53f6e0507b42154201b8e5dff3b1'
+        ),
+        p2pkhInput(
+          '93f5ed907ad5b2bdbbdcb5d9116ebc0a4e1f92f910d5260237fa45a9408aad16'
+        )
+      ],
+      output: '3e9fce73d4e77a4809908e3c3a2e54ee147b9312dc5044a193d1fc85de46e3c1'
+    },
+    {
+      comment: 'Single recipient: taproot only inputs with even y-values',
+      inputs: [
+        p2trInput(
+          'eadc78165ff1f8ea94ad7cfdc54990738a4c53f6e0507b42154201b8e5dff3b1',
+          '51205a1e61f898173040e20616d43e9f496fba90338a39faa1ed98fcbaeee4dd9be5'
+        ),
+        p2trInput(
+          'fc8716a97a48ba9a05a98ae47b5cd201a25a7fd5d8b73c203c5f7b6b6b3b6ad7',
+          '5120782eeb913431ca6e9b8c2fd80a5f72ed2024ef72a3c6fb10263c379937323338'
+        )
+      ],
+      output: 'de88bea8e7ffc9ce1af30d1132f910323c505185aec8eae361670421e749a1fb'
+    },
+    {
+      comment: 'Single recipient: taproot only with mixed even/odd y-values',
+      inputs: [
+        p2trInput(
+          'eadc78165ff1f8ea94ad7cfdc54990738a4c53f6e0507b42154201b8e5dff3b1',
+          '51205a1e61f898173040e20616d43e9f496fba90338a39faa1ed98fcbaeee4dd9be5'
+        ),
+        p2trInput(
+          '1d37787c2b7116ee983e9f9c13269df29091b391c04db94239e0d2bc2182c3bf',
+          '51208c8d23d4764feffcd5e72e380802540fa0f88e3d62ad5e0b47955f74d7b283c4'
+        )
+      ],
+      output: '77cab7dd12b10259ee82c6ea4b509774e33e7078e7138f568092241bf26b99f1'
+    }
+  ]
+
+  for (const { comment, inputs, output } of vectors) {
+    it(comment, () => {
+      const scripts = silentPaymentOutputScripts({
+        network: NetworkEnum.Mainnet,
+        addresses: [address],
+        inputs: inputs.map((input, i) => ({ ...input, ...outpoints[i] }))
+      })
+      expect(scripts).to.deep.equal([`5120${output}`])
+    })
+  }
+})
+
+describe('bip352 silent payments from bip86 inputs', () => {
+  // the internal key of a bip86 output, which commits to its TapTweak
+  const internalPrivateKey =
+    'fc8716a97a48ba9a05a98ae47b5cd201a25a7fd5d8b73c203c5f7b6b6b3b6ad7'
+  const prevoutScript = Buffer.concat([
+    Buffer.from('5120', 'hex'),
+    tweakPublicKey(pubkey(internalPrivateKey))
+  ])
+  const outpoint = {
+    txid: 'a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d',
+    vout: 1
+  }
+
+  it('lets the recipient find the output', () => {
+    const [script] = silentPaymentOutputScripts({
+      ...bitcoin352,
+      addresses: [xprivToSilentPaymentAddress(recipient)],
+      inputs: [
+        {
+          ...outpoint,
+          privateKey: internalPrivateKey,
+          scriptType: ScriptTypeEnum.p2tr,
+          scriptPubkey: prevoutScript.toString('hex')
+        }
+      ]
+    })
+    // a key path spend with a placeholder signature
+    const tx = new bitcoin.Transaction()
+    tx.addInput(Buffer.from(outpoint.txid, 'hex').reverse(), outpoint.vout)
+    tx.setWitness(0, [Buffer.alloc(64, 1)])
+    tx.addOutput(Buffer.from(script, 'hex'), 1000)
+
+    const outputs = scanSilentPayments({
+      ...recipient,
+      txHex: tx.toHex(),
+      prevoutScripts: [prevoutScript.toString('hex')]
+    })
+    expect(outputs.length).to.equal(1)
+    expect(
+      silentPaymentToScriptPubkey({ ...recipient, tweak: outputs[0].tweak })
+    ).to.equal(script)
+  })
+})
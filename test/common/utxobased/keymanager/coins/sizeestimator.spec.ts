@@ -0,0 +1,246 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import * as ecc from 'tiny-secp256k1'
+
+import { cdsScriptTemplates } from '../../../../../src/common/utxobased/keymanager/bitcoincashUtils/checkdatasig'
+import {
+  ScriptTypeEnum,
+  signTx
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  Output,
+  UTXO
+} from '../../../../../src/common/utxobased/keymanager/utxopicker'
+import {
+  inputBytes,
+  transactionBytes
+} from '../../../../../src/common/utxobased/keymanager/utxopicker/utils'
+
+const privateKeys = [1, 2, 3].map(i => Buffer.alloc(32, i))
+const pubkeys = privateKeys.map(key => ecc.pointFromScalar(key, true) as Buffer)
+const [privateKey] = privateKeys
+const [pubkey] = pubkeys
+const multisig = bitcoin.payments.p2ms({ m: 2, pubkeys })
+const p2wpkh = bitcoin.payments.p2wpkh({ pubkey })
+const p2wsh = bitcoin.payments.p2wsh({ redeem: multisig })
+const replayProtection = Buffer.from(
+  cdsScriptTemplates.replayProtection(pubkey.toString('hex')),
+  'hex'
+)
+
+const outputs: Output[] = [
+  { script: p2wpkh.output as Buffer, value: 50000 },
+  { script: bitcoin.payments.p2pkh({ pubkey }).output as Buffer, value: 40000 }
+]
+
+interface Fixture {
+  scriptType: ScriptTypeEnum
+  script: Buffer
+  redeemScript?: Buffer
+  witnessScript?: Buffer
+  segwit?: boolean
+  coin?: string // signs with the keymanager instead of ECDSA keys
+  schnorr?: boolean
+}
+
+const fixtures: Fixture[] = [
+  {
+    scriptType: ScriptTypeEnum.p2pk,
+    script: bitcoin.payments.p2pk({ pubkey }).output as Buffer
+  },
+  {
+    scriptType: ScriptTypeEnum.p2pkh,
+    script: bitcoin.payments.p2pkh({ pubkey }).output as Buffer
+  },
+  {
+    scriptType: ScriptTypeEnum.p2sh,
+    script: bitcoin.payments.p2sh({ redeem: multisig }).output as Buffer,
+    redeemScript: multisig.output
+  },
+  {
+    scriptType: ScriptTypeEnum.p2wpkh,
+    script: p2wpkh.output as Buffer,
+    segwit: true
+  },
+  {
+    scriptType: ScriptTypeEnum.p2wpkhp2sh,
+    script: bitcoin.payments.p2sh({ redeem: p2wpkh }).output as Buffer,
+    redeemScript: p2wpkh.output,
+    segwit: true
+  },
+  {
+    scriptType: ScriptTypeEnum.p2wsh,
+    script: p2wsh.output as Buffer,
+    witnessScript: multisig.output,
+    segwit: true
+  },
+  {
+    scriptType: ScriptTypeEnum.p2wshp2sh,
+    script: bitcoin.payments.p2sh({ redeem: p2wsh }).output as Buffer,
+    redeemScript: p2wsh.output,
+    witnessScript: multisig.output,
+    segwit: true
+  },
+  {
+    scriptType: ScriptTypeEnum.p2tr,
+    script: Buffer.concat([
+      Buffer.from('5120', 'hex'),
+      Buffer.from(
+        '0f0c8db753acbd17343a39c2f3f4e35e4be6da749f9e35137ab220e7b238a667',
+        'hex'
+      )
+    ]),
+    segwit: true,
+    coin: 'bitcoin'
+  },
+  {
+    scriptType: ScriptTypeEnum.p2pkh,
+    script: bitcoin.payments.p2pkh({ pubkey }).output as Buffer,
+    coin: 'bitcoincash',
+    schnorr: true
+  },
+  {
+    scriptType: ScriptTypeEnum.replayProtectionP2SH,
+    script: bitcoin.payments.p2sh({ redeem: { output: replayProtection } })
+      .output as Buffer,
+    redeemScript: replayProtection,
+    coin: 'bitcoincash',
+    schnorr: true
+  }
+]
+
+const ecdsaSigner = (
+  key: Buffer
+): { publicKey: Buffer; sign: (hash: Buffer) => Buffer } => ({
+  publicKey: ecc.pointFromScalar(key, true) as Buffer,
+  sign: (hash: Buffer) => Buffer.from(ecc.sign(hash, key))
+})
+
+// Signs a transaction spending two outputs of the fixture and returns it
+// with the inputs as the size estimator sees them
+const signFixture = async (
+  fixture: Fixture
+): Promise<{ tx: bitcoin.Transaction; inputs: UTXO[] }> => {
+  const prevTx = new bitcoin.Transaction()
+  prevTx.addInput(Buffer.alloc(32, 9), 0)
+  prevTx.addOutput(fixture.script, 100000)
+  prevTx.addOutput(fixture.script, 100000)
+
+  const psbt = new bitcoin.Psbt()
+  const inputs: UTXO[] = [0, 1].map(index => ({
+    hash: prevTx.getHash(),
+    index,
+    value: 100000,
+    script: fixture.script,
+    scriptType: fixture.scriptType,
+    redeemScript: fixture.redeemScript,
+    witnessScript: fixture.witnessScript,
+    schnorr: fixture.schnorr
+  }))
+  for (const input of inputs) {
+    psbt.addInput({
+      hash: input.hash,
+      index: input.index,
+      ...(fixture.segwit === true
+        ? { witnessUtxo: { script: fixture.script, value: 100000 } }
+        : { nonWitnessUtxo: prevTx.toBuffer() }),
+      ...(fixture.coin === 'bitcoincash'
+        ? {
+            sighashType:
+              bitcoin.Transaction.SIGHASH_ALL |
+              bitcoin.Transaction.SIGHASH_BITCOINCASHBIP143
+          }
+        : {}),
+      ...(fixture.redeemScript != null
+        ? { redeemScript: fixture.redeemScript }
+        : {}),
+      ...(fixture.witnessScript != null
+        ? { witnessScript: fixture.witnessScript }
+        : {})
+    })
+  }
+  psbt.addOutputs(outputs)
+
+  if (fixture.coin != null) {
+    const { hex } = await signTx({
+      psbtBase64: psbt.toBase64(),
+      privateKeys: [privateKey, privateKey].map(key => key.toString('hex')),
+      coin: fixture.coin
+    })
+    return { tx: bitcoin.Transaction.fromHex(hex), inputs }
+  }
+  const signers =
+    fixture.redeemScript === multisig.output ||
+    fixture.witnessScript === multisig.output
+      ? privateKeys.slice(0, 2)
+      : [privateKey]
+  for (const key of signers) {
+    psbt.signAllInputs(ecdsaSigner(key))
+  }
+  psbt.finalizeAllInputs()
+  return { tx: psbt.extractTransaction(), inputs }
+}
+
+describe('transaction size estimator', () => {
+  for (const fixture of fixtures) {
+    const name = `${fixture.scriptType}${
+      fixture.schnorr === true ? ' schnorr' : ''
+    }`
+    it(`estimates the virtual size of signed ${name} inputs`, async () => {
+      const { tx, inputs } = await signFixture(fixture)
+      const estimate = transactionBytes(inputs, outputs)
+      // ECDSA signatures are estimated at their largest encoding, which is
+      // a byte longer than about half of them
+      expect(estimate - tx.virtualSize()).to.be.within(0, 2 * inputs.length)
+      if (
+        fixture.schnorr === true ||
+        fixture.scriptType === ScriptTypeEnum.p2tr
+      ) {
+        expect(estimate).to.equal(tx.virtualSize())
+      }
+    })
+  }
+
+  it('counts the empty witness of inputs without witness data', async () => {
+    const [legacy, segwit] = await Promise.all([
+      signFixture(fixtures[1]),
+      signFixture(fixtures[3])
+    ])
+    const mixed = [legacy.inputs[0], segwit.inputs[0]]
+    // the marker, the flag and the empty witness weigh three units
+    expect(transactionBytes(mixed, outputs)).to.equal(
+      Math.ceil(
+        ((4 + 1 + 1 + 4) * 4 +
+          inputBytes(legacy.inputs[0]) * 4 +
+          (41 * 4 + 1 + 1 + 72 + 1 + 33) +
+          outputs.reduce(
+            (sum, { script }) => sum + (8 + 1 + script.length) * 4,
+            0
+          ) +
+          3) /
+          4
+      )
+    )
+  })
+
+  it('reads the threshold of multisig scripts', () => {
+    const threeOfThree = bitcoin.payments.p2ms({ m: 3, pubkeys })
+    const input: UTXO = {
+      hash: Buffer.alloc(32),
+      index: 0,
+      value: 10000,
+      script: Buffer.alloc(34),
+      scriptType: ScriptTypeEnum.p2wsh,
+      witnessScript: multisig.output
+    }
+    // the outpoint, the sequence and the empty script sig weigh 164 units
+    // and the witness 254 or 327 units
+    expect(inputBytes(input)).to.equal(105)
+    expect(
+      inputBytes({ ...input, witnessScript: threeOfThree.output })
+    ).to.equal(123)
+    // 2-of-3 multisig without the script
+    expect(inputBytes({ ...input, witnessScript: undefined })).to.equal(105)
+  })
+})
@@ -0,0 +1,108 @@
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  BIP43PurposeTypeEnum,
+  convertExtendedKey,
+  identifyExtendedKey,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const xpub =
+  'xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V'
+const zpub =
+  'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs'
+
+describe('slip132 extended keys', () => {
+  const bitcoin = { coin: 'bitcoin', network: NetworkEnum.Mainnet }
+
+  it('identifies the version of an extended key', () => {
+    expect(identifyExtendedKey({ ...bitcoin, xkey: zpub })).to.eql({
+      version: 0x04b24746,
+      type: BIP43PurposeTypeEnum.Segwit,
+      scriptType: ScriptTypeEnum.p2wpkh,
+      isPrivate: false
+    })
+    expect(identifyExtendedKey({ ...bitcoin, xkey: xpub })).to.eql({
+      version: 0x0488b21e,
+      type: BIP43PurposeTypeEnum.Legacy,
+      scriptType: ScriptTypeEnum.p2pkh,
+      isPrivate: false
+    })
+  })
+
+  it('converts between versions', () => {
+    expect(
+      convertExtendedKey({
+        ...bitcoin,
+        xkey: zpub,
+        newType: BIP43PurposeTypeEnum.Legacy
+      })
+    ).to.equal(xpub)
+    expect(
+      convertExtendedKey({
+        ...bitcoin,
+        xkey: xpub,
+        newType: BIP43PurposeTypeEnum.Segwit
+      })
+    ).to.equal(zpub)
+    const ypub = convertExtendedKey({
+      ...bitcoin,
+      xkey: zpub,
+      newType: BIP43PurposeTypeEnum.WrappedSegwit
+    })
+    expect(ypub.slice(0, 4)).to.equal('ypub')
+    expect(identifyExtendedKey({ ...bitcoin, xkey: ypub }).scriptType).to.equal(
+      ScriptTypeEnum.p2wpkhp2sh
+    )
+  })
+
+  it('keeps private keys private', () => {
+    const xpriv = seedOrMnemonicToXPriv({
+      ...bitcoin,
+      seed: mnemonic,
+      type: BIP43PurposeTypeEnum.Segwit
+    })
+    expect(xpriv.slice(0, 4)).to.equal('zprv')
+    const converted = convertExtendedKey({
+      ...bitcoin,
+      xkey: xpriv,
+      newType: BIP43PurposeTypeEnum.Legacy
+    })
+    expect(converted.slice(0, 4)).to.equal('xprv')
+    expect(
+      identifyExtendedKey({ ...bitcoin, xkey: converted }).isPrivate
+    ).to.equal(true)
+  })
+
+  it('uses the prefixes of the coin', () => {
+    const litecoin = { coin: 'litecoin', network: NetworkEnum.Mainnet }
+    const ltub = convertExtendedKey({
+      ...litecoin,
+      xkey: xpub,
+      newType: BIP43PurposeTypeEnum.Legacy
+    })
+    expect(ltub.slice(0, 4)).to.equal('Ltub')
+    expect(
+      convertExtendedKey({
+        ...litecoin,
+        xkey: ltub,
+        newType: BIP43PurposeTypeEnum.Legacy
+      })
+    ).to.equal(ltub)
+  })
+
+  it('rejects keys of other networks', () => {
+    expect(() =>
+      identifyExtendedKey({
+        coin: 'bitcoin',
+        network: NetworkEnum.Testnet,
+        xkey: zpub
+      })
+    ).to.throw('Invalid extended key')
+  })
+})
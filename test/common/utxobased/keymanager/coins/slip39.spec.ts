@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import { describe, it } from 'mocha'
+
+import {
+  combineSlip39,
+  isSlip39Mnemonic,
+  splitSlip39
+} from '../../../../../src/common/utxobased/keymanager/slip39Utils/slip39'
+
+// test vectors of SLIP-39, all with the passphrase TREZOR
+const singleShare =
+  'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard'
+const basicShares = [
+  'shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed',
+  'shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft early superior advocate guest smoking'
+]
+const longShares = [
+  'humidity disease academic always aluminum jewelry energy woman receiver strategy amuse duckling lying evidence network walnut tactics forget hairy rebound impulse brother survive clothes stadium mailman rival ocean reward venture always armed unwrap',
+  'humidity disease academic agency actress jacket gross physics cylinder solution fake mortgage benefit public busy prepare sharp friar change work slow purchase ruler again tricycle involve viral wireless mixture anatomy desert cargo upgrade'
+]
+
+describe('slip39 shares', () => {
+  it('combines the test vectors', () => {
+    expect(
+      combineSlip39({
+        mnemonics: [singleShare],
+        passphrase: 'TREZOR'
+      }).toString('hex')
+    ).to.equal('bb54aac4b89dc868ba37d9cc21b2cece')
+    expect(
+      combineSlip39({ mnemonics: basicShares, passphrase: 'TREZOR' }).toString(
+        'hex'
+      )
+    ).to.equal('b43ceb7e57a0ea8766221624d01b0864')
+    expect(
+      combineSlip39({ mnemonics: longShares, passphrase: 'TREZOR' }).toString(
+        'hex'
+      )
+    ).to.equal(
+      'c938b319067687e990e05e0da0ecce1278f75ff58d9853f19dcaeed5de104aae'
+    )
+  })
+
+  it('rejects a share with a wrong checksum', () => {
+    const share = singleShare.replace(/keyboard$/, 'kidney')
+    expect(isSlip39Mnemonic(share)).to.equal(false)
+    expect(() => combineSlip39({ mnemonics: [share] })).to.throw(
+      'Invalid SLIP-39 mnemonic checksum'
+    )
+  })
+
+  it('needs a threshold of shares', () => {
+    expect(() =>
+      combineSlip39({ mnemonics: basicShares.slice(1), passphrase: 'TREZOR' })
+    ).to.throw('Insufficient SLIP-39 shares to restore the master secret')
+  })
+
+  it('restores the master secret from any threshold of groups', () => {
+    const masterSecret = randomBytes(32)
+    const [single, pair, trio] = splitSlip39({
+      masterSecret,
+      passphrase: 'passphrase',
+      groupThreshold: 2,
+      groups: [
+        { threshold: 1, count: 1 },
+        { threshold: 2, count: 3 },
+        { threshold: 3, count: 5 }
+      ],
+      random: randomBytes
+    })
+    expect([single, pair, trio].map(group => group.length)).to.eql([1, 3, 5])
+    expect(single[0].split(' ')).to.have.length(33)
+    for (const mnemonics of [
+      [...single, pair[2], pair[0]],
+      [trio[4], pair[1], trio[0], pair[2], trio[2]]
+    ]) {
+      expect(
+        combineSlip39({ mnemonics, passphrase: 'passphrase' }).equals(
+          masterSecret
+        )
+      ).to.equal(true)
+    }
+    expect(() =>
+      combineSlip39({ mnemonics: [...single, ...trio.slice(0, 2)] })
+    ).to.throw('Insufficient SLIP-39 shares to restore the master secret')
+  })
+
+  it('refuses groups of copies', () => {
+    expect(() =>
+      splitSlip39({
+        masterSecret: randomBytes(16),
+        groupThreshold: 1,
+        groups: [{ threshold: 1, count: 2 }],
+        random: randomBytes
+      })
+    ).to.throw('Groups with a member threshold of 1 take one share')
+  })
+})
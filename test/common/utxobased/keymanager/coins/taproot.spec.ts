@@ -0,0 +1,317 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  addressToScriptPubkey,
+  AddressTypeEnum,
+  BIP43PurposeTypeEnum,
+  makeTx,
+  pubkeyToScriptPubkey,
+  scriptPubkeyToAddress,
+  ScriptTypeEnum,
+  seedOrMnemonicToXPriv,
+  signTx,
+  verifyAddress,
+  VerifyAddressEnum,
+  xprivToPrivateKey,
+  xprivToXPub,
+  xpubToPubkey
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  schnorrSign,
+  schnorrVerify
+} from '../../../../../src/common/utxobased/keymanager/taprootUtils/schnorr'
+import {
+  taprootSighash,
+  tweakPublicKey
+} from '../../../../../src/common/utxobased/keymanager/taprootUtils/taproot'
+
+const mnemonic =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+describe('bip340 schnorr signatures, taken from the official test vectors', () => {
+  it('signs and verifies vector 0', () => {
+    const signature = schnorrSign(
+      Buffer.alloc(32, 0),
+      Buffer.from(
+        '0000000000000000000000000000000000000000000000000000000000000003',
+        'hex'
+      ),
+      Buffer.alloc(32, 0)
+    )
+    expect(signature.toString('hex').toUpperCase()).to.equal(
+      'E907831F80848D1069A5371B402410364BDF1C5F8307B0084C55F1CE2DCA821525F66A4A85EA8B71E482A74F382D2CE5EBEEE8FDB2172F477DF4900D310536C0'
+    )
+    expect(
+      schnorrVerify(
+        Buffer.alloc(32, 0),
+        Buffer.from(
+          'F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9',
+          'hex'
+        ),
+        signature
+      )
+    ).to.equal(true)
+  })
+
+  it('signs vector 1 with aux randomness', () => {
+    const signature = schnorrSign(
+      Buffer.from(
+        '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89',
+        'hex'
+      ),
+      Buffer.from(
+        'B7E151628AED2A6ABF7158809CF4F3C762E7160F38B4DA56A784D9045190CFEF',
+        'hex'
+      ),
+      Buffer.from(
+        '0000000000000000000000000000000000000000000000000000000000000001',
+        'hex'
+      )
+    )
+    expect(signature.toString('hex').toUpperCase()).to.equal(
+      '6896BD60EEAE296DB48A229FF71DFE071BDE413E6D43F917DC8DCF8C78DE33418906D11AC976ABCCB20B091292BFF4EA897EFCB639EA871CFA95F6DE339E4B0A'
+    )
+  })
+
+  it('rejects a signature for a different message', () => {
+    const signature = schnorrSign(
+      Buffer.alloc(32, 0),
+      Buffer.from(
+        '0000000000000000000000000000000000000000000000000000000000000003',
+        'hex'
+      )
+    )
+    expect(
+      schnorrVerify(
+        Buffer.alloc(32, 1),
+        Buffer.from(
+          'F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9',
+          'hex'
+        ),
+        signature
+      )
+    ).to.equal(false)
+  })
+})
+
+describe('bitcoin taproot (bip86), taken from the official test vectors', () => {
+  const xpriv = seedOrMnemonicToXPriv({
+    seed: mnemonic,
+    network: NetworkEnum.Mainnet,
+    type: BIP43PurposeTypeEnum.Taproot,
+    coin: 'bitcoin'
+  })
+  const xpub = xprivToXPub({
+    xpriv,
+    network: NetworkEnum.Mainnet,
+    type: BIP43PurposeTypeEnum.Taproot,
+    coin: 'bitcoin'
+  })
+  const pubkey = xpubToPubkey({
+    xpub,
+    network: NetworkEnum.Mainnet,
+    type: BIP43PurposeTypeEnum.Taproot,
+    bip44ChangeIndex: 0,
+    bip44AddressIndex: 0,
+    coin: 'bitcoin'
+  })
+  const address =
+    'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+  const scriptPubkey =
+    '5120a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c'
+
+  it('derives the account keys', () => {
+    expect(xpriv).to.equal(
+      'xprv9xgqHN7yz9MwCkxsBPN5qetuNdQSUttZNKw1dcYTV4mkaAFiBVGQziHs3NRSWMkCzvgjEe3n9xV8oYywvM8at9yRqyaZVz6TYYhX98VjsUk'
+    )
+    expect(xpub).to.equal(
+      'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+    )
+  })
+
+  it('tweaks the internal key of the first receive address', () => {
+    expect(pubkey.slice(2)).to.equal(
+      'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'
+    )
+    expect(tweakPublicKey(Buffer.from(pubkey, 'hex')).toString('hex')).to.equal(
+      'a60869f0dbcf1dc659c9cecbaf8050135ea9e8cdc487053f1dc6880949dc684c'
+    )
+  })
+
+  it('converts the pubkey to a script pubkey and address', () => {
+    expect(
+      pubkeyToScriptPubkey({ pubkey, scriptType: ScriptTypeEnum.p2tr })
+        .scriptPubkey
+    ).to.equal(scriptPubkey)
+    expect(
+      scriptPubkeyToAddress({
+        scriptPubkey,
+        addressType: AddressTypeEnum.p2tr,
+        network: NetworkEnum.Mainnet,
+        coin: 'bitcoin'
+      }).address
+    ).to.equal(address)
+  })
+
+  it('converts the address back to a script pubkey', () => {
+    expect(
+      verifyAddress({ address, network: NetworkEnum.Mainnet, coin: 'bitcoin' })
+    ).to.equal(VerifyAddressEnum.good)
+    expect(
+      addressToScriptPubkey({
+        address,
+        network: NetworkEnum.Mainnet,
+        coin: 'bitcoin'
+      })
+    ).to.equal(scriptPubkey)
+  })
+
+  it('rejects a bech32 encoded witness v1 address', () => {
+    expect(
+      verifyAddress({
+        address:
+          'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqr9a0ap',
+        network: NetworkEnum.Mainnet,
+        coin: 'bitcoin'
+      })
+    ).to.equal(VerifyAddressEnum.bad)
+  })
+
+  it('creates and signs a key path spend', async () => {
+    const privateKey = xprivToPrivateKey({
+      xpriv,
+      network: NetworkEnum.Mainnet,
+      type: BIP43PurposeTypeEnum.Taproot,
+      bip44ChangeIndex: 0,
+      bip44AddressIndex: 0,
+      coin: 'bitcoin'
+    })
+    const utxo = {
+      id: `${'ab'.repeat(32)}_0`,
+      txid: 'ab'.repeat(32),
+      vout: 0,
+      value: '100000',
+      scriptPubkey,
+      script: scriptPubkey,
+      scriptType: ScriptTypeEnum.p2tr,
+      blockHeight: 1,
+      spent: false
+    }
+    const { psbtBase64 } = await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [utxo],
+      utxos: [],
+      targets: [{ address, value: 50000 }],
+      feeRate: 1,
+      setRBF: false,
+      coin: 'bitcoin',
+      freshChangeAddress: address
+    })
+    const { hex } = await signTx({
+      psbtBase64,
+      privateKeys: [privateKey],
+      coin: 'bitcoin'
+    })
+
+    const tx = bitcoin.Transaction.fromHex(hex)
+    const witness = tx.ins[0].witness
+    expect(witness.length).to.equal(1)
+    expect(witness[0].length).to.equal(64)
+    const hash = taprootSighash(
+      tx,
+      0,
+      [Buffer.from(scriptPubkey, 'hex')],
+      [100000]
+    )
+    expect(
+      schnorrVerify(hash, Buffer.from(scriptPubkey, 'hex').slice(2), witness[0])
+    ).to.equal(true)
+  })
+})
+
+describe('bitcoin witness v1+ spend targets, taken from the bip350 test vectors', () => {
+  const vectors = [
+    {
+      address:
+        'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+      scriptPubkey:
+        '5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6'
+    },
+    {
+      address: 'bc1sw50qgdz25j',
+      scriptPubkey: '6002751e'
+    },
+    {
+      address: 'bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs',
+      scriptPubkey: '5210751e76e8199196d454941c45d1b3a323'
+    }
+  ]
+
+  vectors.forEach(({ address, scriptPubkey }) => {
+    it(`converts ${address} to a script pubkey and back`, () => {
+      expect(
+        verifyAddress({
+          address,
+          network: NetworkEnum.Mainnet,
+          coin: 'bitcoin'
+        })
+      ).to.equal(VerifyAddressEnum.good)
+      expect(
+        addressToScriptPubkey({
+          address,
+          network: NetworkEnum.Mainnet,
+          coin: 'bitcoin'
+        })
+      ).to.equal(scriptPubkey)
+      expect(
+        scriptPubkeyToAddress({
+          scriptPubkey,
+          addressType: AddressTypeEnum.witnessUnknown,
+          network: NetworkEnum.Mainnet,
+          coin: 'bitcoin'
+        }).address
+      ).to.equal(address)
+    })
+  })
+
+  it('rejects witness v1+ addresses for coins without segwit', () => {
+    expect(
+      verifyAddress({
+        address: vectors[0].address,
+        network: NetworkEnum.Mainnet,
+        coin: 'bitcoincash'
+      })
+    ).to.equal(VerifyAddressEnum.bad)
+  })
+
+  it('creates a transaction paying to a witness v1+ address', async () => {
+    const segwitScriptPubkey = '0014' + '11'.repeat(20)
+    const { outputs } = await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [
+        {
+          id: `${'cd'.repeat(32)}_1`,
+          txid: 'cd'.repeat(32),
+          vout: 1,
+          value: '100000',
+          scriptPubkey: segwitScriptPubkey,
+          script: segwitScriptPubkey,
+          scriptType: ScriptTypeEnum.p2wpkh,
+          blockHeight: 1,
+          spent: false
+        }
+      ],
+      utxos: [],
+      targets: [{ address: vectors[0].address, value: 50000 }],
+      feeRate: 1,
+      setRBF: false,
+      coin: 'bitcoin',
+      freshChangeAddress: 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+    })
+    expect(outputs[0].script.toString('hex')).to.equal(vectors[0].scriptPubkey)
+    expect(outputs[0].value).to.equal(50000)
+  })
+})
@@ -0,0 +1,209 @@
+import * as bitcoin from 'altcoin-js'
+import { expect } from 'chai'
+import { describe, it } from 'mocha'
+import * as ecc from 'tiny-secp256k1'
+
+import { NetworkEnum } from '../../../../../src/common/plugin/types'
+import {
+  makeTx,
+  ScriptTypeEnum,
+  signTx
+} from '../../../../../src/common/utxobased/keymanager/keymanager'
+import {
+  blake2b256,
+  serializeZcashTx,
+  zcashSighash,
+  zcashTxid,
+  zcashTxOutput
+} from '../../../../../src/common/utxobased/keymanager/zcashUtils/zcash'
+
+const privateKey = Buffer.alloc(32, 1)
+const pubkey = ecc.pointFromScalar(privateKey, true) as Buffer
+const script = bitcoin.payments.p2pkh({ pubkey }).output as Buffer
+const address = 't1XVXWCvpMgBvUaed4XDqWtgQgJSu1Ghz7F'
+const sapling = { version: 4, consensusBranchId: 0x76b809bb }
+const nu5 = { version: 5, consensusBranchId: 0xc2d6d0b4 }
+
+const makeTransaction = (): bitcoin.Transaction => {
+  const tx = new bitcoin.Transaction()
+  tx.addInput(Buffer.alloc(32, 0xab), 1, 0xfffffffd)
+  tx.addInput(Buffer.alloc(32, 0xcd), 0, 0xffffffff)
+  tx.addOutput(
+    Buffer.from('76a9149564d9fed247986b15a2f57d0b3b032eeb28476c88ac', 'hex'),
+    100000
+  )
+  tx.addOutput(script, 5000000000)
+  tx.locktime = 7
+  return tx
+}
+const prevOuts = [
+  { script, value: 150000 },
+  { script, value: 4294967297 }
+]
+
+describe('zcash transparent transactions', () => {
+  it('personalizes blake2b', () => {
+    // ZcashSigHash with the sapling branch id, as hashed by python's hashlib
+    expect(
+      blake2b256(
+        Buffer.from('5a6361736853696748617368bb09b876', 'hex'),
+        Buffer.from('abc')
+      ).toString('hex')
+    ).to.equal(
+      '7c451f1c1ec88b67625841be9bb01eb937681067e8f4a038844a14225a3c1a73'
+    )
+    expect(() => blake2b256(Buffer.from('ZcashSigHash'))).to.throw(
+      'Invalid blake2b personalization'
+    )
+  })
+
+  it('serializes v4 and v5 transactions', () => {
+    const v4 = serializeZcashTx(makeTransaction(), sapling).toString('hex')
+    expect(v4.slice(0, 16)).to.equal('0400008085202f89')
+    expect(v4.slice(-38)).to.equal('07000000' + '00000000' + '00'.repeat(11))
+    const v5 = serializeZcashTx(makeTransaction(), nu5).toString('hex')
+    expect(v5.slice(0, 40)).to.equal('050000800a27a726b4d0d6c20700000000000000')
+    expect(v5.slice(-6)).to.equal('000000')
+    for (const hex of [v4, v5]) {
+      expect(zcashTxOutput(hex, 1)).to.deep.equal({
+        script,
+        value: 5000000000
+      })
+      expect(() => zcashTxOutput(hex, 2)).to.throw(
+        'Zcash transaction output not found'
+      )
+    }
+  })
+
+  it('computes the zip 243 and zip 244 sighashes', () => {
+    const tx = makeTransaction()
+    const sighash = (params: typeof sapling): string =>
+      zcashSighash({ tx, index: 1, prevOuts, hashType: 1, params }).toString(
+        'hex'
+      )
+    expect(sighash(sapling)).to.equal(
+      '4a69b491f2a17b12f5918e1cebb4482544e3461848f1eac9f9d1c8179f3ec5c2'
+    )
+    expect(sighash(nu5)).to.equal(
+      'a4da21a57fe3f16f9f451859696dc21f663a825b2eaf2724c444172ce8059b4b'
+    )
+    // the txid @trezor/utxo-lib computes as well
+    expect(zcashTxid(tx, nu5)).to.equal(
+      '95af6c3d3997620929d3c915e4bcf4e6f4d8d9692749f5c8978055a5efe2e633'
+    )
+    expect(() =>
+      zcashSighash({ tx, index: 1, prevOuts, hashType: 0x81, params: nu5 })
+    ).to.throw('Zcash transactions are only signed with SIGHASH_ALL')
+  })
+
+  it('matches test vector 3 of zip 243', () => {
+    // a signed sapling transaction spending a p2pkh output of 0.5 ZEC
+    const raw =
+      '0400008085202f8901a8c685478265f4c14dada651969c45a65e1aeb8cd6791f2f5bb6a1d9952104d9010000006b483045022100a61e5d557568c2ddc1d9b03a7173c6ce7c996c4daecab007ac8f34bee01e6b9702204d38fdc0bcf2728a69fde78462a10fb45a9baa27873e6a5fc45fb5c76764202a01210365ffea3efa3908918a8b8627724af852fc9b86d7375b103ab0543cf418bcaa7ffeffffff02005a6202000000001976a9148132712c3ff19f3a151234616777420a6d7ef22688ac8b959800000000001976a9145453e4698f02a38abdaa521cd1ff2dee6fac187188ac29b0040048b004000000000000000000000000'
+    const signature = Buffer.from(
+      '3045022100a61e5d557568c2ddc1d9b03a7173c6ce7c996c4daecab007ac8f34bee01e6b9702204d38fdc0bcf2728a69fde78462a10fb45a9baa27873e6a5fc45fb5c76764202a01',
+      'hex'
+    )
+    const pubkey = Buffer.from(
+      '0365ffea3efa3908918a8b8627724af852fc9b86d7375b103ab0543cf418bcaa7f',
+      'hex'
+    )
+    const tx = new bitcoin.Transaction()
+    tx.addInput(
+      Buffer.from(
+        'a8c685478265f4c14dada651969c45a65e1aeb8cd6791f2f5bb6a1d9952104d9',
+        'hex'
+      ),
+      1,
+      0xfffffffe,
+      bitcoin.script.compile([signature, pubkey])
+    )
+    tx.addOutput(
+      Buffer.from('76a9148132712c3ff19f3a151234616777420a6d7ef22688ac', 'hex'),
+      40000000
+    )
+    tx.addOutput(
+      Buffer.from('76a9145453e4698f02a38abdaa521cd1ff2dee6fac187188ac', 'hex'),
+      9999755
+    )
+    tx.locktime = 0x0004b029
+    const params = { ...sapling, expiryHeight: 0x0004b048 }
+    expect(serializeZcashTx(tx, params).toString('hex')).to.equal(raw)
+
+    const sighash = zcashSighash({
+      tx,
+      index: 0,
+      prevOuts: [
+        {
+          script: bitcoin.payments.p2pkh({ pubkey }).output as Buffer,
+          value: 50000000
+        }
+      ],
+      hashType: 1,
+      params
+    })
+    expect(sighash.toString('hex')).to.equal(
+      'f3148f80dfab5e573d5edfe7a850f5fd39234f80b5429d3a57edcc11e34c585b'
+    )
+    const { signature: rawSignature } = bitcoin.script.signature.decode(
+      signature
+    )
+    expect(ecc.verify(sighash, pubkey, rawSignature)).to.equal(true)
+  })
+
+  it('builds and signs a transaction spending a p2pkh output', async () => {
+    const prevTx = serializeZcashTx(makeTransaction(), sapling).toString('hex')
+    const { psbtBase64 } = await makeTx({
+      network: NetworkEnum.Mainnet,
+      forceUseUtxo: [],
+      utxos: [
+        {
+          id: `${'ab'.repeat(32)}_1`,
+          txid: 'ab'.repeat(32),
+          vout: 1,
+          value: '5000000000',
+          scriptPubkey: script.toString('hex'),
+          script: prevTx,
+          scriptType: ScriptTypeEnum.p2pkh,
+          blockHeight: 1,
+          spent: false
+        }
+      ],
+      targets: [{ address, value: 100000 }],
+      feeRate: 50,
+      setRBF: false,
+      coin: 'zcash',
+      freshChangeAddress: address
+    })
+    const signed = await signTx({
+      psbtBase64,
+      privateKeys: [privateKey.toString('hex')],
+      coin: 'zcash'
+    })
+    // v5 transactions signed for nu6.1
+    expect(signed.hex.slice(0, 24)).to.equal('050000800a27a726f04dec4d')
+
+    // the id of v5 transactions does not commit to the signatures
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64)
+    const tx = bitcoin.Transaction.fromBuffer(
+      psbt.data.globalMap.unsignedTx.toBuffer()
+    )
+    const params = { version: 5, consensusBranchId: 0x4dec4df0 }
+    expect(signed.id).to.equal(zcashTxid(tx, params))
+
+    // the script sig follows the 20 byte header, the input count and outpoint
+    const signedTx = Buffer.from(signed.hex, 'hex')
+    const scriptSig = signedTx.slice(58, 58 + signedTx[57])
+    const [signature, signer] = bitcoin.script.decompile(scriptSig) as Buffer[]
+    expect(signer.equals(pubkey)).to.equal(true)
+    const decoded = bitcoin.script.signature.decode(signature)
+    const hash = zcashSighash({
+      tx,
+      index: 0,
+      prevOuts: [{ script, value: 5000000000 }],
+      hashType: decoded.hashType,
+      params
+    })
+    expect(ecc.verify(hash, pubkey, decoded.signature)).to.equal(true)
+  })
+})